@@ -3,30 +3,116 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { trpc } from '@/utils/trpc';
 import { useState, useEffect, useCallback } from 'react';
-import type { StockSymbol, Interval, StockTick, FetchStockDataInput, BatchFetchInput } from '../../server/src/schema';
+import type { StockSymbol, Interval, Period, SessionFilter, StockTick, BarUpdate, FetchStockDataInput, EnqueueIngestJobsInput, IngestJob, IngestProgressEvent, SymbolFetchResult, TrackedSymbol } from '../../server/src/schema';
 import { StockChart } from '@/components/StockChart';
 import { StockTable } from '@/components/StockTable';
 import { PriceOverview } from '@/components/PriceOverview';
+import { SymbolManager } from '@/components/SymbolManager';
+import { ScheduleManager } from '@/components/ScheduleManager';
+import { TradeTape } from '@/components/TradeTape';
+import { CoverageHeatmap } from '@/components/CoverageHeatmap';
+import { BatchResultsTable } from '@/components/BatchResultsTable';
+import type { TimeDisplay } from '@/lib/format';
+import { inSession, mergeBars, mergeLatestPrice } from '@/lib/bars';
 
-const STOCK_SYMBOLS: StockSymbol[] = ['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA'];
 const INTERVALS: Interval[] = ['1m', '5m', '15m', '30m', '1h', '1d'];
-const PERIODS = ['1d', '5d', '1mo', '3mo', '6mo', '1y'];
+const PERIODS: Period[] = ['1d', '5d', '1mo', '3mo', '6mo', '1y'];
+
+// Bars loaded for the chart and table
+const HISTORY_LIMIT = 100;
+
+// localStorage key for the exchange/local time preference
+const TIME_DISPLAY_KEY = 'timeDisplay';
+
+const isJobPending = (job: IngestJob): boolean => job.status === 'queued' || job.status === 'running';
+
+// A batch job as of a progress event for its symbol
+const applyProgress = (job: IngestJob, event: IngestProgressEvent): IngestJob => {
+  if (job.symbol !== event.symbol) return job;
+
+  const counts = { bars_inserted: event.inserted, bars_updated: event.updated, bars_unchanged: event.unchanged, bars_quarantined: event.quarantined };
+  switch (event.stage) {
+    case 'started':
+      return { ...job, status: 'running', started_at: event.at };
+    case 'written':
+      return { ...job, ...counts };
+    case 'finished':
+      return { ...job, ...counts, status: 'succeeded', finished_at: event.at };
+    case 'failed':
+      return event.retrying
+        ? { ...job, status: 'queued', last_error: event.error }
+        : { ...job, status: 'failed', last_error: event.error, finished_at: event.at };
+  }
+};
+
+// Per-symbol result row for a finished ingest job
+const jobResult = (job: IngestJob): SymbolFetchResult => {
+  const inserted = job.bars_inserted ?? 0;
+  const updated = job.bars_updated ?? 0;
+  const unchanged = job.bars_unchanged ?? 0;
+  const quarantined = job.bars_quarantined ?? 0;
+  return {
+    symbol: job.symbol,
+    status: job.status === 'failed' ? 'failed' : inserted + updated + unchanged + quarantined === 0 ? 'empty' : 'succeeded',
+    inserted,
+    updated,
+    unchanged,
+    quarantined,
+    durationMs: job.started_at && job.finished_at ? job.finished_at.getTime() - job.started_at.getTime() : 0,
+    error: job.status === 'failed' ? job.last_error : null,
+  };
+};
 
 function App() {
+  const [symbols, setSymbols] = useState<StockSymbol[]>([]);
+  const [symbolInfo, setSymbolInfo] = useState<TrackedSymbol[]>([]);
   const [selectedSymbol, setSelectedSymbol] = useState<StockSymbol>('AAPL');
   const [selectedInterval, setSelectedInterval] = useState<Interval>('1m');
-  const [selectedPeriod, setSelectedPeriod] = useState<string>('1d');
+  const [selectedPeriod, setSelectedPeriod] = useState<Period>('1d');
+  const [selectedSession, setSelectedSession] = useState<SessionFilter>('extended');
+  const [timeDisplay, setTimeDisplay] = useState<TimeDisplay>(() =>
+    localStorage.getItem(TIME_DISPLAY_KEY) === 'local' ? 'local' : 'exchange'
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [isBatchLoading, setIsBatchLoading] = useState(false);
+  const [batchJobs, setBatchJobs] = useState<IngestJob[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [stockData, setStockData] = useState<StockTick[]>([]);
   const [latestPrices, setLatestPrices] = useState<StockTick[]>([]);
 
+  // Load the tracked symbol universe and its reference data
+  const loadSymbols = useCallback(async () => {
+    try {
+      const [activeSymbols, allSymbolInfo] = await Promise.all([
+        trpc.getAllSymbols.query(),
+        // Inactive symbols still have stored data to format
+        trpc.listSymbols.query({ includeInactive: true }),
+      ]);
+      setSymbols(activeSymbols);
+      setSymbolInfo(allSymbolInfo);
+      // Keep the selection valid if its symbol was deactivated
+      setSelectedSymbol((current: StockSymbol) =>
+        activeSymbols.includes(current) || activeSymbols.length === 0 ? current : activeSymbols[0]
+      );
+    } catch (error) {
+      console.error('Failed to load symbols:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSymbols();
+  }, [loadSymbols]);
+
+  useEffect(() => {
+    localStorage.setItem(TIME_DISPLAY_KEY, timeDisplay);
+  }, [timeDisplay]);
+
   // Load latest prices on component mount
   const loadLatestPrices = useCallback(async () => {
     try {
@@ -41,25 +127,56 @@ function App() {
     loadLatestPrices();
   }, [loadLatestPrices]);
 
+  // Keep latest prices current as bars are ingested
+  useEffect(() => {
+    const subscription = trpc.onBars.subscribe({}, {
+      onData: (update: BarUpdate) => {
+        const latest = update.bars[update.bars.length - 1];
+        setLatestPrices((prices: StockTick[]) => mergeLatestPrice(prices, latest));
+      },
+      onError: (err: unknown) => console.error('Latest price stream failed:', err),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
   // Load historical data for selected symbol
   const loadHistoricalData = useCallback(async () => {
     try {
       const data = await trpc.getHistoricalData.query({
         symbol: selectedSymbol,
         interval: selectedInterval,
-        limit: 100,
+        limit: HISTORY_LIMIT,
+        session: selectedSession,
       });
       setStockData(data);
     } catch (error) {
       console.error('Failed to load historical data:', error);
       setStockData([]);
     }
-  }, [selectedSymbol, selectedInterval]);
+  }, [selectedSymbol, selectedInterval, selectedSession]);
 
   useEffect(() => {
     loadHistoricalData();
   }, [loadHistoricalData]);
 
+  // Update the charted bars in place as they are ingested, forming bar included.
+  // Rolled-up bars follow their source interval and are rebuilt by the server.
+  const sourceInterval = stockData[0]?.source_interval;
+  useEffect(() => {
+    const subscription = trpc.onBars.subscribe({ symbol: selectedSymbol, interval: sourceInterval ?? selectedInterval }, {
+      onData: (update: BarUpdate) => {
+        if (sourceInterval) {
+          loadHistoricalData();
+          return;
+        }
+        const bars = update.bars.filter((tick: StockTick) => inSession(tick, selectedSession));
+        setStockData((current: StockTick[]) => mergeBars(current, bars, HISTORY_LIMIT));
+      },
+      onError: (err: unknown) => console.error('Bar stream failed:', err),
+    });
+    return () => subscription.unsubscribe();
+  }, [selectedSymbol, selectedInterval, selectedSession, sourceInterval, loadHistoricalData]);
+
   const handleFetchStockData = async () => {
     setIsLoading(true);
     setError(null);
@@ -91,25 +208,67 @@ function App() {
     setSuccess(null);
 
     try {
-      const input: BatchFetchInput = {
-        symbols: STOCK_SYMBOLS,
+      const input: EnqueueIngestJobsInput = {
+        symbols,
         interval: selectedInterval,
         period: selectedPeriod,
+        maxAttempts: 5,
       };
 
-      const result = await trpc.batchFetchStocks.mutate(input);
-      setSuccess(`🚀 Successfully batch fetched ${result.length} total data points for all symbols`);
-      
-      // Reload data to show the new data
-      await loadHistoricalData();
-      await loadLatestPrices();
+      // Jobs run on the server's ingest workers; progress streams in below
+      const batch = await trpc.enqueueIngestJobs.mutate(input);
+      setBatchJobs(batch.jobs);
     } catch (err) {
       setError(`❌ Batch fetch failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
-    } finally {
       setIsBatchLoading(false);
     }
   };
 
+  // Follow a queued batch live until every job has succeeded or failed
+  const batchId = batchJobs[0]?.batch_id;
+  const batchPending = batchJobs.some(isJobPending);
+  useEffect(() => {
+    if (!batchId || !batchPending) return;
+
+    const subscription = trpc.onIngestProgress.subscribe({ batchId }, {
+      // Catch up on jobs that ran before the stream (re)connected
+      onStarted: () => {
+        trpc.getIngestJobs.query({ batchId, limit: 1000 })
+          .then(setBatchJobs)
+          .catch((err: unknown) => console.error('Failed to load ingest jobs:', err));
+      },
+      onData: (event: IngestProgressEvent) => {
+        setBatchJobs((jobs: IngestJob[]) => jobs.map((job: IngestJob) => applyProgress(job, event)));
+      },
+      onError: (err: unknown) => console.error('Ingest progress stream failed:', err),
+    });
+
+    return () => subscription.unsubscribe();
+  }, [batchId, batchPending]);
+
+  // Report the batch and show its data once the last job settles
+  useEffect(() => {
+    if (!batchId || batchPending || !isBatchLoading) return;
+
+    const failed = batchJobs.filter((job: IngestJob) => job.status === 'failed');
+    const written = batchJobs.reduce((sum: number, job: IngestJob) => sum + (job.bars_inserted ?? 0) + (job.bars_updated ?? 0), 0);
+    if (failed.length > 0) {
+      setError(`❌ Batch fetch failed for ${failed.map((job: IngestJob) => job.symbol).join(', ')}`);
+    }
+    setSuccess(`🚀 Batch fetched ${written} total data points for ${batchJobs.length - failed.length} of ${batchJobs.length} symbols`);
+    setIsBatchLoading(false);
+
+    // Reload data to show the new data
+    loadHistoricalData();
+    loadLatestPrices();
+  }, [batchId, batchPending, batchJobs, isBatchLoading, loadHistoricalData, loadLatestPrices]);
+
+  const batchFinished = batchJobs.filter((job: IngestJob) => !isJobPending(job));
+  const batchDone = batchFinished.length;
+  const batchWritten = batchJobs.reduce((sum: number, job: IngestJob) => sum + (job.bars_inserted ?? 0) + (job.bars_updated ?? 0), 0);
+
+  const selectedInfo = symbolInfo.find((info: TrackedSymbol) => info.symbol === selectedSymbol);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
       <div className="container mx-auto max-w-7xl">
@@ -121,6 +280,17 @@ function App() {
           <p className="text-lg text-gray-600">
             Real-time stock data from Yahoo Finance API
           </p>
+          <div className="mt-3 flex justify-center">
+            <Select value={timeDisplay} onValueChange={(value: TimeDisplay) => setTimeDisplay(value)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="exchange">🏛️ Exchange time</SelectItem>
+                <SelectItem value="local">🌍 Local time</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         {/* Alert Messages */}
@@ -137,14 +307,16 @@ function App() {
         )}
 
         {/* Price Overview */}
-        <PriceOverview latestPrices={latestPrices} />
+        <PriceOverview latestPrices={latestPrices} symbols={symbolInfo} timeDisplay={timeDisplay} />
 
         {/* Main Content */}
         <Tabs defaultValue="fetch" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="fetch">📊 Fetch Data</TabsTrigger>
             <TabsTrigger value="chart">📈 Chart View</TabsTrigger>
             <TabsTrigger value="table">📋 Data Table</TabsTrigger>
+            <TabsTrigger value="trades">🧾 Trades</TabsTrigger>
+            <TabsTrigger value="coverage">🗓️ Coverage</TabsTrigger>
           </TabsList>
 
           {/* Data Fetching Tab */}
@@ -169,7 +341,7 @@ function App() {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {STOCK_SYMBOLS.map((symbol: StockSymbol) => (
+                          {symbols.map((symbol: StockSymbol) => (
                             <SelectItem key={symbol} value={symbol}>
                               {symbol}
                             </SelectItem>
@@ -197,12 +369,12 @@ function App() {
 
                   <div>
                     <label className="text-sm font-medium mb-2 block">Period</label>
-                    <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
+                    <Select value={selectedPeriod} onValueChange={(value: Period) => setSelectedPeriod(value)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {PERIODS.map((period: string) => (
+                        {PERIODS.map((period: Period) => (
                           <SelectItem key={period} value={period}>
                             {period}
                           </SelectItem>
@@ -228,12 +400,12 @@ function App() {
                     🌟 Batch Fetch All Stocks
                   </CardTitle>
                   <CardDescription>
-                    Fetch data for all available stock symbols at once
+                    Queue background fetches for all available stock symbols at once
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="flex flex-wrap gap-2">
-                    {STOCK_SYMBOLS.map((symbol: StockSymbol) => (
+                    {symbols.map((symbol: StockSymbol) => (
                       <Badge key={symbol} variant="secondary">
                         {symbol}
                       </Badge>
@@ -259,12 +431,12 @@ function App() {
 
                     <div>
                       <label className="text-sm font-medium mb-2 block">Period</label>
-                      <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
+                      <Select value={selectedPeriod} onValueChange={(value: Period) => setSelectedPeriod(value)}>
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {PERIODS.map((period: string) => (
+                          {PERIODS.map((period: Period) => (
                             <SelectItem key={period} value={period}>
                               {period}
                             </SelectItem>
@@ -276,24 +448,57 @@ function App() {
 
                   <Button 
                     onClick={handleBatchFetch} 
-                    disabled={isBatchLoading}
+                    disabled={isBatchLoading || symbols.length === 0}
                     className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
                   >
                     {isBatchLoading ? '⏳ Batch Fetching...' : '🚀 Batch Fetch All Stocks'}
                   </Button>
+                  {batchPending && (
+                    <div className="space-y-2">
+                      <Progress value={(batchDone / batchJobs.length) * 100} />
+                      <p className="text-sm text-gray-600 text-center">
+                        {batchDone} of {batchJobs.length} symbols done, {batchWritten.toLocaleString()} bars written; jobs keep running if you leave this page
+                      </p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </div>
+
+            {batchDone > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    📋 Batch Results
+                  </CardTitle>
+                  <CardDescription>
+                    Rows written per symbol by the last batch fetch; failed symbols show their last error
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BatchResultsTable results={batchFinished.map(jobResult)} />
+                </CardContent>
+              </Card>
+            )}
+
+            <SymbolManager symbols={symbols} onSymbolsChanged={loadSymbols} />
+
+            <ScheduleManager />
           </TabsContent>
 
           {/* Chart View Tab */}
           <TabsContent value="chart">
             <StockChart 
               data={stockData} 
+              symbols={symbols}
               symbol={selectedSymbol}
+              symbolInfo={selectedInfo}
               interval={selectedInterval}
+              session={selectedSession}
+              timeDisplay={timeDisplay}
               onSymbolChange={setSelectedSymbol}
               onIntervalChange={setSelectedInterval}
+              onSessionChange={setSelectedSession}
             />
           </TabsContent>
 
@@ -301,12 +506,31 @@ function App() {
           <TabsContent value="table">
             <StockTable 
               data={stockData} 
+              symbols={symbols}
               symbol={selectedSymbol}
+              symbolInfo={selectedInfo}
               interval={selectedInterval}
+              timeDisplay={timeDisplay}
               onSymbolChange={setSelectedSymbol}
               onIntervalChange={setSelectedInterval}
             />
           </TabsContent>
+
+          {/* Trade Tape Tab */}
+          <TabsContent value="trades">
+            <TradeTape
+              symbol={selectedSymbol}
+              symbolInfo={selectedInfo}
+              interval={selectedInterval}
+              timeDisplay={timeDisplay}
+              onBarsRebuilt={loadHistoricalData}
+            />
+          </TabsContent>
+
+          {/* Data Coverage Tab */}
+          <TabsContent value="coverage">
+            <CoverageHeatmap symbolInfo={symbolInfo} timeDisplay={timeDisplay} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
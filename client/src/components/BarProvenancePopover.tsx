@@ -0,0 +1,47 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatDateTime } from '@/lib/format';
+import type { StockTick } from '../../../server/src/schema';
+
+interface BarProvenancePopoverProps {
+  tick: StockTick;
+  timeZone?: string;
+}
+
+// Which provider and ingest run produced a stored bar, for telling apart
+// candles that look different to different people
+export function BarProvenancePopover({ tick, timeZone }: BarProvenancePopoverProps) {
+  const rows: [string, string | null][] = [
+    ['Provider', tick.source],
+    ['Fetched', tick.fetched_at ? formatDateTime(tick.fetched_at, timeZone) : null],
+    ['Ingest run', tick.ingest_run_id],
+    ['Payload hash', tick.payload_hash],
+    ['Stored', formatDateTime(tick.created_at, timeZone)]
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 font-mono text-xs">
+          {tick.source ?? 'unknown'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="mb-2 text-sm font-medium">Bar provenance</div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="break-all font-mono">{value ?? '—'}</dd>
+            </div>
+          ))}
+        </dl>
+        {tick.source_interval && (
+          <p className="mt-2 text-xs text-gray-500">
+            Rolled up from stored {tick.source_interval} bars; shown where they all agree.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
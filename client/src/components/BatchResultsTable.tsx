@@ -0,0 +1,53 @@
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { SymbolFetchResult, SymbolFetchStatus } from '../../../server/src/schema';
+
+interface BatchResultsTableProps {
+  results: SymbolFetchResult[];
+}
+
+const statusVariant = (status: SymbolFetchStatus): 'default' | 'destructive' | 'secondary' =>
+  status === 'succeeded' ? 'default' : status === 'failed' ? 'destructive' : 'secondary';
+
+const formatDuration = (ms: number): string => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+export function BatchResultsTable({ results }: BatchResultsTableProps) {
+  if (results.length === 0) return null;
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Symbol</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Inserted</TableHead>
+            <TableHead className="text-right">Updated</TableHead>
+            <TableHead className="text-right">Unchanged</TableHead>
+            <TableHead className="text-right">Quarantined</TableHead>
+            <TableHead className="text-right">Duration</TableHead>
+            <TableHead>Error</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.map((result: SymbolFetchResult) => (
+            <TableRow key={result.symbol}>
+              <TableCell className="font-medium">{result.symbol}</TableCell>
+              <TableCell>
+                <Badge variant={statusVariant(result.status)}>{result.status}</Badge>
+              </TableCell>
+              <TableCell className="text-right font-mono">{result.inserted.toLocaleString()}</TableCell>
+              <TableCell className="text-right font-mono">{result.updated.toLocaleString()}</TableCell>
+              <TableCell className="text-right font-mono">{result.unchanged.toLocaleString()}</TableCell>
+              <TableCell className={`text-right font-mono ${result.quarantined > 0 ? 'text-amber-600' : ''}`}>
+                {result.quarantined.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right font-mono">{formatDuration(result.durationMs)}</TableCell>
+              <TableCell className="text-sm text-red-600">{result.error}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
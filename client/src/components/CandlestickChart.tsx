@@ -1,11 +1,15 @@
 
 import { useEffect, useRef } from 'react';
-import type { CandlestickDataPoint, StockSymbol, Interval } from '../../../server/src/schema';
+import { formatDate, formatDateTime, formatPrice, formatTime, timeZoneLabel } from '@/lib/format';
+import type { CandlestickDataPoint, StockSymbol, Interval, Quote, TrackedSymbol } from '../../../server/src/schema';
 
 interface CandlestickChartProps {
   data: CandlestickDataPoint[];
+  quotes?: Quote[]; // when given, draws the NBBO band, mid line and a spread pane
   symbol: StockSymbol;
+  symbolInfo?: TrackedSymbol; // currency and tick size for price labels
   interval: Interval;
+  timeZone?: string; // zone for time labels; the browser's own when unset
   width?: number;
   height?: number;
 }
@@ -14,10 +18,16 @@ interface ProcessedDataPoint extends CandlestickDataPoint {
   timestamp: Date;
 }
 
+// Stable default so the chart isn't redrawn on every render
+const NO_QUOTES: Quote[] = [];
+
 export function CandlestickChart({ 
   data, 
+  quotes = NO_QUOTES,
   symbol, 
+  symbolInfo,
   interval, 
+  timeZone,
   width = 800, 
   height = 400 
 }: CandlestickChartProps) {
@@ -55,22 +65,162 @@ export function CandlestickChart({
       Math.max(...processedData.map((d: ProcessedDataPoint) => d.timestamp.getTime()))
     ];
 
+    // Quotes inside the charted time range, oldest first
+    const visibleQuotes = quotes
+      .filter((q: Quote) => q.timestamp.getTime() >= timeExtent[0] && q.timestamp.getTime() <= timeExtent[1])
+      .sort((a: Quote, b: Quote) => a.timestamp.getTime() - b.timestamp.getTime());
+    const hasQuotes = visibleQuotes.length > 1;
+
+    // With quotes, the bottom quarter becomes a spread-in-bps pane
+    const paneGap = hasQuotes ? 24 : 0;
+    const spreadHeight = hasQuotes ? Math.round(innerHeight * 0.25) : 0;
+    const priceHeight = innerHeight - spreadHeight - paneGap;
+
     const priceExtent = [
-      Math.min(...processedData.map((d: ProcessedDataPoint) => d.low)),
-      Math.max(...processedData.map((d: ProcessedDataPoint) => d.high))
+      Math.min(...processedData.map((d: ProcessedDataPoint) => d.low), ...visibleQuotes.map((q: Quote) => q.bid)),
+      Math.max(...processedData.map((d: ProcessedDataPoint) => d.high), ...visibleQuotes.map((q: Quote) => q.ask))
     ];
 
-    const xScale = (timestamp: number) => 
-      ((timestamp - timeExtent[0]) / (timeExtent[1] - timeExtent[0])) * innerWidth;
+    // Trading-time x scale: bars are evenly spaced, so market closures
+    // (overnight, weekends and holidays have no bars) take no width. Times
+    // between two bars, such as quotes, are placed proportionally between them.
+    const barTimes = processedData.map((d: ProcessedDataPoint) => d.timestamp.getTime());
+    const barStep = innerWidth / Math.max(barTimes.length - 1, 1);
+    const xScale = (timestamp: number) => {
+      let lo = 0;
+      let hi = barTimes.length - 1;
+      if (timestamp <= barTimes[lo]) return 0;
+      if (timestamp >= barTimes[hi]) return hi * barStep;
+      while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (barTimes[mid] <= timestamp) lo = mid;
+        else hi = mid;
+      }
+      return (lo + (timestamp - barTimes[lo]) / (barTimes[hi] - barTimes[lo])) * barStep;
+    };
+
+    // Exchange trading date of each bar; sessions are on New York dates
+    const tradingDate = (d: ProcessedDataPoint) =>
+      d.timestamp.toLocaleDateString([], { timeZone: 'America/New_York', month: 'short', day: 'numeric' });
+    const spansSessions = tradingDate(processedData[0]) !== tradingDate(processedData[processedData.length - 1]);
 
     const yScale = (price: number) => 
-      innerHeight - ((price - priceExtent[0]) / (priceExtent[1] - priceExtent[0])) * innerHeight;
+      priceHeight - ((price - priceExtent[0]) / (priceExtent[1] - priceExtent[0])) * priceHeight;
 
     // Create main group
     const g = document.createElementNS('http://www.w3.org/2000/svg', 'g');
     g.setAttribute('transform', `translate(${margin.left},${margin.top})`);
     svg.appendChild(g);
 
+    // Shade runs of pre- and post-market bars behind the candles
+    const extendedFills: Record<string, string> = { pre: '#fef3c7', post: '#e0e7ff' };
+    let runStart = 0;
+    processedData.forEach((d: ProcessedDataPoint, i: number) => {
+      const next = processedData[i + 1];
+      if (next && next.session === d.session && tradingDate(next) === tradingDate(d)) return;
+
+      const fill = d.session ? extendedFills[d.session] : undefined;
+      if (fill) {
+        const x1 = Math.max(0, (runStart - 0.5) * barStep);
+        const x2 = Math.min(innerWidth, (i + 0.5) * barStep);
+        const shade = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+        shade.setAttribute('x', x1.toString());
+        shade.setAttribute('y', '0');
+        shade.setAttribute('width', Math.max(x2 - x1, 1).toString());
+        shade.setAttribute('height', priceHeight.toString());
+        shade.setAttribute('fill', fill);
+        g.appendChild(shade);
+      }
+      runStart = i + 1;
+    });
+
+    if (hasQuotes) {
+      // NBBO band: along the asks, then back along the bids
+      const band = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+      const askPoints = visibleQuotes.map((q: Quote) => `${xScale(q.timestamp.getTime())},${yScale(q.ask)}`);
+      const bidPoints = visibleQuotes.map((q: Quote) => `${xScale(q.timestamp.getTime())},${yScale(q.bid)}`).reverse();
+      band.setAttribute('points', [...askPoints, ...bidPoints].join(' '));
+      band.setAttribute('fill', '#3b82f6');
+      band.setAttribute('fill-opacity', '0.15');
+      band.setAttribute('stroke', 'none');
+      g.appendChild(band);
+
+      // Mid-price line
+      const midLine = document.createElementNS('http://www.w3.org/2000/svg', 'polyline');
+      midLine.setAttribute('points', visibleQuotes
+        .map((q: Quote) => `${xScale(q.timestamp.getTime())},${yScale((q.bid + q.ask) / 2)}`)
+        .join(' '));
+      midLine.setAttribute('fill', 'none');
+      midLine.setAttribute('stroke', '#3b82f6');
+      midLine.setAttribute('stroke-width', '1');
+      g.appendChild(midLine);
+
+      // Spread pane below the price pane
+      const spreads = visibleQuotes.map((q: Quote) => (q.ask - q.bid) / ((q.ask + q.bid) / 2) * 10000);
+      const maxSpread = Math.max(...spreads) || 1;
+      const spreadY = (bps: number) => spreadHeight - (bps / maxSpread) * spreadHeight;
+
+      const spreadGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+      spreadGroup.setAttribute('transform', `translate(0,${priceHeight + paneGap})`);
+
+      const spreadArea = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+      spreadArea.setAttribute('points', [
+        `0,${spreadHeight}`,
+        ...visibleQuotes.map((q: Quote, i: number) => `${xScale(q.timestamp.getTime())},${spreadY(spreads[i])}`),
+        `${xScale(visibleQuotes[visibleQuotes.length - 1].timestamp.getTime())},${spreadHeight}`
+      ].join(' '));
+      spreadArea.setAttribute('fill', '#f59e0b');
+      spreadArea.setAttribute('fill-opacity', '0.4');
+      spreadArea.setAttribute('stroke', '#d97706');
+      spreadArea.setAttribute('stroke-width', '1');
+      spreadGroup.appendChild(spreadArea);
+
+      const spreadAxis = document.createElementNS('http://www.w3.org/2000/svg', 'line');
+      spreadAxis.setAttribute('x1', '0');
+      spreadAxis.setAttribute('x2', '0');
+      spreadAxis.setAttribute('y1', '0');
+      spreadAxis.setAttribute('y2', spreadHeight.toString());
+      spreadAxis.setAttribute('stroke', '#666');
+      spreadGroup.appendChild(spreadAxis);
+
+      // Max and zero spread labels
+      [maxSpread, 0].forEach((bps: number) => {
+        const label = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+        label.setAttribute('x', '-10');
+        label.setAttribute('y', (spreadY(bps) + 4).toString());
+        label.setAttribute('text-anchor', 'end');
+        label.setAttribute('font-size', '11');
+        label.setAttribute('fill', '#666');
+        label.textContent = `${bps.toFixed(1)}`;
+        spreadGroup.appendChild(label);
+      });
+
+      const spreadTitle = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      spreadTitle.setAttribute('x', '6');
+      spreadTitle.setAttribute('y', '10');
+      spreadTitle.setAttribute('font-size', '11');
+      spreadTitle.setAttribute('fill', '#92400e');
+      spreadTitle.textContent = 'Spread (bps)';
+      spreadGroup.appendChild(spreadTitle);
+
+      g.appendChild(spreadGroup);
+    }
+
+    // Dashed separators where a new trading session starts
+    processedData.forEach((d: ProcessedDataPoint, i: number) => {
+      if (i === 0 || tradingDate(d) === tradingDate(processedData[i - 1])) return;
+
+      const x = (i - 0.5) * barStep;
+      const separator = document.createElementNS('http://www.w3.org/2000/svg', 'line');
+      separator.setAttribute('x1', x.toString());
+      separator.setAttribute('x2', x.toString());
+      separator.setAttribute('y1', '0');
+      separator.setAttribute('y2', priceHeight.toString());
+      separator.setAttribute('stroke', '#cbd5e1');
+      separator.setAttribute('stroke-dasharray', '4 4');
+      g.appendChild(separator);
+    });
+
     // Calculate candlestick width
     const candleWidth = Math.max(2, Math.min(12, innerWidth / processedData.length * 0.7));
 
@@ -98,9 +248,14 @@ export function CandlestickChart({
       rect.setAttribute('y', rectY.toString());
       rect.setAttribute('width', candleWidth.toString());
       rect.setAttribute('height', rectHeight.toString());
-      rect.setAttribute('fill', isGreen ? '#10b981' : '#ef4444');
+      // The forming bar is drawn hollow and dashed until its interval closes
+      rect.setAttribute('fill', !d.is_final ? '#ffffff' : isGreen ? '#10b981' : '#ef4444');
       rect.setAttribute('stroke', isGreen ? '#059669' : '#dc2626');
       rect.setAttribute('stroke-width', '1');
+      if (!d.is_final) {
+        rect.setAttribute('stroke-dasharray', '2,2');
+        highLowLine.setAttribute('stroke-dasharray', '2,2');
+      }
       rect.style.cursor = 'pointer';
 
       // Add hover effects
@@ -110,12 +265,14 @@ export function CandlestickChart({
           tooltipRef.current.style.visibility = 'visible';
           tooltipRef.current.innerHTML = `
             <div class="font-bold">${symbol}</div>
-            <div>Time: ${d.timestamp.toLocaleString()}</div>
-            <div>Open: $${d.open.toFixed(2)}</div>
-            <div>High: $${d.high.toFixed(2)}</div>
-            <div>Low: $${d.low.toFixed(2)}</div>
-            <div>Close: $${d.close.toFixed(2)}</div>
+            <div>Time: ${formatDateTime(d.timestamp, timeZone)}</div>
+            <div>Open: ${formatPrice(d.open, symbolInfo)}</div>
+            <div>High: ${formatPrice(d.high, symbolInfo)}</div>
+            <div>Low: ${formatPrice(d.low, symbolInfo)}</div>
+            <div>Close: ${formatPrice(d.close, symbolInfo)}</div>
             <div>Volume: ${d.volume.toLocaleString()}</div>
+            ${d.session && d.session !== 'regular' ? `<div>Session: ${d.session === 'pre' ? 'pre-market' : 'post-market'}</div>` : ''}
+            ${!d.is_final ? '<div>Forming: updates until the bar closes</div>' : ''}
           `;
         }
       };
@@ -154,11 +311,12 @@ export function CandlestickChart({
     xAxisLine.setAttribute('stroke', '#666');
     xAxisGroup.appendChild(xAxisLine);
 
-    // X-axis labels (show 5 time points)
-    for (let i = 0; i < 5; i++) {
-      const ratio = i / 4;
-      const time = new Date(timeExtent[0] + ratio * (timeExtent[1] - timeExtent[0]));
-      const x = ratio * innerWidth;
+    // X-axis labels at 5 evenly spaced bars, with dates when the chart
+    // spans more than one trading session
+    const labelCount = Math.min(5, processedData.length);
+    for (let i = 0; i < labelCount; i++) {
+      const bar = processedData[Math.round(i / Math.max(labelCount - 1, 1) * (processedData.length - 1))];
+      const x = xScale(bar.timestamp.getTime());
 
       const tick = document.createElementNS('http://www.w3.org/2000/svg', 'line');
       tick.setAttribute('x1', x.toString());
@@ -174,10 +332,23 @@ export function CandlestickChart({
       label.setAttribute('text-anchor', 'middle');
       label.setAttribute('font-size', '12');
       label.setAttribute('fill', '#666');
-      label.textContent = time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const time = formatTime(bar.timestamp, timeZone, { hour: '2-digit', minute: '2-digit' });
+      label.textContent = spansSessions
+        ? `${formatDate(bar.timestamp, timeZone, { month: 'short', day: 'numeric' })} ${time}`
+        : time;
       xAxisGroup.appendChild(label);
     }
 
+    // Zone the axis labels are in
+    const zoneCaption = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+    zoneCaption.setAttribute('x', innerWidth.toString());
+    zoneCaption.setAttribute('y', '38');
+    zoneCaption.setAttribute('text-anchor', 'end');
+    zoneCaption.setAttribute('font-size', '11');
+    zoneCaption.setAttribute('fill', '#999');
+    zoneCaption.textContent = timeZoneLabel(timeZone, processedData[0].timestamp);
+    xAxisGroup.appendChild(zoneCaption);
+
     g.appendChild(xAxisGroup);
 
     // Y-axis
@@ -188,7 +359,7 @@ export function CandlestickChart({
     yAxisLine.setAttribute('x1', '0');
     yAxisLine.setAttribute('x2', '0');
     yAxisLine.setAttribute('y1', '0');
-    yAxisLine.setAttribute('y2', innerHeight.toString());
+    yAxisLine.setAttribute('y2', priceHeight.toString());
     yAxisLine.setAttribute('stroke', '#666');
     yAxisGroup.appendChild(yAxisLine);
 
@@ -196,7 +367,7 @@ export function CandlestickChart({
     for (let i = 0; i < 5; i++) {
       const ratio = i / 4;
       const price = priceExtent[0] + ratio * (priceExtent[1] - priceExtent[0]);
-      const y = innerHeight - ratio * innerHeight;
+      const y = priceHeight - ratio * priceHeight;
 
       const tick = document.createElementNS('http://www.w3.org/2000/svg', 'line');
       tick.setAttribute('x1', '0');
@@ -212,7 +383,7 @@ export function CandlestickChart({
       label.setAttribute('text-anchor', 'end');
       label.setAttribute('font-size', '12');
       label.setAttribute('fill', '#666');
-      label.textContent = `$${price.toFixed(2)}`;
+      label.textContent = formatPrice(price, symbolInfo);
       yAxisGroup.appendChild(label);
 
       // Grid line
@@ -241,7 +412,30 @@ export function CandlestickChart({
     title.textContent = `${symbol} - ${interval} Candlestick Chart`;
     svg.appendChild(title);
 
-  }, [data, symbol, interval, width, height]);
+    // Legend for the extended-hours shading
+    const shownSessions = (['pre', 'post'] as const).filter(session =>
+      processedData.some((d: ProcessedDataPoint) => d.session === session)
+    );
+    shownSessions.forEach((session, i: number) => {
+      const x = width - margin.right - (shownSessions.length - i) * 100;
+      const swatch = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      swatch.setAttribute('x', x.toString());
+      swatch.setAttribute('y', '10');
+      swatch.setAttribute('width', '12');
+      swatch.setAttribute('height', '12');
+      swatch.setAttribute('fill', extendedFills[session]);
+      svg.appendChild(swatch);
+
+      const label = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      label.setAttribute('x', (x + 16).toString());
+      label.setAttribute('y', '20');
+      label.setAttribute('font-size', '11');
+      label.setAttribute('fill', '#666');
+      label.textContent = session === 'pre' ? 'Pre-market' : 'Post-market';
+      svg.appendChild(label);
+    });
+
+  }, [data, quotes, symbol, symbolInfo, interval, timeZone, width, height]);
 
   return (
     <div className="relative w-full h-full">
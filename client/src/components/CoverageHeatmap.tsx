@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { displayTimeZone, formatDateTime, type TimeDisplay } from '@/lib/format';
+import type { CoverageDay, Interval, SeriesCoverage, TrackedSymbol } from '../../../server/src/schema';
+
+interface CoverageHeatmapProps {
+  symbolInfo: TrackedSymbol[];
+  timeDisplay: TimeDisplay;
+}
+
+const INTERVALS: Interval[] = ['1m', '5m', '15m', '30m', '1h', '1d'];
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+// A year of weeks, like GitHub's contribution graph
+const MAX_WEEKS = 53;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cell colour for a trading date's share of expected bars
+const completenessClass = (day?: CoverageDay): string => {
+  if (!day) return 'bg-gray-100';
+  const ratio = day.present / day.expected;
+  if (ratio >= 1) return 'bg-green-600';
+  if (ratio >= 0.9) return 'bg-green-400';
+  if (ratio >= 0.5) return 'bg-yellow-300';
+  if (ratio > 0) return 'bg-orange-400';
+  return 'bg-red-400';
+};
+
+const LEGEND: { label: string; className: string }[] = [
+  { label: 'Closed', className: 'bg-gray-100' },
+  { label: 'Missing', className: 'bg-red-400' },
+  { label: '< 50%', className: 'bg-orange-400' },
+  { label: '< 90%', className: 'bg-yellow-300' },
+  { label: '< 100%', className: 'bg-green-400' },
+  { label: 'Complete', className: 'bg-green-600' },
+];
+
+const parseDay = (date: string): number => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+const formatDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+// Weeks (Monday to Friday) ending with the week of the series' last date
+function buildWeeks(days: CoverageDay[]): { monday: number; cells: { date: string; day?: CoverageDay }[] }[] {
+  if (days.length === 0) return [];
+  const byDate = new Map(days.map((day: CoverageDay) => [day.date, day]));
+  // 1970-01-01 was a Thursday, so Mondays are day 4 mod 7
+  const monday = (day: number) => day - ((day - 4) % 7 + 7) % 7;
+  const lastMonday = monday(parseDay(days[days.length - 1].date));
+  const firstMonday = Math.max(monday(parseDay(days[0].date)), lastMonday - (MAX_WEEKS - 1) * 7);
+
+  const weeks = [];
+  for (let start = firstMonday; start <= lastMonday; start += 7) {
+    weeks.push({
+      monday: start,
+      cells: WEEKDAYS.map((_, i) => {
+        const date = formatDay(start + i);
+        return { date, day: byDate.get(date) };
+      }),
+    });
+  }
+  return weeks;
+}
+
+function SeriesHeatmap({ series, timeZone }: { series: SeriesCoverage; timeZone?: string }) {
+  const weeks = buildWeeks(series.days);
+  const completeness = series.expectedCount > 0 ? (series.presentCount / series.expectedCount) * 100 : 100;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+        <span className="font-semibold">{series.symbol}</span>
+        <span className="text-sm text-gray-600">
+          {series.presentCount.toLocaleString()} / {series.expectedCount.toLocaleString()} regular bars ({completeness.toFixed(1)}%)
+        </span>
+        <span className="text-sm text-gray-600">{series.barCount.toLocaleString()} stored</span>
+        <span className="text-sm text-gray-600">{series.gapCount} gaps</span>
+      </div>
+      <div className="text-xs text-gray-500">
+        {formatDateTime(series.firstTimestamp, timeZone)} → {formatDateTime(series.lastTimestamp, timeZone)} · last ingest {formatDateTime(series.lastIngest, timeZone)}
+      </div>
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        <div className="flex flex-col gap-1 pr-1 text-[10px] leading-3 text-gray-500">
+          {WEEKDAYS.map((weekday: string) => (
+            <div key={weekday} className="h-3">{weekday}</div>
+          ))}
+        </div>
+        {weeks.map((week) => (
+          <div key={week.monday} className="flex flex-col gap-1">
+            {week.cells.map(({ date, day }) => (
+              <div
+                key={date}
+                className={`h-3 w-3 rounded-sm ${completenessClass(day)}`}
+                title={day ? `${date}: ${day.present}/${day.expected} bars` : `${date}: no session`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function CoverageHeatmap({ symbolInfo, timeDisplay }: CoverageHeatmapProps) {
+  const [interval, setCoverageInterval] = useState<Interval>('1m');
+  const [coverage, setCoverage] = useState<SeriesCoverage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadCoverage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getCoverage.query({ interval });
+      setCoverage(result);
+    } catch (err) {
+      console.error('Failed to load coverage:', err);
+      setCoverage([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [interval]);
+
+  useEffect(() => {
+    loadCoverage();
+  }, [loadCoverage]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🗓️ Data Coverage
+        </CardTitle>
+        <CardDescription>
+          Stored bars per trading date against the regular-session bars the exchange calendar expects
+        </CardDescription>
+        <div className="flex gap-4">
+          <Select value={interval} onValueChange={(value: string) => setCoverageInterval(value as Interval)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTERVALS.map((int: Interval) => (
+                <SelectItem key={int} value={int}>
+                  {int}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={loadCoverage} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {coverage.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="text-6xl mb-4">🗓️</div>
+            <p className="text-lg mb-2">No {interval} bars stored yet</p>
+            <p className="text-sm">Fetch some data first to see its coverage!</p>
+          </div>
+        ) : (
+          <>
+            {coverage.map((series: SeriesCoverage) => (
+              <SeriesHeatmap
+                key={`${series.symbol}-${series.interval}`}
+                series={series}
+                timeZone={displayTimeZone(timeDisplay, symbolInfo.find((info: TrackedSymbol) => info.symbol === series.symbol))}
+              />
+            ))}
+            <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+              {LEGEND.map(({ label, className }) => (
+                <span key={label} className="flex items-center gap-1">
+                  <span className={`inline-block h-3 w-3 rounded-sm ${className}`} />
+                  {label}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,30 +1,48 @@
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
 import { trpc } from '@/utils/trpc';
-import type { StockSymbol, Interval, StockTick } from '../../../server/src/schema';
+import type { StockSymbol, Interval, Period, StockTick, BatchFetchResult, IngestProgressEvent } from '../../../server/src/schema';
+import { BatchResultsTable } from '@/components/BatchResultsTable';
 
 interface DataFetcherProps {
   onDataFetched?: () => void;
 }
 
+interface BatchProgress {
+  total: number;
+  done: number; // symbols finished or failed
+  bars: number; // bars inserted or updated so far
+}
+
+// Longest wait for the progress stream before fetching without it
+const PROGRESS_CONNECT_MS = 2000;
+
 export function DataFetcher({ onDataFetched }: DataFetcherProps) {
   const [selectedSymbols, setSelectedSymbols] = useState<StockSymbol[]>(['AAPL']);
   const [selectedInterval, setSelectedInterval] = useState<Interval>('1m');
-  const [selectedPeriod, setSelectedPeriod] = useState('1d');
+  const [selectedPeriod, setSelectedPeriod] = useState<Period>('1d');
   const [isLoading, setIsLoading] = useState(false);
   const [isBatchLoading, setIsBatchLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-
-  const stockSymbols: StockSymbol[] = ['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA'];
+  const [batchResult, setBatchResult] = useState<BatchFetchResult | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [stockSymbols, setStockSymbols] = useState<StockSymbol[]>([]);
   const intervals: Interval[] = ['1m', '5m', '15m', '30m', '1h', '1d'];
-  const periods = ['1d', '5d', '1mo', '3mo', '6mo', '1y'];
+  const periods: Period[] = ['1d', '5d', '1mo', '3mo', '6mo', '1y'];
+
+  useEffect(() => {
+    trpc.getAllSymbols.query()
+      .then(setStockSymbols)
+      .catch((error: unknown) => console.error('Failed to load symbols:', error));
+  }, []);
 
   const handleSymbolToggle = (symbol: StockSymbol, checked: boolean) => {
     if (checked) {
@@ -62,6 +80,45 @@ export function DataFetcher({ onDataFetched }: DataFetcherProps) {
     }
   };
 
+  // Batch fetch while following its per-symbol progress stream
+  const fetchWithProgress = async (symbols: StockSymbol[]): Promise<BatchFetchResult> => {
+    const batchId = crypto.randomUUID();
+    setBatchProgress({ total: symbols.length, done: 0, bars: 0 });
+
+    // Subscribe before starting so the first symbol's steps aren't missed
+    let unsubscribe = () => {};
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, PROGRESS_CONNECT_MS);
+      const subscription = trpc.onIngestProgress.subscribe({ batchId }, {
+        onStarted: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        onData: (event: IngestProgressEvent) => {
+          setBatchProgress((progress: BatchProgress | null) => progress && {
+            ...progress,
+            done: progress.done + (event.stage === 'finished' || event.stage === 'failed' ? 1 : 0),
+            bars: progress.bars + (event.stage === 'written' ? event.inserted + event.updated : 0),
+          });
+        },
+        onError: (error: unknown) => console.error('Batch progress stream failed:', error),
+      });
+      unsubscribe = () => subscription.unsubscribe();
+    });
+
+    try {
+      return await trpc.batchFetchStocks.mutate({
+        symbols,
+        interval: selectedInterval,
+        period: selectedPeriod,
+        batchId
+      });
+    } finally {
+      unsubscribe();
+      setBatchProgress(null);
+    }
+  };
+
   const handleBatchFetch = async () => {
     if (selectedSymbols.length === 0) {
       setError('Please select at least one symbol');
@@ -71,15 +128,13 @@ export function DataFetcher({ onDataFetched }: DataFetcherProps) {
     setIsBatchLoading(true);
     setError(null);
     setMessage(null);
+    setBatchResult(null);
 
     try {
-      const result: StockTick[] = await trpc.batchFetchStocks.mutate({
-        symbols: selectedSymbols,
-        interval: selectedInterval,
-        period: selectedPeriod
-      });
+      const result = await fetchWithProgress(selectedSymbols);
 
-      setMessage(`✅ Successfully fetched ${result.length} total data points for ${selectedSymbols.length} symbols`);
+      setBatchResult(result);
+      setMessage(`✅ Fetched ${result.results.length - result.failed} of ${result.results.length} symbols in ${(result.durationMs / 1000).toFixed(1)} s`);
       onDataFetched?.();
     } catch (error) {
       console.error('Failed to batch fetch stock data:', error);
@@ -93,15 +148,13 @@ export function DataFetcher({ onDataFetched }: DataFetcherProps) {
     setIsBatchLoading(true);
     setError(null);
     setMessage(null);
+    setBatchResult(null);
 
     try {
-      const result: StockTick[] = await trpc.batchFetchStocks.mutate({
-        symbols: stockSymbols,
-        interval: selectedInterval,
-        period: selectedPeriod
-      });
+      const result = await fetchWithProgress(stockSymbols);
 
-      setMessage(`🎉 Successfully fetched ${result.length} total data points for all ${stockSymbols.length} symbols!`);
+      setBatchResult(result);
+      setMessage(`🎉 Fetched ${result.results.length - result.failed} of all ${stockSymbols.length} symbols in ${(result.durationMs / 1000).toFixed(1)} s`);
       onDataFetched?.();
     } catch (error) {
       console.error('Failed to fetch all stock data:', error);
@@ -141,12 +194,12 @@ export function DataFetcher({ onDataFetched }: DataFetcherProps) {
 
             <div>
               <label className="text-sm font-medium mb-2 block">Period</label>
-              <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
+              <Select value={selectedPeriod} onValueChange={(value: Period) => setSelectedPeriod(value)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select period" />
                 </SelectTrigger>
                 <SelectContent>
-                  {periods.map((period: string) => (
+                  {periods.map((period: Period) => (
                     <SelectItem key={period} value={period}>
                       {period}
                     </SelectItem>
@@ -234,13 +287,28 @@ export function DataFetcher({ onDataFetched }: DataFetcherProps) {
             
             <Button
               onClick={handleFetchAll}
-              disabled={isBatchLoading}
+              disabled={isBatchLoading || stockSymbols.length === 0}
               variant="outline"
               className="flex-1"
             >
               {isBatchLoading ? '🔄 Fetching...' : '🌟 Fetch All Symbols'}
             </Button>
           </div>
+
+          {batchProgress && (
+            <div className="mt-4 space-y-2">
+              <Progress value={(batchProgress.done / batchProgress.total) * 100} />
+              <p className="text-sm text-gray-600 text-center">
+                {batchProgress.done} of {batchProgress.total} symbols done, {batchProgress.bars.toLocaleString()} bars written
+              </p>
+            </div>
+          )}
+
+          {batchResult && (
+            <div className="mt-4">
+              <BatchResultsTable results={batchResult.results} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
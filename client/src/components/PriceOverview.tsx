@@ -1,13 +1,16 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import type { StockTick } from '../../../server/src/schema';
+import { displayTimeZone, formatPrice, formatTime, timeZoneLabel, type TimeDisplay } from '@/lib/format';
+import type { StockTick, TrackedSymbol } from '../../../server/src/schema';
 
 interface PriceOverviewProps {
   latestPrices: StockTick[];
+  symbols: TrackedSymbol[];
+  timeDisplay: TimeDisplay;
 }
 
-export function PriceOverview({ latestPrices }: PriceOverviewProps) {
+export function PriceOverview({ latestPrices, symbols, timeDisplay }: PriceOverviewProps) {
   if (latestPrices.length === 0) {
     return (
       <Card className="mb-6">
@@ -37,12 +40,17 @@ export function PriceOverview({ latestPrices }: PriceOverviewProps) {
           {latestPrices.map((tick: StockTick) => {
             const changePercent = ((tick.close - tick.open) / tick.open * 100);
             const isPositive = changePercent >= 0;
+            const info = symbols.find((s: TrackedSymbol) => s.symbol === tick.symbol);
+            const timeZone = displayTimeZone(timeDisplay, info);
             
             return (
               <div key={`${tick.symbol}-${tick.id}`} className="text-center p-3 rounded-lg bg-gray-50">
-                <div className="font-bold text-lg mb-1">{tick.symbol}</div>
+                <div className="font-bold text-lg">{tick.symbol}</div>
+                <div className="text-xs text-gray-500 mb-1 truncate" title={info?.name ?? undefined}>
+                  {info?.name ?? '\u00a0'}
+                </div>
                 <div className="text-2xl font-bold mb-1">
-                  ${tick.close.toFixed(2)}
+                  {formatPrice(tick.close, info)}
                 </div>
                 <Badge 
                   variant={isPositive ? "default" : "destructive"}
@@ -51,7 +59,8 @@ export function PriceOverview({ latestPrices }: PriceOverviewProps) {
                   {isPositive ? '📈' : '📉'} {changePercent.toFixed(2)}%
                 </Badge>
                 <div className="text-xs text-gray-500 mt-1">
-                  {tick.timestamp.toLocaleTimeString()}
+                  {formatTime(tick.timestamp, timeZone)} {timeZoneLabel(timeZone, tick.timestamp)}
+                  {!tick.is_final && <span title="The bar is still forming"> · live</span>}
                 </div>
               </div>
             );
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { formatDateTime } from '@/lib/format';
+import type { Interval, Period, Schedule, ScheduleRunStatus, SessionFilter } from '../../../server/src/schema';
+
+const INTERVALS: Interval[] = ['1m', '5m', '15m', '30m', '1h', '1d'];
+const PERIODS: Period[] = ['1d', '5d', '1mo', '3mo', '6mo', '1y'];
+const SESSIONS: { value: SessionFilter; label: string }[] = [
+  { value: 'regular', label: 'Regular hours' },
+  { value: 'extended', label: 'Extended hours' },
+  { value: 'all', label: 'Any time' },
+];
+
+// Schedules are evaluated in exchange time
+const EXCHANGE_TIME_ZONE = 'America/New_York';
+
+const statusVariant = (status: ScheduleRunStatus): 'default' | 'destructive' | 'secondary' =>
+  status === 'succeeded' ? 'default' : status === 'failed' ? 'destructive' : 'secondary';
+
+export function ScheduleManager() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [name, setName] = useState('');
+  const [cron, setCron] = useState('* * * * 1-5');
+  const [session, setSession] = useState<SessionFilter>('regular');
+  const [interval, setScheduleInterval] = useState<Interval>('1m');
+  const [period, setPeriod] = useState<Period>('1d');
+  const [symbols, setSymbols] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setSchedules(await trpc.listSchedules.query());
+    } catch (err) {
+      console.error('Failed to load schedules:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  // Run a change and reload the list, reporting failures in the panel
+  const save = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await action();
+      await loadSchedules();
+      return true;
+    } catch (err) {
+      setError(`❌ ${failure}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Blank means every active symbol
+    const list = symbols.split(/[\s,]+/).filter(Boolean);
+    const created = await save(
+      () => trpc.createSchedule.mutate({ name, cron, session, interval, period, symbols: list.length > 0 ? list : null, enabled: true }),
+      `Failed to create ${name || 'schedule'}`
+    );
+    if (created) {
+      setName('');
+      setSymbols('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          ⏰ Scheduled Fetches
+        </CardTitle>
+        <CardDescription>
+          Fetch bars automatically on a cron schedule in New York time (minute hour day month weekday),
+          e.g. <code>* * * * 1-5</code> limited to regular hours, or <code>0 17 * * 1-5</code> for daily bars after the close.
+          Leave symbols blank to fetch every tracked symbol.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="grid gap-2 md:grid-cols-7">
+          <Input
+            placeholder="Name"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            className="md:col-span-2"
+          />
+          <Input
+            placeholder="Cron"
+            value={cron}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCron(e.target.value)}
+            className="font-mono"
+          />
+          <Select value={session} onValueChange={(value: SessionFilter) => setSession(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SESSIONS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={interval} onValueChange={(value: Interval) => setScheduleInterval(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTERVALS.map((int: Interval) => (
+                <SelectItem key={int} value={int}>
+                  {int}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={(value: Period) => setPeriod(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((p: Period) => (
+                <SelectItem key={p} value={p}>
+                  {p}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Symbols (all)"
+            value={symbols}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSymbols(e.target.value)}
+          />
+          <Button type="submit" disabled={isSaving || !name.trim() || !cron.trim()} className="md:col-span-7">
+            ➕ Add Schedule
+          </Button>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {schedules.length === 0 ? (
+          <p className="text-sm text-gray-500">No schedules yet; data is only fetched when you press a fetch button</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Cron</TableHead>
+                  <TableHead>Fetch</TableHead>
+                  <TableHead>Next run (ET)</TableHead>
+                  <TableHead>Last run</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map((schedule: Schedule) => (
+                  <TableRow key={schedule.id}>
+                    <TableCell>
+                      <Switch
+                        checked={schedule.enabled}
+                        disabled={isSaving}
+                        onCheckedChange={(enabled: boolean) =>
+                          save(() => trpc.updateSchedule.mutate({ id: schedule.id, enabled }), `Failed to update ${schedule.name}`)
+                        }
+                        aria-label={`Enable ${schedule.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{schedule.name}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {schedule.cron}
+                      <div className="text-xs text-gray-500 font-sans">
+                        {SESSIONS.find(({ value }) => value === schedule.session)?.label}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {schedule.interval} over {schedule.period}
+                      <div className="text-xs text-gray-500">{schedule.symbols?.join(', ') ?? 'All tracked symbols'}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {schedule.enabled ? formatDateTime(schedule.next_run_at, EXCHANGE_TIME_ZONE) : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {schedule.last_run_at && schedule.last_status ? (
+                        <div className="space-y-1">
+                          <Badge variant={statusVariant(schedule.last_status)}>{schedule.last_status}</Badge>
+                          <div className="text-xs text-gray-500">{formatDateTime(schedule.last_run_at, EXCHANGE_TIME_ZONE)}</div>
+                          {schedule.last_error && <div className="text-xs text-gray-500">{schedule.last_error}</div>}
+                        </div>
+                      ) : (
+                        <span className="text-gray-500">Never</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isSaving}
+                        onClick={() => save(() => trpc.deleteSchedule.mutate({ id: schedule.id }), `Failed to delete ${schedule.name}`)}
+                        aria-label={`Delete ${schedule.name}`}
+                      >
+                        ✕
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
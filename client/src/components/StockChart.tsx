@@ -1,20 +1,83 @@
 
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { StockTick, StockSymbol, Interval } from '../../../server/src/schema';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { CandlestickChart } from '@/components/CandlestickChart';
+import { trpc } from '@/utils/trpc';
+import { displayTimeZone, formatDateTime, formatPrice, formatTime, type TimeDisplay } from '@/lib/format';
+import type { StockTick, StockSymbol, Interval, Quote, SessionFilter, TrackedSymbol } from '../../../server/src/schema';
 
 interface StockChartProps {
   data: StockTick[];
+  symbols: StockSymbol[];
   symbol: StockSymbol;
+  symbolInfo?: TrackedSymbol;
   interval: Interval;
+  session: SessionFilter;
+  timeDisplay: TimeDisplay;
   onSymbolChange: (symbol: StockSymbol) => void;
   onIntervalChange: (interval: Interval) => void;
+  onSessionChange: (session: SessionFilter) => void;
 }
 
-const STOCK_SYMBOLS: StockSymbol[] = ['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA'];
 const INTERVALS: Interval[] = ['1m', '5m', '15m', '30m', '1h', '1d'];
 
-export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalChange }: StockChartProps) {
+const SESSIONS: { value: SessionFilter; label: string }[] = [
+  { value: 'regular', label: 'Regular hours' },
+  { value: 'extended', label: 'Extended hours' },
+  { value: 'all', label: 'All bars' }
+];
+
+export function StockChart({ data, symbols, symbol, symbolInfo, interval, session, timeDisplay, onSymbolChange, onIntervalChange, onSessionChange }: StockChartProps) {
+  const [showQuotes, setShowQuotes] = useState(false);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [isIngesting, setIsIngesting] = useState(false);
+  const timeZone = displayTimeZone(timeDisplay, symbolInfo);
+
+  // Quotes covering the charted bars
+  const timestamps = data.map((tick: StockTick) => tick.timestamp.getTime());
+  const rangeStart = timestamps.length > 0 ? Math.min(...timestamps) : 0;
+  const rangeEnd = timestamps.length > 0 ? Math.max(...timestamps) : 0;
+
+  const loadQuotes = useCallback(async () => {
+    if (!showQuotes || rangeEnd === 0) {
+      setQuotes([]);
+      return;
+    }
+    try {
+      const result = await trpc.getQuotes.query({
+        symbol,
+        startDate: new Date(rangeStart),
+        endDate: new Date(rangeEnd),
+        limit: 5000,
+      });
+      setQuotes(result);
+    } catch (error) {
+      console.error('Failed to load quotes:', error);
+      setQuotes([]);
+    }
+  }, [showQuotes, symbol, rangeStart, rangeEnd]);
+
+  useEffect(() => {
+    loadQuotes();
+  }, [loadQuotes]);
+
+  const handleIngestQuotes = async () => {
+    setIsIngesting(true);
+    try {
+      await trpc.ingestQuotes.mutate({ symbol, period: '1d' });
+      await loadQuotes();
+    } catch (error) {
+      console.error('Failed to ingest quotes:', error);
+    } finally {
+      setIsIngesting(false);
+    }
+  };
+
   if (data.length === 0) {
     return (
       <Card>
@@ -28,7 +91,7 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {STOCK_SYMBOLS.map((sym: StockSymbol) => (
+                {symbols.map((sym: StockSymbol) => (
                   <SelectItem key={sym} value={sym}>
                     {sym}
                   </SelectItem>
@@ -48,6 +111,19 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
                 ))}
               </SelectContent>
             </Select>
+
+            <Select value={session} onValueChange={onSessionChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SESSIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardHeader>
         <CardContent>
@@ -72,6 +148,9 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           📈 Stock Chart - {symbol}
+          {data[0]?.source_interval && (
+            <Badge variant="outline">Derived from {data[0].source_interval}</Badge>
+          )}
         </CardTitle>
         <div className="flex gap-4">
           <Select value={symbol} onValueChange={onSymbolChange}>
@@ -79,7 +158,7 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {STOCK_SYMBOLS.map((sym: StockSymbol) => (
+              {symbols.map((sym: StockSymbol) => (
                 <SelectItem key={sym} value={sym}>
                   {sym}
                 </SelectItem>
@@ -99,6 +178,19 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
               ))}
             </SelectContent>
           </Select>
+
+          <Select value={session} onValueChange={onSessionChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SESSIONS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
       </CardHeader>
       <CardContent>
@@ -107,15 +199,15 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
           <div className="grid grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg">
             <div className="text-center">
               <div className="text-sm text-gray-500">Current</div>
-              <div className="text-lg font-bold">${data[data.length - 1]?.close.toFixed(2)}</div>
+              <div className="text-lg font-bold">{data.length > 0 && formatPrice(data[data.length - 1].close, symbolInfo)}</div>
             </div>
             <div className="text-center">
               <div className="text-sm text-gray-500">High</div>
-              <div className="text-lg font-bold text-green-600">${maxPrice.toFixed(2)}</div>
+              <div className="text-lg font-bold text-green-600">{formatPrice(maxPrice, symbolInfo)}</div>
             </div>
             <div className="text-center">
               <div className="text-sm text-gray-500">Low</div>
-              <div className="text-lg font-bold text-red-600">${minPrice.toFixed(2)}</div>
+              <div className="text-lg font-bold text-red-600">{formatPrice(minPrice, symbolInfo)}</div>
             </div>
             <div className="text-center">
               <div className="text-sm text-gray-500">Points</div>
@@ -123,6 +215,33 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
             </div>
           </div>
 
+          {/* Candlesticks, optionally over the NBBO band with a spread pane */}
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="show-quotes" checked={showQuotes} onCheckedChange={setShowQuotes} />
+              <Label htmlFor="show-quotes">Show NBBO &amp; spread</Label>
+            </div>
+            {showQuotes && (
+              <>
+                <span className="text-sm text-gray-500">{quotes.length} quotes</span>
+                <Button variant="outline" size="sm" onClick={handleIngestQuotes} disabled={isIngesting}>
+                  {isIngesting ? '⏳ Loading...' : '📥 Load latest quotes'}
+                </Button>
+              </>
+            )}
+          </div>
+          <div className="h-[420px]">
+            <CandlestickChart
+              data={data}
+              quotes={showQuotes ? quotes : undefined}
+              symbol={symbol}
+              symbolInfo={symbolInfo}
+              interval={interval}
+              timeZone={timeZone}
+              height={420}
+            />
+          </div>
+
           {/* Simple ASCII Chart */}
           <div className="bg-gray-900 text-green-400 p-4 rounded-lg font-mono text-xs overflow-x-auto">
             <div className="mb-2 text-center text-white">
@@ -134,8 +253,8 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
               
               return (
                 <div key={tick.id} className="flex items-center">
-                  <div className="w-16 text-right mr-2">
-                    ${tick.close.toFixed(2)}
+                  <div className="w-24 text-right mr-2">
+                    {formatPrice(tick.close, symbolInfo)}
                   </div>
                   <div className="flex-1">
                     <span className={tick.close >= tick.open ? 'text-green-400' : 'text-red-400'}>
@@ -143,7 +262,7 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
                     </span>
                   </div>
                   <div className="w-20 text-xs text-gray-400 ml-2">
-                    {tick.timestamp.toLocaleTimeString()}
+                    {formatTime(tick.timestamp, timeZone)}
                   </div>
                 </div>
               );
@@ -161,16 +280,16 @@ export function StockChart({ data, symbol, interval, onSymbolChange, onIntervalC
                 <div key={tick.id} className="p-3 border rounded-lg">
                   <div className="flex justify-between items-center">
                     <div className="text-sm text-gray-500">
-                      {tick.timestamp.toLocaleString()}
+                      {formatDateTime(tick.timestamp, timeZone)}
                     </div>
                     <div className={`text-sm font-bold ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
                       {isPositive ? '↗️' : '↘️'} {changePercent.toFixed(2)}%
                     </div>
                   </div>
                   <div className="mt-1">
-                    <span className="text-lg font-bold">${tick.close.toFixed(2)}</span>
+                    <span className="text-lg font-bold">{formatPrice(tick.close, symbolInfo)}</span>
                     <span className="text-sm text-gray-500 ml-2">
-                      O: ${tick.open.toFixed(2)} H: ${tick.high.toFixed(2)} L: ${tick.low.toFixed(2)}
+                      O: {formatPrice(tick.open, symbolInfo)} H: {formatPrice(tick.high, symbolInfo)} L: {formatPrice(tick.low, symbolInfo)}
                     </span>
                   </div>
                 </div>
@@ -1,13 +1,15 @@
 
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import type { StockTick } from '../../../server/src/schema';
+import { formatPrice } from '@/lib/format';
+import type { StockTick, TrackedSymbol } from '../../../server/src/schema';
 
 interface StockPriceGridProps {
   prices: StockTick[];
+  symbols?: TrackedSymbol[];
 }
 
-export function StockPriceGrid({ prices }: StockPriceGridProps) {
+export function StockPriceGrid({ prices, symbols = [] }: StockPriceGridProps) {
   if (prices.length === 0) {
     return (
       <div className="text-center py-8 text-slate-500">
@@ -32,6 +34,7 @@ export function StockPriceGrid({ prices }: StockPriceGridProps) {
         const priceChange = stock.close - stock.open;
         const priceChangePercent = ((priceChange / stock.open) * 100);
         const isPositive = priceChange >= 0;
+        const info = symbols.find((s: TrackedSymbol) => s.symbol === stock.symbol);
 
         return (
           <Card key={stock.symbol} className="hover:shadow-md transition-shadow">
@@ -39,8 +42,11 @@ export function StockPriceGrid({ prices }: StockPriceGridProps) {
               <div className="flex justify-between items-start mb-2">
                 <div>
                   <h3 className="font-bold text-lg">{stock.symbol}</h3>
+                  {info?.name && (
+                    <p className="text-xs text-slate-500">{info.name}</p>
+                  )}
                   <p className="text-2xl font-bold text-slate-800">
-                    ${stock.close.toFixed(2)}
+                    {formatPrice(stock.close, info)}
                   </p>
                 </div>
                 <Badge 
@@ -53,13 +59,13 @@ export function StockPriceGrid({ prices }: StockPriceGridProps) {
               
               <div className="grid grid-cols-2 gap-2 text-sm text-slate-600">
                 <div>
-                  <span className="font-medium">Open:</span> ${stock.open.toFixed(2)}
+                  <span className="font-medium">Open:</span> {formatPrice(stock.open, info)}
                 </div>
                 <div>
-                  <span className="font-medium">High:</span> ${stock.high.toFixed(2)}
+                  <span className="font-medium">High:</span> {formatPrice(stock.high, info)}
                 </div>
                 <div>
-                  <span className="font-medium">Low:</span> ${stock.low.toFixed(2)}
+                  <span className="font-medium">Low:</span> {formatPrice(stock.low, info)}
                 </div>
                 <div>
                   <span className="font-medium">Volume:</span> {stock.volume.toLocaleString()}
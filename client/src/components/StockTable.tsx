@@ -3,29 +3,41 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import type { StockTick, StockSymbol, Interval } from '../../../server/src/schema';
+import { BarProvenancePopover } from '@/components/BarProvenancePopover';
+import { displayTimeZone, formatDate, formatPriceValue, formatTime, timeZoneLabel, type TimeDisplay } from '@/lib/format';
+import type { StockTick, StockSymbol, Interval, TrackedSymbol } from '../../../server/src/schema';
 
 interface StockTableProps {
   data: StockTick[];
+  symbols: StockSymbol[];
   symbol: StockSymbol;
+  symbolInfo?: TrackedSymbol;
   interval: Interval;
+  timeDisplay: TimeDisplay;
   onSymbolChange: (symbol: StockSymbol) => void;
   onIntervalChange: (interval: Interval) => void;
 }
 
-const STOCK_SYMBOLS: StockSymbol[] = ['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA'];
 const INTERVALS: Interval[] = ['1m', '5m', '15m', '30m', '1h', '1d'];
 
-export function StockTable({ data, symbol, interval, onSymbolChange, onIntervalChange }: StockTableProps) {
+export function StockTable({ data, symbols, symbol, symbolInfo, interval, timeDisplay, onSymbolChange, onIntervalChange }: StockTableProps) {
   const sortedData = [...data].sort((a: StockTick, b: StockTick) => 
     b.timestamp.getTime() - a.timestamp.getTime()
   );
+  const currency = symbolInfo?.currency ?? 'USD';
+  const timeZone = displayTimeZone(timeDisplay, symbolInfo);
 
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           📋 Stock Data Table - {symbol}
+          {symbolInfo?.name && (
+            <span className="text-base font-normal text-gray-500">{symbolInfo.name}</span>
+          )}
+          {data[0]?.source_interval && (
+            <Badge variant="outline">Derived from {data[0].source_interval}</Badge>
+          )}
         </CardTitle>
         <div className="flex gap-4">
           <Select value={symbol} onValueChange={onSymbolChange}>
@@ -33,7 +45,7 @@ export function StockTable({ data, symbol, interval, onSymbolChange, onIntervalC
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {STOCK_SYMBOLS.map((sym: StockSymbol) => (
+              {symbols.map((sym: StockSymbol) => (
                 <SelectItem key={sym} value={sym}>
                   {sym}
                 </SelectItem>
@@ -67,15 +79,16 @@ export function StockTable({ data, symbol, interval, onSymbolChange, onIntervalC
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Time</TableHead>
+                  <TableHead>Time ({timeZoneLabel(timeZone, sortedData[0]?.timestamp)})</TableHead>
                   <TableHead>Symbol</TableHead>
-                  <TableHead className="text-right">Open ($)</TableHead>
-                  <TableHead className="text-right">High ($)</TableHead>
-                  <TableHead className="text-right">Low ($)</TableHead>
-                  <TableHead className="text-right">Close ($)</TableHead>
+                  <TableHead className="text-right">Open ({currency})</TableHead>
+                  <TableHead className="text-right">High ({currency})</TableHead>
+                  <TableHead className="text-right">Low ({currency})</TableHead>
+                  <TableHead className="text-right">Close ({currency})</TableHead>
                   <TableHead className="text-right">Volume</TableHead>
                   <TableHead className="text-right">Change</TableHead>
                   <TableHead>Interval</TableHead>
+                  <TableHead className="text-right">Source</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -87,32 +100,32 @@ export function StockTable({ data, symbol, interval, onSymbolChange, onIntervalC
                   return (
                     <TableRow key={tick.id}>
                       <TableCell className="font-mono text-sm">
-                        <div>{tick.timestamp.toLocaleDateString()}</div>
+                        <div>{formatDate(tick.timestamp, timeZone)}</div>
                         <div className="text-xs text-gray-500">
-                          {tick.timestamp.toLocaleTimeString()}
+                          {formatTime(tick.timestamp, timeZone)}
                         </div>
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline">{tick.symbol}</Badge>
                       </TableCell>
                       <TableCell className="text-right font-mono">
-                        {tick.open.toFixed(2)}
+                        {formatPriceValue(tick.open, symbolInfo)}
                       </TableCell>
                       <TableCell className="text-right font-mono text-green-600">
-                        {tick.high.toFixed(2)}
+                        {formatPriceValue(tick.high, symbolInfo)}
                       </TableCell>
                       <TableCell className="text-right font-mono text-red-600">
-                        {tick.low.toFixed(2)}
+                        {formatPriceValue(tick.low, symbolInfo)}
                       </TableCell>
                       <TableCell className="text-right font-mono font-bold">
-                        {tick.close.toFixed(2)}
+                        {formatPriceValue(tick.close, symbolInfo)}
                       </TableCell>
                       <TableCell className="text-right font-mono text-sm">
                         {tick.volume.toLocaleString()}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className={`font-bold ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
-                          {isPositive ? '+' : ''}{change.toFixed(2)}
+                          {isPositive ? '+' : ''}{formatPriceValue(change, symbolInfo)}
                         </div>
                         <div className={`text-xs ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
                           ({changePercent.toFixed(2)}%)
@@ -122,6 +135,19 @@ export function StockTable({ data, symbol, interval, onSymbolChange, onIntervalC
                         <Badge variant="secondary" className="text-xs">
                           {tick.interval}
                         </Badge>
+                        {tick.session && tick.session !== 'regular' && (
+                          <Badge variant="outline" className="ml-1 text-xs">
+                            {tick.session === 'pre' ? 'pre-market' : 'post-market'}
+                          </Badge>
+                        )}
+                        {tick.source_interval && (
+                          <Badge variant="outline" className="ml-1 text-xs" title={`Rolled up from stored ${tick.source_interval} bars`}>
+                            from {tick.source_interval}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <BarProvenancePopover tick={tick} timeZone={timeZone} />
                       </TableCell>
                     </TableRow>
                   );
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import type { StockSymbol } from '../../../server/src/schema';
+
+interface SymbolManagerProps {
+  symbols: StockSymbol[];
+  onSymbolsChanged: () => void;
+}
+
+export function SymbolManager({ symbols, onSymbolsChanged }: SymbolManagerProps) {
+  const [newSymbol, setNewSymbol] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSymbol.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await trpc.addSymbol.mutate({ symbol: newSymbol });
+      setNewSymbol('');
+      onSymbolsChanged();
+    } catch (err) {
+      setError(`❌ Failed to add ${newSymbol.toUpperCase()}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const csv = await file.text();
+      await trpc.importSymbolMetadata.mutate({ csv });
+      onSymbolsChanged();
+    } catch (err) {
+      setError(`❌ Failed to import ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeactivate = async (symbol: StockSymbol) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await trpc.deactivateSymbol.mutate({ symbol });
+      onSymbolsChanged();
+    } catch (err) {
+      setError(`❌ Failed to remove ${symbol}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🗂️ Tracked Symbols
+        </CardTitle>
+        <CardDescription>
+          Add tickers to track, or remove them from pickers and fetches (stored data is kept).
+          Import a metadata CSV (symbol, name, exchange_mic, currency, sector, industry, tick_size, lot_size) to add or update symbols in bulk.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            placeholder="Ticker, e.g. TSLA"
+            value={newSymbol}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewSymbol(e.target.value)}
+            className="max-w-xs"
+          />
+          <Button type="submit" disabled={isSaving || !newSymbol.trim()}>
+            ➕ Add Symbol
+          </Button>
+          <Button type="button" variant="outline" disabled={isSaving} asChild>
+            <label className="cursor-pointer">
+              📄 Import CSV
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleImport}
+                disabled={isSaving}
+                className="hidden"
+              />
+            </label>
+          </Button>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {symbols.map((symbol: StockSymbol) => (
+            <Badge key={symbol} variant="secondary" className="gap-1">
+              {symbol}
+              <button
+                type="button"
+                onClick={() => handleDeactivate(symbol)}
+                disabled={isSaving}
+                className="ml-1 text-gray-500 hover:text-red-600"
+                aria-label={`Stop tracking ${symbol}`}
+              >
+                ✕
+              </button>
+            </Badge>
+          ))}
+          {symbols.length === 0 && (
+            <p className="text-sm text-gray-500">No symbols tracked yet</p>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { displayTimeZone, formatDate, formatPrice, formatPriceValue, formatTime, timeZoneLabel, type TimeDisplay } from '@/lib/format';
+import type { Trade, StockSymbol, Interval, TrackedSymbol } from '../../../server/src/schema';
+
+interface TradeTapeProps {
+  symbol: StockSymbol;
+  symbolInfo?: TrackedSymbol;
+  interval: Interval;
+  timeDisplay: TimeDisplay;
+  onBarsRebuilt: () => void;
+}
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 200;
+
+// Time with milliseconds, e.g. 09:30:00.125
+const formatTradeTime = (timestamp: Date, timeZone?: string): string =>
+  formatTime(timestamp, timeZone, { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalSecondDigits: 3 });
+
+export function TradeTape({ symbol, symbolInfo, interval, timeDisplay, onBarsRebuilt }: TradeTapeProps) {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const timeZone = displayTimeZone(timeDisplay, symbolInfo);
+
+  const loadTrades = useCallback(async () => {
+    try {
+      const result = await trpc.getTrades.query({ symbol, limit: 1000 });
+      setTrades(result);
+    } catch (err) {
+      console.error('Failed to load trades:', err);
+      setTrades([]);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    loadTrades();
+  }, [loadTrades]);
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const bars = await trpc.aggregateTrades.mutate({ symbol, interval });
+      setMessage(`✅ Rebuilt ${bars.length} ${interval} bars for ${symbol} from stored trades`);
+      onBarsRebuilt();
+    } catch (err) {
+      setError(`❌ Failed to rebuild bars: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  // Trades arrive most recent first; plot them oldest first
+  const ordered = [...trades].reverse();
+  const times = ordered.map((trade: Trade) => trade.timestamp.getTime());
+  const prices = ordered.map((trade: Trade) => trade.price);
+  const minTime = Math.min(...times);
+  const timeRange = Math.max(...times) - minTime || 1;
+  const minPrice = Math.min(...prices);
+  const priceRange = Math.max(...prices) - minPrice || 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🧾 Trade Tape - {symbol}
+        </CardTitle>
+        <CardDescription>
+          Individual trade prints as stored; {interval} bars can be rebuilt from them at any time
+        </CardDescription>
+        <div className="flex gap-2">
+          <Button onClick={handleRebuild} disabled={isRebuilding || trades.length === 0}>
+            {isRebuilding ? '⏳ Rebuilding...' : `🔁 Rebuild ${interval} bars`}
+          </Button>
+          <Button variant="outline" onClick={loadTrades}>
+            🔄 Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {trades.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="text-6xl mb-4">🧾</div>
+            <p className="text-lg mb-2">No trades stored for {symbol}</p>
+            <p className="text-sm">Record trade prints through the recordTrades API to see them here</p>
+          </div>
+        ) : (
+          <>
+            {/* Each print as a dot: green on an uptick, red on a downtick */}
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-48 bg-gray-900 rounded-lg">
+              {ordered.map((trade: Trade, index: number) => {
+                const previous = ordered[index - 1];
+                const color = !previous || trade.price === previous.price
+                  ? '#9ca3af'
+                  : trade.price > previous.price ? '#4ade80' : '#f87171';
+                return (
+                  <circle
+                    key={trade.id}
+                    cx={((trade.timestamp.getTime() - minTime) / timeRange) * (CHART_WIDTH - 20) + 10}
+                    cy={CHART_HEIGHT - 10 - ((trade.price - minPrice) / priceRange) * (CHART_HEIGHT - 20)}
+                    r={Math.min(6, 1.5 + Math.log10(trade.size))}
+                    fill={color}
+                    fillOpacity={0.8}
+                  />
+                );
+              })}
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>{formatTradeTime(new Date(minTime), timeZone)}</span>
+              <span>
+                {formatPrice(minPrice, symbolInfo)} – {formatPrice(minPrice + priceRange, symbolInfo)}
+              </span>
+              <span>{formatTradeTime(new Date(minTime + timeRange), timeZone)} {timeZoneLabel(timeZone, new Date(minTime))}</span>
+            </div>
+
+            <div className="rounded-md border max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time ({timeZoneLabel(timeZone, trades[0]?.timestamp)})</TableHead>
+                    <TableHead className="text-right">Price ({symbolInfo?.currency ?? 'USD'})</TableHead>
+                    <TableHead className="text-right">Size</TableHead>
+                    <TableHead>Exchange</TableHead>
+                    <TableHead>Conditions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trades.slice(0, 200).map((trade: Trade) => (
+                    <TableRow key={trade.id}>
+                      <TableCell className="font-mono text-sm">
+                        {formatDate(trade.timestamp, timeZone)} {formatTradeTime(trade.timestamp, timeZone)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatPriceValue(trade.price, symbolInfo)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {trade.size.toLocaleString()}
+                      </TableCell>
+                      <TableCell>{trade.exchange ?? '—'}</TableCell>
+                      <TableCell className="font-mono text-sm">{trade.conditions?.join(' ') ?? '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import type { SessionFilter, StockTick } from '../../../server/src/schema';
+
+// Whether a bar passes a session filter, matching the server's: extended hours
+// are regular plus pre- and post-market, and 'all' also keeps session-less bars
+export function inSession(tick: StockTick, session: SessionFilter): boolean {
+  if (session === 'regular') return tick.session === 'regular';
+  if (session === 'extended') return tick.session !== null;
+  return true;
+}
+
+// Loaded bars (newest first, as getHistoricalData returns them) with streamed
+// bars applied: a bar at a loaded timestamp replaces it, others are added, and
+// only the newest `limit` are kept
+export function mergeBars(current: StockTick[], incoming: StockTick[], limit: number): StockTick[] {
+  const byTime = new Map(current.map((tick: StockTick) => [tick.timestamp.getTime(), tick]));
+  for (const tick of incoming) {
+    byTime.set(tick.timestamp.getTime(), tick);
+  }
+  return [...byTime.values()]
+    .sort((a: StockTick, b: StockTick) => b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, limit);
+}
+
+// Latest prices with a streamed bar applied when it is at least as recent as
+// its symbol's current one
+export function mergeLatestPrice(prices: StockTick[], tick: StockTick): StockTick[] {
+  const index = prices.findIndex((price: StockTick) => price.symbol === tick.symbol);
+  if (index === -1) return [...prices, tick];
+  if (prices[index].timestamp.getTime() > tick.timestamp.getTime()) return prices;
+  return prices.map((price: StockTick, i: number) => (i === index ? tick : price));
+}
@@ -0,0 +1,54 @@
+import type { TrackedSymbol } from '../../../server/src/schema';
+
+// Number of decimals needed to show prices at a given tick size (0.01 -> 2, 0.0005 -> 4)
+export function tickDecimals(tickSize: number): number {
+  for (let decimals = 0; decimals < 8; decimals++) {
+    const scaled = tickSize * 10 ** decimals;
+    if (Math.abs(scaled - Math.round(scaled)) < 1e-9) return decimals;
+  }
+  return 8;
+}
+
+// Price with the symbol's currency symbol and tick precision, e.g. "$187.15"
+export function formatPrice(value: number, info?: TrackedSymbol): string {
+  const decimals = tickDecimals(info?.tick_size ?? 0.01);
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: info?.currency ?? 'USD',
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(value);
+}
+
+// Bare price at the symbol's tick precision, for columns already labelled with the currency
+export function formatPriceValue(value: number, info?: TrackedSymbol): string {
+  return value.toFixed(tickDecimals(info?.tick_size ?? 0.01));
+}
+
+// Whether timestamps show in the symbol's exchange time zone or the browser's
+export type TimeDisplay = 'exchange' | 'local';
+
+// Zone to render a symbol's timestamps in; undefined means the browser's own
+export function displayTimeZone(display: TimeDisplay, info?: TrackedSymbol): string | undefined {
+  return display === 'exchange' ? info?.timezone ?? 'America/New_York' : undefined;
+}
+
+// Short zone name for labels, e.g. "EST" or "GMT+1"
+export function timeZoneLabel(timeZone?: string, at: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(at)
+    .find((part) => part.type === 'timeZoneName')?.value ?? '';
+}
+
+export function formatTime(value: Date, timeZone?: string, options: Intl.DateTimeFormatOptions = {}): string {
+  return value.toLocaleTimeString(undefined, { timeZone, ...options });
+}
+
+export function formatDate(value: Date, timeZone?: string, options: Intl.DateTimeFormatOptions = {}): string {
+  return value.toLocaleDateString(undefined, { timeZone, ...options });
+}
+
+// Date and time with the zone name, e.g. "3/4/2024, 9:30:00 AM EST"
+export function formatDateTime(value: Date, timeZone?: string): string {
+  return value.toLocaleString(undefined, { timeZone, timeZoneName: 'short' });
+}
@@ -1,10 +1,15 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpSubscriptionLink, loggerLink, splitLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    // Subscriptions stream over server-sent events; everything else is batched
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: httpSubscriptionLink({ url: '/api', transformer: superjson }),
+      false: httpBatchLink({ url: '/api', transformer: superjson }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
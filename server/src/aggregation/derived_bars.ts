@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { sessionCondition } from '../db/session_filter';
+import { barSource } from '../db/bar_history';
+import { type Interval, type SessionFilter, type StockTick } from '../schema';
+import { alignToBar, canonicalInterval, nextBarStart } from '../intervals';
+import { getSourceIntervals, maxSourceBarsPerBar, resampleBars } from './resample';
+import { eq, gte, lt, and, desc, type SQL } from 'drizzle-orm';
+
+// Upper bound on finer rows read to build one response
+const MAX_SOURCE_ROWS = 50_000;
+
+export interface DerivedBarsQuery {
+  symbol?: string;
+  interval: Interval;
+  startDate?: Date;
+  endDate?: Date;
+  limit: number;
+  session: SessionFilter;
+  finalOnly?: boolean; // leave out derived bars that are still forming
+  asOf?: Date; // roll up the bar versions known at this moment
+}
+
+// Build `interval` bars from the coarsest finer interval with stored bars in
+// the range. Like a native query, bars starting in [startDate, endDate] are
+// returned newest first, up to `limit`; only complete buckets are built, so
+// the oldest bucket is dropped when the row cap cut into it. Returns an
+// empty list when no finer bars in the range can be rolled up.
+export const loadDerivedBars = async (query: DerivedBarsQuery): Promise<StockTick[]> => {
+  const interval = canonicalInterval(query.interval);
+  const ticks = barSource(query.asOf);
+  for (const source of getSourceIntervals(interval)) {
+    const conditions: SQL<unknown>[] = [eq(ticks.interval, source)];
+
+    if (query.symbol) {
+      conditions.push(eq(ticks.symbol, query.symbol));
+    }
+
+    if (query.startDate) {
+      conditions.push(gte(ticks.timestamp, query.startDate));
+    }
+
+    // Only finer bars from the requested sessions go into the roll-up, so
+    // regular-only daily bars ignore thin pre- and post-market prints
+    const sessionFilter = sessionCondition(query.session, ticks);
+    if (sessionFilter) {
+      conditions.push(sessionFilter);
+    }
+
+    // Read to the end of the bucket containing endDate so it is complete
+    if (query.endDate) {
+      conditions.push(lt(ticks.timestamp, new Date(nextBarStart(query.endDate.getTime(), interval))));
+    }
+
+    const rowLimit = Math.min(MAX_SOURCE_ROWS, maxSourceBarsPerBar(source, interval) * (query.limit + 1));
+    const rows = await db.select()
+      .from(ticks)
+      .where(and(...conditions))
+      .orderBy(desc(ticks.timestamp))
+      .limit(rowLimit)
+      .execute();
+
+    if (rows.length === 0) {
+      continue;
+    }
+
+    let derived = resampleBars(rows.map(row => ({
+      ...row,
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close),
+      interval: source
+    })), interval);
+
+    if (rows.length === rowLimit) {
+      const cutoff = alignToBar(rows[rows.length - 1].timestamp.getTime(), interval);
+      derived = derived.filter(bar => bar.timestamp.getTime() > cutoff);
+    }
+
+    // Forming source bars still count towards the roll-up; only the
+    // resulting bars are left out
+    const bars = derived
+      .filter(bar => !query.finalOnly || bar.is_final)
+      .filter(bar => !query.startDate || bar.timestamp >= query.startDate)
+      .filter(bar => !query.endDate || bar.timestamp <= query.endDate)
+      .reverse()
+      .slice(0, query.limit);
+    if (bars.length > 0) {
+      return bars;
+    }
+  }
+
+  return [];
+};
@@ -0,0 +1,90 @@
+import { type Interval, type StockTick } from '../schema';
+import { alignToBar, getBarSession, intradayMinutes, isBarFinal, maxIntervalMs } from '../intervals';
+
+// Coarser intervals a stored `1d` or longer bar fits inside exactly
+const calendarParents: Partial<Record<Interval, Interval[]>> = {
+  '1d': ['5d', '1wk', '1mo', '3mo'],
+  '1mo': ['3mo']
+};
+
+// Whether every `source` bar lies inside exactly one `target` bar
+const nestsInside = (source: Interval, target: Interval): boolean => {
+  const sourceMinutes = intradayMinutes[source];
+  const targetMinutes = intradayMinutes[target];
+  if (sourceMinutes && targetMinutes) {
+    return targetMinutes > sourceMinutes && targetMinutes % sourceMinutes === 0;
+  }
+  if (sourceMinutes) {
+    // Intraday bars never straddle a New York midnight
+    return true;
+  }
+  return calendarParents[source]?.includes(target) ?? false;
+};
+
+// Stored intervals that can be rolled up into `interval`, coarsest first so
+// the fewest rows are read. 1h is left out as it is stored as 60m.
+export const getSourceIntervals = (interval: Interval): Interval[] => {
+  const candidates: Interval[] = ['1m', '2m', '5m', '15m', '30m', '60m', '90m', '1d', '1mo'];
+  return candidates
+    .filter(source => nestsInside(source, interval))
+    .sort((a, b) => maxIntervalMs(b) - maxIntervalMs(a));
+};
+
+// Upper bound on how many `source` bars make up one `target` bar
+export const maxSourceBarsPerBar = (source: Interval, target: Interval): number => {
+  return Math.ceil(maxIntervalMs(target) / maxIntervalMs(source));
+};
+
+// Roll finer bars up into `interval`: first open, max high, min low, last
+// close and summed volume per exchange-local bucket. Bars may be for several
+// symbols and in any order; the result is ordered by timestamp, then symbol.
+// Derived bars keep the id of their last constituent, take their session from
+// the trading calendar and record the interval they were built from in
+// `source_interval`. A derived bar is final once its own interval has closed
+// by `now` and every constituent is final. Provenance is kept where every
+// constituent agrees, with the latest fetch time; a derived bar has no
+// payload of its own, so payload_hash is null.
+export const resampleBars = (bars: StockTick[], interval: Interval, now: number = Date.now()): StockTick[] => {
+  const ordered = [...bars].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const buckets = new Map<string, StockTick>();
+
+  for (const bar of ordered) {
+    const start = alignToBar(bar.timestamp.getTime(), interval);
+    const key = `${bar.symbol}:${start}`;
+    const current = buckets.get(key);
+    if (!current) {
+      buckets.set(key, {
+        ...bar,
+        timestamp: new Date(start),
+        interval,
+        session: getBarSession(start, interval),
+        is_final: bar.is_final && isBarFinal(start, interval, now),
+        payload_hash: null,
+        source_interval: bar.interval
+      });
+      continue;
+    }
+    current.id = bar.id;
+    current.high = Math.max(current.high, bar.high);
+    current.low = Math.min(current.low, bar.low);
+    current.close = bar.close;
+    current.volume += bar.volume;
+    current.is_final = current.is_final && bar.is_final;
+    if (bar.source !== current.source) {
+      current.source = null;
+    }
+    if (bar.ingest_run_id !== current.ingest_run_id) {
+      current.ingest_run_id = null;
+    }
+    if (bar.fetched_at && (!current.fetched_at || bar.fetched_at > current.fetched_at)) {
+      current.fetched_at = bar.fetched_at;
+    }
+    if (bar.created_at > current.created_at) {
+      current.created_at = bar.created_at;
+    }
+  }
+
+  return [...buckets.values()].sort((a, b) =>
+    a.timestamp.getTime() - b.timestamp.getTime() || a.symbol.localeCompare(b.symbol)
+  );
+};
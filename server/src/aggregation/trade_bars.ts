@@ -0,0 +1,29 @@
+import { type Interval, type TradePrint, type YahooFinanceData } from '../schema';
+import { alignToBar } from '../intervals';
+
+// Build OHLCV bars for `interval` from trade prints. Trades are taken in
+// timestamp order, with ties kept in the order given, so the same prints
+// always produce the same bars. Bars without trades are not emitted.
+export const aggregateTrades = (
+  trades: Pick<TradePrint, 'timestamp' | 'price' | 'size'>[],
+  interval: Interval
+): YahooFinanceData[] => {
+  const ordered = [...trades].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const bars: YahooFinanceData[] = [];
+  let current: YahooFinanceData | null = null;
+
+  for (const trade of ordered) {
+    const barStart = Math.floor(alignToBar(trade.timestamp.getTime(), interval) / 1000);
+    if (!current || current.timestamp !== barStart) {
+      current = { timestamp: barStart, open: trade.price, high: trade.price, low: trade.price, close: trade.price, volume: 0 };
+      bars.push(current);
+    }
+    current.high = Math.max(current.high, trade.price);
+    current.low = Math.min(current.low, trade.price);
+    current.close = trade.price;
+    current.volume += trade.size;
+  }
+
+  return bars;
+};
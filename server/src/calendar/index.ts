@@ -0,0 +1,166 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { z } from 'zod';
+import type { MarketSession } from '../schema';
+
+// NYSE/Nasdaq trading calendar: regular and extended hours, early closes and
+// holidays, in New York exchange-local time. The calendar is read from a JSON
+// data file (TRADING_CALENDAR_FILE, defaulting to the bundled xnys.json);
+// dates outside the file's years are treated as normal weekday sessions.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const DEFAULT_CALENDAR_FILE = join(import.meta.dir, 'xnys.json');
+
+// UTC offset of New York in minutes (e.g. -300 for EST) on the given day,
+// memoized because Intl formatting dominates the cost of long ranges
+const newYorkOffsetFormat = new Intl.DateTimeFormat('en-US', { timeZone: 'America/New_York', timeZoneName: 'shortOffset' });
+const newYorkOffsets = new Map<number, number>();
+export const getNewYorkOffsetMinutes = (day: number): number => {
+  const cached = newYorkOffsets.get(day);
+  if (cached !== undefined) return cached;
+
+  const noon = new Date(day * DAY_MS + DAY_MS / 2);
+  const zone = newYorkOffsetFormat.formatToParts(noon).find(part => part.type === 'timeZoneName')?.value ?? 'GMT-5';
+  const match = /GMT([+-]\d+)(?::(\d+))?/.exec(zone);
+  const hours = match ? parseInt(match[1], 10) : -5;
+  const minutes = match ? parseInt(match[2] ?? '0', 10) : 0;
+  const offset = hours * 60 + Math.sign(hours) * minutes;
+  newYorkOffsets.set(day, offset);
+  return offset;
+};
+
+// UTC ms of New York midnight on local day number `day`
+export const localDayStart = (day: number): number => {
+  return day * DAY_MS - getNewYorkOffsetMinutes(day) * MINUTE_MS;
+};
+
+// New York local day number (days since 1970-01-01) containing `ms`
+export const localDay = (ms: number): number => {
+  return Math.floor((ms + getNewYorkOffsetMinutes(Math.floor(ms / DAY_MS)) * MINUTE_MS) / DAY_MS);
+};
+
+// 1970-01-01 was a Thursday, so (day + 4) mod 7 gives 0 for Sunday and 6 for Saturday
+export const isWeekend = (day: number): boolean => {
+  const weekday = ((day + 4) % 7 + 7) % 7;
+  return weekday === 0 || weekday === 6;
+};
+
+const localTimeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Expected HH:MM');
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// Layout of the calendar data file
+const calendarFileSchema = z.object({
+  hours: z.object({
+    preOpen: localTimeSchema,
+    open: localTimeSchema,
+    close: localTimeSchema,
+    postClose: localTimeSchema
+  }),
+  earlyCloseHours: z.object({
+    close: localTimeSchema,
+    postClose: localTimeSchema
+  }),
+  holidays: z.array(localDateSchema),
+  earlyCloses: z.array(localDateSchema)
+});
+
+// Minutes after local midnight for the session boundaries of a day
+interface SessionMinutes {
+  preOpen: number;
+  open: number;
+  close: number;
+  postClose: number;
+}
+
+interface TradingCalendar {
+  hours: SessionMinutes;
+  earlyCloseHours: SessionMinutes;
+  holidays: Set<number>; // local day numbers
+  earlyCloses: Set<number>;
+}
+
+// One trading day's session boundaries, in UTC ms
+export interface TradingSession {
+  day: number; // New York local day number
+  preOpen: number;
+  open: number;
+  close: number;
+  postClose: number;
+  earlyClose: boolean;
+}
+
+const parseMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + minutes;
+};
+
+const parseDay = (date: string): number => {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+};
+
+// Build a calendar from the parsed contents of a calendar data file
+export const parseTradingCalendar = (data: unknown): TradingCalendar => {
+  const file = calendarFileSchema.parse(data);
+  const hours: SessionMinutes = {
+    preOpen: parseMinutes(file.hours.preOpen),
+    open: parseMinutes(file.hours.open),
+    close: parseMinutes(file.hours.close),
+    postClose: parseMinutes(file.hours.postClose)
+  };
+
+  return {
+    hours,
+    earlyCloseHours: {
+      ...hours,
+      close: parseMinutes(file.earlyCloseHours.close),
+      postClose: parseMinutes(file.earlyCloseHours.postClose)
+    },
+    holidays: new Set(file.holidays.map(parseDay)),
+    earlyCloses: new Set(file.earlyCloses.map(parseDay))
+  };
+};
+
+let calendar = parseTradingCalendar(
+  JSON.parse(readFileSync(process.env['TRADING_CALENDAR_FILE'] ?? DEFAULT_CALENDAR_FILE, 'utf8'))
+);
+
+// Replace the active calendar with the one in a data file
+export const loadTradingCalendar = (path: string = DEFAULT_CALENDAR_FILE): void => {
+  calendar = parseTradingCalendar(JSON.parse(readFileSync(path, 'utf8')));
+};
+
+// Whether the exchange is open on local day number `day`
+export const isTradingDay = (day: number): boolean => {
+  return !isWeekend(day) && !calendar.holidays.has(day);
+};
+
+// Session boundaries for local day number `day`, or null when the exchange is closed
+export const getTradingSession = (day: number): TradingSession | null => {
+  if (!isTradingDay(day)) {
+    return null;
+  }
+
+  const earlyClose = calendar.earlyCloses.has(day);
+  const minutes = earlyClose ? calendar.earlyCloseHours : calendar.hours;
+  const midnight = localDayStart(day);
+  return {
+    day,
+    preOpen: midnight + minutes.preOpen * MINUTE_MS,
+    open: midnight + minutes.open * MINUTE_MS,
+    close: midnight + minutes.close * MINUTE_MS,
+    postClose: midnight + minutes.postClose * MINUTE_MS,
+    earlyClose
+  };
+};
+
+// Session a moment falls in, or null outside extended hours and on closed days
+export const getMarketSession = (ms: number): MarketSession | null => {
+  const session = getTradingSession(localDay(ms));
+  if (!session || ms < session.preOpen || ms >= session.postClose) {
+    return null;
+  }
+  if (ms < session.open) return 'pre';
+  return ms < session.close ? 'regular' : 'post';
+};
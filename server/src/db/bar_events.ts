@@ -0,0 +1,33 @@
+import { EventEmitter, on } from 'node:events';
+import { type BarUpdate, type OnBarsInput } from '../schema';
+import { canonicalInterval } from '../intervals';
+
+// In-process fan-out of stored bar changes. Every path that writes
+// stock_ticks publishes the rows it inserted or changed; onBars subscribers
+// receive the updates published while they are listening.
+
+const emitter = new EventEmitter();
+// One listener per open subscription
+emitter.setMaxListeners(0);
+
+export const publishBars = (update: BarUpdate): void => {
+  if (update.bars.length > 0) {
+    emitter.emit('bars', update);
+  }
+};
+
+// Bar updates from now until `signal` aborts, filtered to a symbol and interval
+export async function* barUpdates(filter: OnBarsInput, signal?: AbortSignal): AsyncGenerator<BarUpdate> {
+  const interval = filter.interval && canonicalInterval(filter.interval);
+  try {
+    for await (const [update] of on(emitter, 'bars', { signal }) as AsyncIterableIterator<[BarUpdate]>) {
+      if ((!filter.symbol || update.symbol === filter.symbol) && (!interval || update.interval === interval)) {
+        yield update;
+      }
+    }
+  } catch (error) {
+    // Aborting is how subscribers hang up
+    if (signal?.aborted) return;
+    throw error;
+  }
+}
@@ -0,0 +1,86 @@
+import { db } from '.';
+import { stockTickRevisionsTable, stockTicksTable } from './schema';
+import { desc, eq, lte } from 'drizzle-orm';
+
+// Bitemporal bar history. stock_ticks holds the current version of each bar;
+// stock_tick_revisions appends a copy of every version with the time we
+// learned it, so queries can be answered as of any past moment.
+
+type StockTickRow = typeof stockTicksTable.$inferSelect;
+type Executor = Pick<typeof db, 'insert'>;
+
+// Revisions per statement; 18 bind parameters each keeps well under Postgres' limit
+const REVISION_CHUNK_SIZE = 1000;
+
+// Append `rows` as revisions learned at `recordedAt`; `removed` records that
+// the bars were deleted
+export const recordRevisions = async (executor: Executor, rows: StockTickRow[], recordedAt: Date, removed = false): Promise<void> => {
+  if (rows.length === 0) {
+    return;
+  }
+  for (let i = 0; i < rows.length; i += REVISION_CHUNK_SIZE) {
+    await executor.insert(stockTickRevisionsTable)
+      .values(rows.slice(i, i + REVISION_CHUNK_SIZE).map(({ id, ...row }) => ({ ...row, tick_id: id, removed, recorded_at: recordedAt })))
+      .execute();
+  }
+};
+
+// stock_ticks as it stood at `asOf`, with the same columns: the newest
+// revision of every bar recorded by then, unless that revision removed it.
+// Bars are picked before any caller conditions apply, so filtering the result
+// never surfaces an older version of a bar.
+export const ticksAsOf = (asOf: Date) => {
+  const revisions = stockTickRevisionsTable;
+  const latest = db.selectDistinctOn([revisions.symbol, revisions.interval, revisions.timestamp], {
+    id: revisions.tick_id,
+    symbol: revisions.symbol,
+    timestamp: revisions.timestamp,
+    open: revisions.open,
+    high: revisions.high,
+    low: revisions.low,
+    close: revisions.close,
+    volume: revisions.volume,
+    interval: revisions.interval,
+    session: revisions.session,
+    is_final: revisions.is_final,
+    source: revisions.source,
+    fetched_at: revisions.fetched_at,
+    ingest_run_id: revisions.ingest_run_id,
+    payload_hash: revisions.payload_hash,
+    created_at: revisions.created_at,
+    removed: revisions.removed
+  })
+    .from(revisions)
+    .where(lte(revisions.recorded_at, asOf))
+    .orderBy(revisions.symbol, revisions.interval, revisions.timestamp, desc(revisions.recorded_at), desc(revisions.id))
+    .as('latest_revisions');
+
+  return db.select({
+    id: latest.id,
+    symbol: latest.symbol,
+    timestamp: latest.timestamp,
+    open: latest.open,
+    high: latest.high,
+    low: latest.low,
+    close: latest.close,
+    volume: latest.volume,
+    interval: latest.interval,
+    session: latest.session,
+    is_final: latest.is_final,
+    source: latest.source,
+    fetched_at: latest.fetched_at,
+    ingest_run_id: latest.ingest_run_id,
+    payload_hash: latest.payload_hash,
+    created_at: latest.created_at
+  })
+    .from(latest)
+    .where(eq(latest.removed, false))
+    .as('stock_ticks_as_of');
+};
+
+export type BarSource = typeof stockTicksTable | ReturnType<typeof ticksAsOf>;
+
+// Where to read bars from: stock_ticks, or its state at `asOf` when given
+export const barSource = (asOf?: Date): BarSource => {
+  return asOf ? ticksAsOf(asOf) : stockTicksTable;
+};
@@ -0,0 +1,151 @@
+import { db } from '.';
+import { stockTicksTable } from './schema';
+import { type Interval, type StockTick, type YahooFinanceData } from '../schema';
+import { canonicalInterval, getBarSession, isBarFinal } from '../intervals';
+import { type BarProvenance } from '../providers/types';
+import { publishBars } from './bar_events';
+import { recordRevisions } from './bar_history';
+import { and, eq, getTableColumns, inArray, sql } from 'drizzle-orm';
+import { createHash } from 'node:crypto';
+
+// The database, or a transaction to write within
+type Executor = Pick<typeof db, 'select' | 'transaction'>;
+
+// Rows per statement; 14 bind parameters each keeps well under Postgres' limit
+export const WRITE_CHUNK_SIZE = 1000;
+
+// Hash of a bar's values as the provider returned them, before they are
+// rounded to the stored precision
+export const payloadHash = (bar: YahooFinanceData): string => {
+  const values = [bar.timestamp, bar.open, bar.high, bar.low, bar.close, bar.volume];
+  return createHash('sha256').update(JSON.stringify(values)).digest('hex');
+};
+
+export interface BarWriteResult {
+  ticks: StockTick[]; // every written bar, in chronological order
+  inserted: number;
+  updated: number;
+  unchanged: number; // already stored with identical OHLCV
+  changed: StockTick[]; // the inserted and updated bars, in chronological order
+}
+
+// Upsert provider bars for one symbol and interval with chunked multi-row
+// INSERT ... ON CONFLICT (symbol, timestamp, interval) DO UPDATE. Rows are
+// only rewritten when their OHLCV (or calendar session) changed, and Postgres reports whether each
+// returned row was inserted (xmax = 0) or updated. A bar whose interval is
+// still open at `now` is stored as forming (is_final false) and finalized by
+// a later write or the bar finalizer. Every inserted or changed row is
+// recorded as a revision learned at `now`, in the same transaction.
+// Inserted and changed rows take their provenance from `provenance`, with a
+// per-bar hash of the provider's values; unchanged rows keep theirs.
+// Given a transaction as `executor`, the chunks are written within it and
+// nothing is published: the caller publishes `changed` once it commits.
+// Otherwise each chunk's changed bars go to onBars subscribers as it commits.
+export const writeBars = async (
+  symbol: string,
+  requestedInterval: Interval,
+  bars: YahooFinanceData[],
+  provenance: BarProvenance | null = null,
+  now: Date = new Date(),
+  executor: Executor = db
+): Promise<BarWriteResult> => {
+  const interval = canonicalInterval(requestedInterval);
+
+  // One row per timestamp: a statement can't touch the same row twice
+  const byTimestamp = new Map<number, YahooFinanceData>();
+  for (const bar of bars) {
+    byTimestamp.set(bar.timestamp, bar);
+  }
+  const rows = [...byTimestamp.values()]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(bar => ({
+      symbol,
+      timestamp: new Date(bar.timestamp * 1000),
+      open: bar.open.toString(),
+      high: bar.high.toString(),
+      low: bar.low.toString(),
+      close: bar.close.toString(),
+      volume: bar.volume,
+      interval,
+      session: getBarSession(bar.timestamp * 1000, interval),
+      is_final: isBarFinal(bar.timestamp * 1000, interval, now.getTime()),
+      source: provenance?.source ?? null,
+      fetched_at: provenance?.fetchedAt ?? null,
+      ingest_run_id: provenance?.ingestRunId ?? null,
+      payload_hash: provenance ? payloadHash(bar) : null
+    }));
+
+  const result: BarWriteResult = { ticks: [], inserted: 0, updated: 0, unchanged: 0, changed: [] };
+
+  for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + WRITE_CHUNK_SIZE);
+
+    const written = await executor.transaction(async (tx) => {
+      const upserted = await tx.insert(stockTicksTable)
+        .values(chunk)
+        .onConflictDoUpdate({
+          target: [stockTicksTable.symbol, stockTicksTable.timestamp, stockTicksTable.interval],
+          set: {
+            open: sql`excluded.open`,
+            high: sql`excluded.high`,
+            low: sql`excluded.low`,
+            close: sql`excluded.close`,
+            volume: sql`excluded.volume`,
+            session: sql`excluded.session`,
+            is_final: sql`excluded.is_final`,
+            source: sql`excluded.source`,
+            fetched_at: sql`excluded.fetched_at`,
+            ingest_run_id: sql`excluded.ingest_run_id`,
+            payload_hash: sql`excluded.payload_hash`
+          },
+          setWhere: sql`(${stockTicksTable.open}, ${stockTicksTable.high}, ${stockTicksTable.low}, ${stockTicksTable.close}, ${stockTicksTable.volume}, ${stockTicksTable.session}, ${stockTicksTable.is_final})
+            is distinct from (excluded.open, excluded.high, excluded.low, excluded.close, excluded.volume, excluded.session, excluded.is_final)`
+        })
+        .returning({ ...getTableColumns(stockTicksTable), inserted: sql<boolean>`(xmax = 0)` })
+        .execute();
+
+      await recordRevisions(tx, upserted.map(({ inserted: _inserted, ...row }) => row), now);
+      return upserted;
+    });
+
+    // Unchanged rows aren't returned by the upsert, so read them back
+    const writtenTimes = new Set(written.map(row => row.timestamp.getTime()));
+    const unchangedTimes = chunk
+      .map(row => row.timestamp)
+      .filter(timestamp => !writtenTimes.has(timestamp.getTime()));
+    const unchanged = unchangedTimes.length === 0 ? [] : await executor.select()
+      .from(stockTicksTable)
+      .where(and(
+        eq(stockTicksTable.symbol, symbol),
+        eq(stockTicksTable.interval, interval),
+        inArray(stockTicksTable.timestamp, unchangedTimes)
+      ))
+      .execute();
+
+    const inserted = written.filter(row => row.inserted).length;
+    result.inserted += inserted;
+    result.updated += written.length - inserted;
+    result.unchanged += unchanged.length;
+
+    const chunkTicks = [...written.map(({ inserted: _inserted, ...row }) => row), ...unchanged]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(tick => ({
+        ...tick,
+        open: parseFloat(tick.open),
+        high: parseFloat(tick.high),
+        low: parseFloat(tick.low),
+        close: parseFloat(tick.close)
+      }));
+    result.ticks.push(...chunkTicks);
+
+    // Stream only what changed; subscribers already have unchanged bars
+    const changedTimes = new Set(written.map(row => row.timestamp.getTime()));
+    const changed = chunkTicks.filter(tick => changedTimes.has(tick.timestamp.getTime()));
+    result.changed.push(...changed);
+    if (executor === db) {
+      publishBars({ symbol, interval, bars: changed });
+    }
+  }
+
+  return result;
+};
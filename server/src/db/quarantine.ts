@@ -0,0 +1,83 @@
+import { db } from '.';
+import { quarantinedTicksTable } from './schema';
+import { type Interval, type YahooFinanceData } from '../schema';
+import { type BarProvenance } from '../providers/types';
+import { canonicalInterval } from '../intervals';
+import { validateBars, type BarValidationOptions, type RejectedBar } from '../validation/bars';
+import { payloadHash, writeBars, type BarWriteResult } from './bar_writer';
+import { sql } from 'drizzle-orm';
+
+export interface BarIngestResult extends BarWriteResult {
+  quarantined: number; // held back in quarantined_ticks for review
+}
+
+// Park rejected bars in quarantined_ticks, pending review. A bar already
+// pending (from an earlier fetch, scheduled run or retried job) is updated to
+// the latest values, reasons and provenance instead of queued again.
+export const quarantineBars = async (symbol: string, requestedInterval: Interval, rejected: RejectedBar[], provenance: BarProvenance | null): Promise<void> => {
+  if (rejected.length === 0) {
+    return;
+  }
+  const interval = canonicalInterval(requestedInterval);
+
+  // One row per timestamp: a statement can't touch the same row twice
+  const byTimestamp = new Map<number, RejectedBar>();
+  for (const entry of rejected) {
+    byTimestamp.set(entry.bar.timestamp, entry);
+  }
+
+  await db.insert(quarantinedTicksTable)
+    .values([...byTimestamp.values()].map(({ bar, reasons, detail }) => ({
+      symbol,
+      timestamp: new Date(bar.timestamp * 1000),
+      interval,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      reasons,
+      detail,
+      source: provenance?.source ?? null,
+      fetched_at: provenance?.fetchedAt ?? null,
+      ingest_run_id: provenance?.ingestRunId ?? null,
+      payload_hash: provenance ? payloadHash(bar) : null
+    })))
+    .onConflictDoUpdate({
+      target: [quarantinedTicksTable.symbol, quarantinedTicksTable.interval, quarantinedTicksTable.timestamp],
+      targetWhere: sql`${quarantinedTicksTable.status} = 'pending'`,
+      set: {
+        open: sql`excluded.open`,
+        high: sql`excluded.high`,
+        low: sql`excluded.low`,
+        close: sql`excluded.close`,
+        volume: sql`excluded.volume`,
+        reasons: sql`excluded.reasons`,
+        detail: sql`excluded.detail`,
+        source: sql`excluded.source`,
+        fetched_at: sql`excluded.fetched_at`,
+        ingest_run_id: sql`excluded.ingest_run_id`,
+        payload_hash: sql`excluded.payload_hash`
+      }
+    })
+    .execute();
+};
+
+// The validation stage of ingest: store the provider bars that pass
+// validateBars through writeBars and quarantine the rest
+export const ingestBars = async (
+  symbol: string,
+  interval: Interval,
+  bars: YahooFinanceData[],
+  provenance: BarProvenance | null,
+  options: BarValidationOptions = {}
+): Promise<BarIngestResult> => {
+  const { accepted, rejected } = validateBars(bars, interval, options);
+  if (rejected.length > 0) {
+    console.log(`Quarantined ${rejected.length} of ${bars.length} ${interval} bars for ${symbol}`);
+    await quarantineBars(symbol, interval, rejected, provenance);
+  }
+
+  const written = await writeBars(symbol, interval, accepted, provenance);
+  return { ...written, quarantined: rejected.length };
+};
@@ -1,36 +1,218 @@
 
-import { serial, text, pgTable, timestamp, numeric, integer, index, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, numeric, integer, bigint, index, uniqueIndex, pgEnum, boolean, doublePrecision } from 'drizzle-orm/pg-core';
+import type { Period } from '../schema';
+import { sql } from 'drizzle-orm';
 
-// Define enums for PostgreSQL
-export const stockSymbolEnum = pgEnum('stock_symbol', ['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA']);
-export const intervalEnum = pgEnum('interval', ['1m', '2m', '5m', '15m', '30m', '60m', '90m', '1h', '1d', '5d', '1wk', '1mo', '3mo']);
+// Define enums for PostgreSQL. The type must not be named `interval`: that
+// resolves to Postgres' built-in interval type and bar labels like 1wk are lost.
+export const intervalEnum = pgEnum('bar_interval', ['1m', '2m', '5m', '15m', '30m', '60m', '90m', '1h', '1d', '5d', '1wk', '1mo', '3mo']);
+export const marketSessionEnum = pgEnum('market_session', ['pre', 'regular', 'post']);
+export const ingestJobStatusEnum = pgEnum('ingest_job_status', ['queued', 'running', 'succeeded', 'failed']);
+export const sessionFilterEnum = pgEnum('session_filter', ['regular', 'extended', 'all']);
+export const scheduleRunStatusEnum = pgEnum('schedule_run_status', ['succeeded', 'failed', 'skipped']);
+export const quarantineReasonEnum = pgEnum('quarantine_reason', ['high_below_body', 'low_above_body', 'negative_volume', 'out_of_order', 'price_jump']);
+export const quarantineStatusEnum = pgEnum('quarantine_status', ['pending', 'released', 'dropped']);
+
+// Tracked symbol universe with reference data; deactivated symbols keep their stored ticks
+export const symbolsTable = pgTable('symbols', {
+  symbol: text('symbol').primaryKey(),
+  name: text('name'),
+  exchange_mic: text('exchange_mic'), // ISO 10383 market identifier, e.g. XNAS
+  currency: text('currency').default('USD').notNull(), // ISO 4217 trading currency
+  timezone: text('timezone').default('America/New_York').notNull(), // IANA zone the exchange trades in
+  sector: text('sector'),
+  industry: text('industry'),
+  tick_size: numeric('tick_size', { precision: 12, scale: 6 }).default('0.01').notNull(),
+  lot_size: integer('lot_size').default(100).notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  providers: text('providers').array(), // provider ids to fetch from, most preferred first; null uses the default provider
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
 
 // Stock ticks table for time-series data
 export const stockTicksTable = pgTable('stock_ticks', {
   id: serial('id').primaryKey(),
-  symbol: stockSymbolEnum('symbol').notNull(),
-  timestamp: timestamp('timestamp').notNull(),
+  symbol: text('symbol').notNull(),
+  timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
   open: numeric('open', { precision: 12, scale: 4 }).notNull(),
   high: numeric('high', { precision: 12, scale: 4 }).notNull(),
   low: numeric('low', { precision: 12, scale: 4 }).notNull(),
   close: numeric('close', { precision: 12, scale: 4 }).notNull(),
-  volume: integer('volume').notNull(),
+  volume: bigint('volume', { mode: 'number' }).notNull(),
   interval: intervalEnum('interval').notNull(),
-  created_at: timestamp('created_at').defaultNow().notNull(),
+  session: marketSessionEnum('session'), // trading session from the calendar; null outside extended hours
+  is_final: boolean('is_final').notNull().default(true), // false while the bar's interval is still open
+  // Provenance of the stored values; null for bars written without it
+  source: text('source'), // provider id, or 'trades' for bars rebuilt from trade prints
+  fetched_at: timestamp('fetched_at', { withTimezone: true }), // when the provider returned the bar
+  ingest_run_id: text('ingest_run_id'), // batch id of the fetch or ingest jobs that wrote it
+  payload_hash: text('payload_hash'), // sha256 of the bar as the provider returned it
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
   // Indexes for efficient time-series queries
   symbolTimestampIdx: index('stock_ticks_symbol_timestamp_idx').on(table.symbol, table.timestamp),
   timestampIdx: index('stock_ticks_timestamp_idx').on(table.timestamp),
   symbolIntervalIdx: index('stock_ticks_symbol_interval_idx').on(table.symbol, table.interval),
+  // The few forming bars the finalizer sweeps
+  formingIdx: index('stock_ticks_forming_idx').on(table.timestamp).where(sql`not ${table.is_final}`),
   // Unique constraint to prevent duplicate entries
-  uniqueTickIdx: index('stock_ticks_unique_idx').on(table.symbol, table.timestamp, table.interval),
+  uniqueTickIdx: uniqueIndex('stock_ticks_unique_idx').on(table.symbol, table.timestamp, table.interval),
+}));
+
+// Every version of every bar, with when we learned it. A row is appended
+// whenever a write inserts, changes or removes a stock_ticks row, so the
+// table as it stood at any moment can be rebuilt (see ../db/bar_history).
+export const stockTickRevisionsTable = pgTable('stock_tick_revisions', {
+  id: serial('id').primaryKey(),
+  tick_id: integer('tick_id').notNull(), // stock_ticks.id of the bar; kept after it is removed
+  symbol: text('symbol').notNull(),
+  timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
+  open: numeric('open', { precision: 12, scale: 4 }).notNull(),
+  high: numeric('high', { precision: 12, scale: 4 }).notNull(),
+  low: numeric('low', { precision: 12, scale: 4 }).notNull(),
+  close: numeric('close', { precision: 12, scale: 4 }).notNull(),
+  volume: bigint('volume', { mode: 'number' }).notNull(),
+  interval: intervalEnum('interval').notNull(),
+  session: marketSessionEnum('session'),
+  is_final: boolean('is_final').notNull(),
+  source: text('source'),
+  fetched_at: timestamp('fetched_at', { withTimezone: true }),
+  ingest_run_id: text('ingest_run_id'),
+  payload_hash: text('payload_hash'),
+  created_at: timestamp('created_at', { withTimezone: true }).notNull(), // of the stock_ticks row
+  removed: boolean('removed').notNull().default(false), // the bar was deleted at recorded_at
+  recorded_at: timestamp('recorded_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  // Latest revision of a bar at a moment: equality on the bar, then recorded_at descending
+  barRecordedIdx: index('stock_tick_revisions_bar_recorded_idx').on(table.symbol, table.interval, table.timestamp, table.recorded_at),
+}));
+
+// Provider bars that failed validation on ingest (see ../validation/bars).
+// Prices are kept as the provider sent them, unrounded, so a released bar is
+// stored and hashed exactly as it would have been without the quarantine.
+export const quarantinedTicksTable = pgTable('quarantined_ticks', {
+  id: serial('id').primaryKey(),
+  symbol: text('symbol').notNull(),
+  timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
+  interval: intervalEnum('interval').notNull(),
+  open: doublePrecision('open').notNull(),
+  high: doublePrecision('high').notNull(),
+  low: doublePrecision('low').notNull(),
+  close: doublePrecision('close').notNull(),
+  volume: bigint('volume', { mode: 'number' }).notNull(),
+  reasons: quarantineReasonEnum('reasons').array().notNull(),
+  detail: text('detail').notNull(), // the failed checks, for reviewers
+  status: quarantineStatusEnum('status').default('pending').notNull(),
+  source: text('source'),
+  fetched_at: timestamp('fetched_at', { withTimezone: true }),
+  ingest_run_id: text('ingest_run_id'),
+  payload_hash: text('payload_hash'),
+  reviewed_at: timestamp('reviewed_at', { withTimezone: true }), // when it was released or dropped
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  statusSymbolIdx: index('quarantined_ticks_status_symbol_idx').on(table.status, table.symbol, table.interval),
+  // At most one pending row per bar; re-fetching a bar under review refreshes it
+  pendingBarIdx: uniqueIndex('quarantined_ticks_pending_bar_idx').on(table.symbol, table.interval, table.timestamp).where(sql`${table.status} = 'pending'`),
+}));
+
+// Raw trade prints; bars in stock_ticks can be rebuilt from these
+export const tradesTable = pgTable('trades', {
+  id: serial('id').primaryKey(),
+  symbol: text('symbol').notNull(),
+  timestamp: timestamp('timestamp', { precision: 3, withTimezone: true }).notNull(), // execution time, ms precision
+  price: numeric('price', { precision: 12, scale: 4 }).notNull(),
+  size: integer('size').notNull(),
+  exchange: text('exchange'), // reporting venue, e.g. XNAS
+  conditions: text('conditions').array(), // sale condition codes as reported by the feed
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  symbolTimestampIdx: index('trades_symbol_timestamp_idx').on(table.symbol, table.timestamp),
+}));
+
+// Top-of-book (NBBO) snapshots; one per symbol and timestamp
+export const quotesTable = pgTable('quotes', {
+  id: serial('id').primaryKey(),
+  symbol: text('symbol').notNull(),
+  timestamp: timestamp('timestamp', { precision: 3, withTimezone: true }).notNull(),
+  bid: numeric('bid', { precision: 12, scale: 4 }).notNull(),
+  ask: numeric('ask', { precision: 12, scale: 4 }).notNull(),
+  bid_size: integer('bid_size').notNull(),
+  ask_size: integer('ask_size').notNull(),
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  symbolTimestampIdx: uniqueIndex('quotes_symbol_timestamp_idx').on(table.symbol, table.timestamp),
+}));
+
+// Queued provider fetches, one symbol per job. Workers claim queued jobs whose
+// run_after has passed with FOR UPDATE SKIP LOCKED; failed attempts are
+// requeued with exponential backoff until max_attempts is reached.
+export const ingestJobsTable = pgTable('ingest_jobs', {
+  id: serial('id').primaryKey(),
+  batch_id: text('batch_id').notNull(), // shared by jobs enqueued together
+  symbol: text('symbol').notNull(),
+  interval: intervalEnum('interval').notNull(),
+  period: text('period').$type<Period>().notNull(),
+  status: ingestJobStatusEnum('status').default('queued').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  max_attempts: integer('max_attempts').default(5).notNull(),
+  run_after: timestamp('run_after', { withTimezone: true }).defaultNow().notNull(), // earliest time of the next attempt
+  last_error: text('last_error'),
+  bars_inserted: integer('bars_inserted'), // counts from the successful attempt
+  bars_updated: integer('bars_updated'),
+  bars_unchanged: integer('bars_unchanged'),
+  bars_quarantined: integer('bars_quarantined'), // held back by validation for review
+  started_at: timestamp('started_at', { withTimezone: true }), // when the current or last attempt was claimed
+  finished_at: timestamp('finished_at', { withTimezone: true }),
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  statusRunAfterIdx: index('ingest_jobs_status_run_after_idx').on(table.status, table.run_after),
+  batchIdx: index('ingest_jobs_batch_idx').on(table.batch_id),
+}));
+
+// Recurring fetches run by the in-process scheduler. The cron expression is in
+// New York time; runs falling outside the schedule's session are skipped.
+export const schedulesTable = pgTable('schedules', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  cron: text('cron').notNull(),
+  session: sessionFilterEnum('session').default('all').notNull(), // only run while the market is in this session
+  symbols: text('symbols').array(), // null means every active symbol
+  interval: intervalEnum('interval').notNull(),
+  period: text('period').$type<Period>().notNull(),
+  enabled: boolean('enabled').default(true).notNull(),
+  next_run_at: timestamp('next_run_at', { withTimezone: true }).notNull(),
+  last_run_at: timestamp('last_run_at', { withTimezone: true }),
+  last_status: scheduleRunStatusEnum('last_status'),
+  last_error: text('last_error'),
+  created_at: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  nextRunIdx: index('schedules_next_run_idx').on(table.enabled, table.next_run_at),
 }));
 
 // TypeScript types for the table schema
+export type TrackedSymbol = typeof symbolsTable.$inferSelect;
+export type NewTrackedSymbol = typeof symbolsTable.$inferInsert;
 export type StockTick = typeof stockTicksTable.$inferSelect;
 export type NewStockTick = typeof stockTicksTable.$inferInsert;
+export type Trade = typeof tradesTable.$inferSelect;
+export type NewTrade = typeof tradesTable.$inferInsert;
+export type Quote = typeof quotesTable.$inferSelect;
+export type NewQuote = typeof quotesTable.$inferInsert;
+export type IngestJob = typeof ingestJobsTable.$inferSelect;
+export type NewIngestJob = typeof ingestJobsTable.$inferInsert;
+export type QuarantinedTick = typeof quarantinedTicksTable.$inferSelect;
+export type NewQuarantinedTick = typeof quarantinedTicksTable.$inferInsert;
+export type Schedule = typeof schedulesTable.$inferSelect;
+export type NewSchedule = typeof schedulesTable.$inferInsert;
 
 // Export all tables for proper query building
 export const tables = { 
-  stockTicks: stockTicksTable 
+  symbols: symbolsTable,
+  stockTicks: stockTicksTable,
+  stockTickRevisions: stockTickRevisionsTable,
+  quarantinedTicks: quarantinedTicksTable,
+  trades: tradesTable,
+  quotes: quotesTable,
+  ingestJobs: ingestJobsTable,
+  schedules: schedulesTable
 };
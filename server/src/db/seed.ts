@@ -0,0 +1,23 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { db } from '.';
+import { symbolsTable } from './schema';
+import { DEFAULT_SYMBOLS } from '../schema';
+import { parseSymbolMetadataCsv } from '../handlers/import_symbol_metadata';
+
+// Reference data for the default symbols
+const DEFAULT_METADATA_CSV = join(import.meta.dir, 'symbol_metadata.csv');
+
+// Track the default symbols on a fresh database. Existing rows (including
+// deactivated ones) are left untouched.
+export const seedDefaultSymbols = async () => {
+  const metadata = parseSymbolMetadataCsv(await readFile(DEFAULT_METADATA_CSV, 'utf8'));
+
+  for (const symbol of DEFAULT_SYMBOLS) {
+    const record = metadata.find(m => m.symbol === symbol);
+    await db.insert(symbolsTable)
+      .values(record ? { ...record, tick_size: record.tick_size.toString() } : { symbol })
+      .onConflictDoNothing()
+      .execute();
+  }
+};
@@ -0,0 +1,18 @@
+import { stockTicksTable } from './schema';
+import { type BarSource } from './bar_history';
+import { type SessionFilter } from '../schema';
+import { eq, isNotNull, type SQL } from 'drizzle-orm';
+
+// Condition limiting stock_ticks to the sessions `filter` asks for, or
+// undefined when every stored bar is wanted. Extended hours are regular plus
+// pre- and post-market; bars outside them have no session.
+export const sessionCondition = (filter: SessionFilter, ticks: BarSource = stockTicksTable): SQL<unknown> | undefined => {
+  switch (filter) {
+    case 'regular':
+      return eq(ticks.session, 'regular');
+    case 'extended':
+      return isNotNull(ticks.session);
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import { type AddSymbolInput, type TrackedSymbol } from '../schema';
+
+export const addSymbol = async (input: AddSymbolInput): Promise<TrackedSymbol> => {
+  try {
+    // Insert the symbol, or reactivate it if it was previously deactivated
+    const result = await db.insert(symbolsTable)
+      .values({ symbol: input.symbol })
+      .onConflictDoUpdate({
+        target: symbolsTable.symbol,
+        set: { is_active: true }
+      })
+      .returning()
+      .execute();
+
+    // Convert numeric fields back to numbers
+    return {
+      ...result[0],
+      tick_size: parseFloat(result[0].tick_size)
+    };
+  } catch (error) {
+    console.error('Symbol creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { stockTicksTable, tradesTable } from '../db/schema';
+import { publishBars } from '../db/bar_events';
+import { recordRevisions } from '../db/bar_history';
+import { WRITE_CHUNK_SIZE } from '../db/bar_writer';
+import { type AggregateTradesInput, type StockTick } from '../schema';
+import { aggregateTrades as buildBars } from '../aggregation/trade_bars';
+import { alignToBar, canonicalInterval, getBarSession, isBarFinal, nextBarStart } from '../intervals';
+import { eq, gte, lt, and, asc, type SQL } from 'drizzle-orm';
+
+// Rebuild stored bars for a symbol and interval from its trade prints. The
+// start of the range is rounded down and the end up to a bar boundary so the
+// first and last bars are complete; every stored bar starting inside the range is replaced, so bars
+// from a provider are superseded by the trade-derived ones. Both the new bars
+// and the removal of replaced bars without a successor are kept as revisions.
+export const aggregateTrades = async (input: AggregateTradesInput): Promise<StockTick[]> => {
+  try {
+    const interval = canonicalInterval(input.interval);
+    const rangeStart = input.startDate ? new Date(alignToBar(input.startDate.getTime(), interval)) : undefined;
+    const endMs = input.endDate?.getTime();
+    const rangeEnd = endMs === undefined ? undefined
+      : new Date(alignToBar(endMs, interval) === endMs ? endMs : nextBarStart(endMs, interval));
+
+    const conditions: SQL<unknown>[] = [eq(tradesTable.symbol, input.symbol)];
+    if (rangeStart) {
+      conditions.push(gte(tradesTable.timestamp, rangeStart));
+    }
+    if (rangeEnd) {
+      conditions.push(lt(tradesTable.timestamp, rangeEnd));
+    }
+
+    const trades = await db.select()
+      .from(tradesTable)
+      .where(and(...conditions))
+      .orderBy(asc(tradesTable.timestamp), asc(tradesTable.id))
+      .execute();
+
+    if (trades.length === 0) {
+      return [];
+    }
+
+    const bars = buildBars(trades.map(trade => ({
+      timestamp: trade.timestamp,
+      price: parseFloat(trade.price),
+      size: trade.size
+    })), interval);
+
+    const replaceFrom = rangeStart ?? new Date(bars[0].timestamp * 1000);
+    const replaceTo = rangeEnd ?? new Date(trades[trades.length - 1].timestamp.getTime() + 1);
+
+    const result = await db.transaction(async (tx) => {
+      const replaced = await tx.delete(stockTicksTable)
+        .where(and(
+          eq(stockTicksTable.symbol, input.symbol),
+          eq(stockTicksTable.interval, interval),
+          gte(stockTicksTable.timestamp, replaceFrom),
+          lt(stockTicksTable.timestamp, replaceTo)
+        ))
+        .returning()
+        .execute();
+
+      const rows = bars.map(bar => ({
+        symbol: input.symbol,
+        timestamp: new Date(bar.timestamp * 1000),
+        open: bar.open.toString(),
+        high: bar.high.toString(),
+        low: bar.low.toString(),
+        close: bar.close.toString(),
+        volume: bar.volume,
+        interval,
+        session: getBarSession(bar.timestamp * 1000, interval),
+        is_final: isBarFinal(bar.timestamp * 1000, interval),
+        source: 'trades'
+      }));
+      // Chunked like writeBars to stay under Postgres' bind parameter limit
+      const inserted: (typeof stockTicksTable.$inferSelect)[] = [];
+      for (let i = 0; i < rows.length; i += WRITE_CHUNK_SIZE) {
+        inserted.push(...await tx.insert(stockTicksTable)
+          .values(rows.slice(i, i + WRITE_CHUNK_SIZE))
+          .returning()
+          .execute());
+      }
+
+      const recordedAt = new Date();
+      const rebuilt = new Set(inserted.map(row => row.timestamp.getTime()));
+      await recordRevisions(tx, inserted, recordedAt);
+      await recordRevisions(tx, replaced.filter(row => !rebuilt.has(row.timestamp.getTime())), recordedAt, true);
+      return inserted;
+    });
+
+    console.log(`Aggregated ${trades.length} trades into ${result.length} ${interval} bars for ${input.symbol}`);
+    const ticks = result.map(tick => ({
+      ...tick,
+      open: parseFloat(tick.open),
+      high: parseFloat(tick.high),
+      low: parseFloat(tick.low),
+      close: parseFloat(tick.close)
+    }));
+    publishBars({ symbol: input.symbol, interval, bars: ticks });
+    return ticks;
+  } catch (error) {
+    console.error('Trade aggregation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { ingestBars } from '../db/quarantine';
+import { type BackfillResult, type GapRangeInput } from '../schema';
+import { alignToBar } from '../intervals';
+import { fetchBarsForIngest } from '../providers/ingest';
+import { findGaps } from './find_gaps';
+import { randomUUID } from 'node:crypto';
+
+// Fetch only the missing bars found by findGaps, one provider request per
+// gap. Bars the provider returns outside a gap are dropped so stored bars are
+// left alone, and a failed gap is counted rather than aborting the rest.
+export const backfillGaps = async (input: GapRangeInput): Promise<BackfillResult> => {
+  try {
+    const report = await findGaps(input);
+    const ingestRunId = randomUUID();
+    const result: BackfillResult = {
+      symbol: input.symbol,
+      interval: report.interval,
+      gaps: report.gaps.length,
+      inserted: 0,
+      failed: 0,
+      remaining: report.missing
+    };
+
+    for (const gap of report.gaps) {
+      try {
+        const { bars, provenance } = await fetchBarsForIngest({
+          symbol: input.symbol,
+          interval: report.interval,
+          period: input.period,
+          start: gap.start,
+          end: gap.end
+        }, ingestRunId);
+
+        const holes = bars.filter(bar => {
+          const barStart = bar.timestamp * 1000;
+          return barStart >= gap.start.getTime() && barStart < gap.end.getTime()
+            && alignToBar(barStart, report.interval) === barStart;
+        });
+        if (holes.length === 0) continue;
+
+        const written = await ingestBars(input.symbol, report.interval, holes, provenance);
+        result.inserted += written.inserted;
+      } catch (error) {
+        console.error(`Backfill of ${input.symbol} ${report.interval} gap at ${gap.start.toISOString()} failed:`, error);
+        result.failed++;
+      }
+    }
+
+    if (report.gaps.length > 0) {
+      result.remaining = (await findGaps({ ...input, startDate: report.start, endDate: report.end })).missing;
+    }
+
+    console.log(`Backfilled ${result.inserted} of ${report.missing} missing ${report.interval} bars for ${input.symbol} (${result.remaining} remaining)`);
+    return result;
+  } catch (error) {
+    console.error('Gap backfill failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { schedulesTable } from '../db/schema';
+import { type CreateScheduleInput, type Schedule } from '../schema';
+import { nextCronTime } from '../jobs/cron';
+
+export const createSchedule = async (input: CreateScheduleInput): Promise<Schedule> => {
+  try {
+    const [schedule] = await db.insert(schedulesTable)
+      .values({
+        name: input.name,
+        cron: input.cron,
+        session: input.session,
+        symbols: input.symbols,
+        interval: input.interval,
+        period: input.period,
+        enabled: input.enabled,
+        next_run_at: nextCronTime(input.cron, new Date())
+      })
+      .returning()
+      .execute();
+
+    return schedule;
+  } catch (error) {
+    console.error('Schedule creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import { type DeactivateSymbolInput, type TrackedSymbol } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const deactivateSymbol = async (input: DeactivateSymbolInput): Promise<TrackedSymbol> => {
+  try {
+    // Stored ticks are kept; the symbol just drops out of pickers and fetches
+    const result = await db.update(symbolsTable)
+      .set({ is_active: false })
+      .where(eq(symbolsTable.symbol, input.symbol))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Symbol ${input.symbol} is not tracked`);
+    }
+
+    // Convert numeric fields back to numbers
+    return {
+      ...result[0],
+      tick_size: parseFloat(result[0].tick_size)
+    };
+  } catch (error) {
+    console.error('Symbol deactivation failed:', error);
+    throw error;
+  }
+};
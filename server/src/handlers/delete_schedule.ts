@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { schedulesTable } from '../db/schema';
+import { type DeleteScheduleInput, type Schedule } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const deleteSchedule = async (input: DeleteScheduleInput): Promise<Schedule> => {
+  try {
+    const result = await db.delete(schedulesTable)
+      .where(eq(schedulesTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Schedule ${input.id} does not exist`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Schedule deletion failed:', error);
+    throw error;
+  }
+};
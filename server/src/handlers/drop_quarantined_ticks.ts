@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { quarantinedTicksTable } from '../db/schema';
+import { type QuarantinedTick, type ReviewQuarantinedTicksInput } from '../schema';
+import { and, eq, inArray } from 'drizzle-orm';
+
+// Reject pending quarantined bars for good. They stay in quarantined_ticks
+// as dropped; ids that aren't pending are ignored.
+export const dropQuarantinedTicks = async (input: ReviewQuarantinedTicksInput): Promise<QuarantinedTick[]> => {
+  try {
+    return await db.update(quarantinedTicksTable)
+      .set({ status: 'dropped', reviewed_at: new Date() })
+      .where(and(inArray(quarantinedTicksTable.id, input.ids), eq(quarantinedTicksTable.status, 'pending')))
+      .returning()
+      .execute();
+  } catch (error) {
+    console.error('Quarantine drop failed:', error);
+    throw error;
+  }
+};
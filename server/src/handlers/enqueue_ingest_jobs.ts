@@ -0,0 +1,13 @@
+import { enqueueIngestJobs as enqueue } from '../jobs/queue';
+import { type EnqueueIngestJobsInput, type IngestBatch } from '../schema';
+
+// Queue a background fetch per symbol and return at once; the ingest worker
+// runs the jobs and getIngestJobs reports their progress
+export const enqueueIngestJobs = async (input: EnqueueIngestJobsInput): Promise<IngestBatch> => {
+  try {
+    return await enqueue(input);
+  } catch (error) {
+    console.error('Queueing ingest jobs failed:', error);
+    throw error;
+  }
+};
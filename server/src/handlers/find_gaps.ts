@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { stockTicksTable } from '../db/schema';
+import { type BarGap, type GapRangeInput, type GapReport } from '../schema';
+import { canonicalInterval, expectedBarStarts, nextBarStart, resolvePeriod } from '../intervals';
+import { eq, gte, lt, and } from 'drizzle-orm';
+
+// Compare the bars stored for a symbol and interval against the regular-session
+// bars the trading calendar expects in the range, and group the missing ones
+// into gaps of consecutive expected bars. Stored bars outside the expected set
+// (extended hours, stray timestamps) are ignored.
+export const findGaps = async (input: GapRangeInput): Promise<GapReport> => {
+  try {
+    const interval = canonicalInterval(input.interval);
+    const { start, end } = input.startDate
+      ? { start: input.startDate, end: input.endDate ?? new Date() }
+      : resolvePeriod(input.period, input.endDate);
+
+    const expected = expectedBarStarts(interval, start, end);
+
+    const stored = await db.select({ timestamp: stockTicksTable.timestamp })
+      .from(stockTicksTable)
+      .where(and(
+        eq(stockTicksTable.symbol, input.symbol),
+        eq(stockTicksTable.interval, interval),
+        gte(stockTicksTable.timestamp, start),
+        lt(stockTicksTable.timestamp, end)
+      ))
+      .execute();
+    const storedStarts = new Set(stored.map(row => row.timestamp.getTime()));
+
+    const gaps: BarGap[] = [];
+    let present = 0;
+    let previousMissing = false;
+    for (const barStart of expected) {
+      if (storedStarts.has(barStart)) {
+        present++;
+        previousMissing = false;
+        continue;
+      }
+
+      const barEnd = new Date(nextBarStart(barStart, interval));
+      const current = gaps[gaps.length - 1];
+      if (previousMissing && current) {
+        current.end = barEnd;
+        current.missing++;
+      } else {
+        gaps.push({ start: new Date(barStart), end: barEnd, missing: 1 });
+      }
+      previousMissing = true;
+    }
+
+    return {
+      symbol: input.symbol,
+      interval,
+      start,
+      end,
+      expected: expected.length,
+      present,
+      missing: expected.length - present,
+      gaps
+    };
+  } catch (error) {
+    console.error('Gap detection failed:', error);
+    throw error;
+  }
+};
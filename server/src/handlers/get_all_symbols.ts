@@ -1,7 +1,8 @@
-
 import { type StockSymbol } from '../schema';
+import { listSymbols } from './list_symbols';
 
 export const getAllSymbols = async (): Promise<StockSymbol[]> => {
-  // Return all available stock symbols from the enum
-  return ['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA'];
+  // Return all active symbols from the tracked symbol universe
+  const symbols = await listSymbols({ includeInactive: false });
+  return symbols.map(s => s.symbol);
 };
@@ -1,138 +1,97 @@
 
 import { db } from '../db';
-import { stockTicksTable } from '../db/schema';
-import { type GetHistoricalDataInput, type ChartDataResponse, type YahooFinanceData } from '../schema';
+import { sessionCondition } from '../db/session_filter';
+import { barSource } from '../db/bar_history';
+import { ingestBars } from '../db/quarantine';
+import { type GetHistoricalDataInput, type ChartDataResponse } from '../schema';
+import { fetchBarsForIngest } from '../providers/ingest';
+import { loadDerivedBars } from '../aggregation/derived_bars';
+import { canonicalInterval } from '../intervals';
 import { eq, gte, lte, desc, and, type SQL } from 'drizzle-orm';
-
-// Simulated Yahoo Finance API call
-// In a real implementation, this would use a library like axios or node-fetch
-const fetchFromYahooFinance = async (symbol: string, interval: string, period: string): Promise<YahooFinanceData[]> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-  
-  // Simulate Yahoo Finance API response
-  // In real implementation, this would be:
-  // const response = await fetch(`https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=${interval}&period=${period}`);
-  // const data = await response.json();
-  
-  const now = Date.now();
-  const intervalMs = interval === '1m' ? 60000 : interval === '5m' ? 300000 : 3600000; // 1min, 5min, or 1hour
-  
-  // Use deterministic data for consistent testing
-  const basePrice = symbol === 'AAPL' ? 150 : symbol === 'META' ? 300 : 100;
-  
-  // Generate simulated OHLCV data with deterministic values
-  const mockData: YahooFinanceData[] = [];
-  for (let i = 0; i < 10; i++) {
-    const timestamp = now - (i * intervalMs);
-    // Use deterministic price movements based on index
-    const priceOffset = (i % 3) - 1; // -1, 0, 1 pattern
-    const open = basePrice + priceOffset;
-    const close = open + (i % 2 === 0 ? 0.5 : -0.5);
-    const high = Math.max(open, close) + 0.25;
-    const low = Math.min(open, close) - 0.25;
-    const volume = 100000 + (i * 10000); // Deterministic volume
-    
-    mockData.push({
-      timestamp: Math.floor(timestamp / 1000), // Yahoo Finance uses seconds
-      open: parseFloat(open.toFixed(2)),
-      high: parseFloat(high.toFixed(2)),
-      low: parseFloat(low.toFixed(2)),
-      close: parseFloat(close.toFixed(2)),
-      volume
-    });
-  }
-  
-  return mockData.reverse(); // Return in chronological order
-};
-
-// Transform Yahoo Finance data to our StockTick format
-const transformYahooData = (yahooData: YahooFinanceData[], symbol: string, interval: string) => {
-  return yahooData.map(tick => ({
-    symbol: symbol as any, // Type assertion for enum
-    timestamp: new Date(tick.timestamp * 1000), // Convert seconds to milliseconds
-    open: tick.open.toString(), // Convert to string for numeric column
-    high: tick.high.toString(),
-    low: tick.low.toString(),
-    close: tick.close.toString(),
-    volume: tick.volume,
-    interval: interval as any // Type assertion for enum
-  }));
-};
-
-// Upsert stock ticks into database
-const upsertStockTicks = async (ticks: any[]) => {
-  if (ticks.length === 0) return;
-  
-  try {
-    // In a real implementation, we would use ON CONFLICT for upsert
-    // For now, we'll use insert and handle duplicates
-    for (const tick of ticks) {
-      try {
-        await db.insert(stockTicksTable)
-          .values(tick)
-          .execute();
-      } catch (error) {
-        // Ignore duplicate key errors, log others
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        if (!errorMessage.includes('duplicate') && !errorMessage.includes('unique')) {
-          console.error('Error inserting tick:', error);
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Batch upsert failed:', error);
-    throw error;
-  }
-};
+import { randomUUID } from 'node:crypto';
 
 export const getChartData = async (input: GetHistoricalDataInput): Promise<ChartDataResponse> => {
   try {
     // Collect conditions for filtering
     const conditions: SQL<unknown>[] = [];
+    const ticks = barSource(input.asOf);
 
     // Filter by symbol if provided
     if (input.symbol) {
-      conditions.push(eq(stockTicksTable.symbol, input.symbol));
+      conditions.push(eq(ticks.symbol, input.symbol));
     }
 
     // Filter by interval
-    conditions.push(eq(stockTicksTable.interval, input.interval));
+    conditions.push(eq(ticks.interval, canonicalInterval(input.interval)));
+
+    // Filter by trading session
+    const sessionFilter = sessionCondition(input.session, ticks);
+    if (sessionFilter) {
+      conditions.push(sessionFilter);
+    }
+
+    // Leave out the forming bar when asked
+    if (input.finalOnly) {
+      conditions.push(eq(ticks.is_final, true));
+    }
 
     // Filter by date range if provided
     if (input.startDate) {
-      conditions.push(gte(stockTicksTable.timestamp, input.startDate));
+      conditions.push(gte(ticks.timestamp, input.startDate));
     }
 
     if (input.endDate) {
-      conditions.push(lte(stockTicksTable.timestamp, input.endDate));
+      conditions.push(lte(ticks.timestamp, input.endDate));
     }
 
     // Build and execute query
     const results = await db.select()
-      .from(stockTicksTable)
+      .from(ticks)
       .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      .orderBy(desc(stockTicksTable.timestamp))
+      .orderBy(desc(ticks.timestamp))
       .limit(input.limit)
       .execute();
 
-    // If no data found and symbol is specified, try to fetch from Yahoo Finance
-    if (results.length === 0 && input.symbol) {
+    // Prefer rolling up finer stored bars over fetching
+    if (results.length === 0) {
+      const derived = await loadDerivedBars(input);
+      if (derived.length > 0) {
+        return {
+          symbol: input.symbol || derived[0].symbol,
+          interval: input.interval,
+          data: derived.map(tick => ({
+            timestamp: tick.timestamp,
+            open: tick.open,
+            high: tick.high,
+            low: tick.low,
+            close: tick.close,
+            volume: tick.volume,
+            session: tick.session,
+            is_final: tick.is_final
+          })),
+          derived: true,
+          sourceInterval: derived[0].source_interval ?? input.interval
+        };
+      }
+    }
+
+    // If no data found and symbol is specified, try to fetch from Yahoo Finance;
+    // the past can't be fetched, so as-of queries return what was stored
+    if (results.length === 0 && input.symbol && !input.asOf) {
       try {
         console.log(`No local data found for ${input.symbol}, fetching from Yahoo Finance...`);
         
-        // Fetch data from Yahoo Finance
-        const yahooData = await fetchFromYahooFinance(input.symbol, input.interval, '1d');
+        // Fetch data from the symbol's providers, falling back in order
+        const { bars: yahooData, provenance } = await fetchBarsForIngest({ symbol: input.symbol, interval: input.interval, period: '1d' }, randomUUID());
         
-        // Transform and upsert the data
-        const transformedTicks = transformYahooData(yahooData, input.symbol, input.interval);
-        await upsertStockTicks(transformedTicks);
+        // Upsert only the most recent bars the chart can show
+        await ingestBars(input.symbol, input.interval, yahooData.slice(-input.limit), provenance);
         
         // Re-query the database to get the inserted data
         const newResults = await db.select()
-          .from(stockTicksTable)
+          .from(ticks)
           .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-          .orderBy(desc(stockTicksTable.timestamp))
+          .orderBy(desc(ticks.timestamp))
           .limit(input.limit)
           .execute();
         
@@ -143,13 +102,17 @@ export const getChartData = async (input: GetHistoricalDataInput): Promise<Chart
           high: parseFloat(tick.high),
           low: parseFloat(tick.low),
           close: parseFloat(tick.close),
-          volume: tick.volume
+          volume: tick.volume,
+          session: tick.session,
+          is_final: tick.is_final
         }));
 
         return {
           symbol: input.symbol,
           interval: input.interval,
-          data: chartData
+          data: chartData,
+          derived: false,
+          sourceInterval: input.interval
         };
       } catch (fetchError) {
         console.error('Failed to fetch from Yahoo Finance:', fetchError);
@@ -162,7 +125,9 @@ export const getChartData = async (input: GetHistoricalDataInput): Promise<Chart
       return {
         symbol: input.symbol || 'AAPL', // Default to AAPL if no symbol specified
         interval: input.interval,
-        data: []
+        data: [],
+        derived: false,
+        sourceInterval: input.interval
       };
     }
 
@@ -173,7 +138,9 @@ export const getChartData = async (input: GetHistoricalDataInput): Promise<Chart
       high: parseFloat(tick.high),
       low: parseFloat(tick.low),
       close: parseFloat(tick.close),
-      volume: tick.volume
+      volume: tick.volume,
+      session: tick.session,
+      is_final: tick.is_final
     }));
 
     // Use the symbol from the first result or the input symbol
@@ -182,7 +149,9 @@ export const getChartData = async (input: GetHistoricalDataInput): Promise<Chart
     return {
       symbol: responseSymbol,
       interval: input.interval,
-      data: chartData
+      data: chartData,
+      derived: false,
+      sourceInterval: input.interval
     };
   } catch (error) {
     console.error('Chart data retrieval failed:', error);
@@ -0,0 +1,145 @@
+import { db } from '../db';
+import { stockTicksTable } from '../db/schema';
+import { intervalSchema, type CoverageDay, type GetCoverageInput, type Interval, type SeriesCoverage } from '../schema';
+import { canonicalInterval, expectedBarStarts, isIntraday } from '../intervals';
+import { localDay, localDayStart } from '../calendar';
+import { and, count, eq, inArray, max, min, sql, type SQL } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// New York trading date of a stored bar, as YYYY-MM-DD
+const barDate = sql<string>`to_char((${stockTicksTable.timestamp} AT TIME ZONE 'America/New_York')::date, 'YYYY-MM-DD')`;
+
+const formatDay = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+const parseDay = (date: string): number => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+
+// Expected bar starts per local day from `firstDay` through `lastDay`, up to
+// `now`. Intraday bars are listed a day at a time so long histories of
+// minute bars stay within expectedBarStarts' limit.
+const expectedByDay = (interval: Interval, firstDay: number, lastDay: number, now: number): Map<number, number[]> => {
+  const byDay = new Map<number, number[]>();
+  const end = Math.min(localDayStart(lastDay + 1), now);
+  if (isIntraday(interval)) {
+    for (let day = firstDay; day <= lastDay; day++) {
+      const dayEnd = Math.min(localDayStart(day + 1), end);
+      if (dayEnd <= localDayStart(day)) break;
+      byDay.set(day, expectedBarStarts(interval, new Date(localDayStart(day)), new Date(dayEnd)));
+    }
+    return byDay;
+  }
+
+  for (const barStart of expectedBarStarts(interval, new Date(localDayStart(firstDay)), new Date(end))) {
+    const day = localDay(barStart);
+    byDay.set(day, [...(byDay.get(day) ?? []), barStart]);
+  }
+  return byDay;
+};
+
+// Summarize stored bars per symbol and interval: their extent, how many of the
+// regular-session bars the trading calendar expects are present, how many runs
+// of missing bars there are and how complete each trading date is. Counts come
+// from one grouped query per date; only partially filled dates load timestamps.
+export const getCoverage = async (input: GetCoverageInput): Promise<SeriesCoverage[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+    if (input.symbol) {
+      conditions.push(eq(stockTicksTable.symbol, input.symbol));
+    }
+    if (input.interval) {
+      conditions.push(eq(stockTicksTable.interval, canonicalInterval(input.interval)));
+    }
+
+    const rows = await db.select({
+      symbol: stockTicksTable.symbol,
+      interval: stockTicksTable.interval,
+      date: barDate,
+      bars: count(),
+      regular: sql<number>`count(*) filter (where ${stockTicksTable.session} = 'regular')`.mapWith(Number),
+      first: min(stockTicksTable.timestamp),
+      last: max(stockTicksTable.timestamp),
+      // Re-ingests update bars in place, so created_at alone goes stale
+      lastIngest: sql<Date>`max(coalesce(${stockTicksTable.fetched_at}, ${stockTicksTable.created_at}))`.mapWith(stockTicksTable.created_at)
+    })
+      .from(stockTicksTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(stockTicksTable.symbol, stockTicksTable.interval, barDate)
+      .orderBy(stockTicksTable.symbol, barDate)
+      .execute();
+
+    const series = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const key = `${row.symbol} ${row.interval}`;
+      series.set(key, [...(series.get(key) ?? []), row]);
+    }
+
+    const now = Date.now();
+    const result: SeriesCoverage[] = [];
+    for (const days of series.values()) {
+      const { symbol, interval } = days[0];
+      const firstDay = parseDay(days[0].date);
+      const lastDay = parseDay(days[days.length - 1].date);
+      const expected = expectedByDay(interval, firstDay, lastDay, now);
+      const storedByDay = new Map(days.map(row => [parseDay(row.date), row]));
+
+      // Dates with some but not all expected bars need their timestamps
+      const partial = [...expected.entries()]
+        .filter(([day, starts]) => {
+          const regular = storedByDay.get(day)?.regular ?? 0;
+          return regular > 0 && regular < starts.length;
+        })
+        .map(([day]) => formatDay(day));
+      const stored = partial.length === 0 ? [] : await db.select({ timestamp: stockTicksTable.timestamp })
+        .from(stockTicksTable)
+        .where(and(
+          eq(stockTicksTable.symbol, symbol),
+          eq(stockTicksTable.interval, interval),
+          inArray(barDate, partial)
+        ))
+        .execute();
+      const storedStarts = new Set(stored.map(row => row.timestamp.getTime()));
+
+      const coverageDays: CoverageDay[] = [];
+      let presentCount = 0;
+      let gapCount = 0;
+      let inGap = false;
+      for (let day = firstDay; day <= lastDay; day++) {
+        const starts = expected.get(day) ?? [];
+        if (starts.length === 0) continue;
+
+        const regular = storedByDay.get(day)?.regular ?? 0;
+        let present = 0;
+        for (const barStart of starts) {
+          const isPresent = regular >= starts.length || (regular > 0 && storedStarts.has(barStart));
+          if (isPresent) {
+            present++;
+          } else if (!inGap) {
+            gapCount++;
+          }
+          inGap = !isPresent;
+        }
+        presentCount += present;
+        coverageDays.push({ date: formatDay(day), expected: starts.length, present });
+      }
+
+      result.push({
+        symbol,
+        interval,
+        firstTimestamp: days.reduce((first, row) => row.first! < first ? row.first! : first, days[0].first!),
+        lastTimestamp: days.reduce((last, row) => row.last! > last ? row.last! : last, days[0].last!),
+        barCount: days.reduce((sum, row) => sum + row.bars, 0),
+        expectedCount: coverageDays.reduce((sum, day) => sum + day.expected, 0),
+        presentCount,
+        gapCount,
+        lastIngest: days.reduce((last, row) => row.lastIngest! > last ? row.lastIngest! : last, days[0].lastIngest!),
+        days: coverageDays
+      });
+    }
+
+    // Symbols alphabetically, then intervals from finest to coarsest
+    return result.sort((a, b) => a.symbol.localeCompare(b.symbol)
+      || intervalSchema.options.indexOf(a.interval) - intervalSchema.options.indexOf(b.interval));
+  } catch (error) {
+    console.error('Coverage report failed:', error);
+    throw error;
+  }
+};
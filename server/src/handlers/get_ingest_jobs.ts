@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { ingestJobsTable } from '../db/schema';
+import { type GetIngestJobsInput, type IngestJob } from '../schema';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+
+export const getIngestJobs = async (input: GetIngestJobsInput): Promise<IngestJob[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+    if (input.batchId) {
+      conditions.push(eq(ingestJobsTable.batch_id, input.batchId));
+    }
+    if (input.status) {
+      conditions.push(eq(ingestJobsTable.status, input.status));
+    }
+
+    return await db.select()
+      .from(ingestJobsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(ingestJobsTable.created_at), desc(ingestJobsTable.id))
+      .limit(input.limit)
+      .execute();
+  } catch (error) {
+    console.error('Ingest job retrieval failed:', error);
+    throw error;
+  }
+};
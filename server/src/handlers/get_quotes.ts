@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { quotesTable } from '../db/schema';
+import { type GetQuotesInput, type Quote } from '../schema';
+import { eq, gte, lte, and, desc, type SQL } from 'drizzle-orm';
+
+export const getQuotes = async (input: GetQuotesInput): Promise<Quote[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [eq(quotesTable.symbol, input.symbol)];
+
+    if (input.startDate) {
+      conditions.push(gte(quotesTable.timestamp, input.startDate));
+    }
+
+    if (input.endDate) {
+      conditions.push(lte(quotesTable.timestamp, input.endDate));
+    }
+
+    // Most recent quotes first, like historical bars
+    const results = await db.select()
+      .from(quotesTable)
+      .where(and(...conditions))
+      .orderBy(desc(quotesTable.timestamp))
+      .limit(input.limit)
+      .execute();
+
+    return results.map(quote => ({
+      ...quote,
+      bid: parseFloat(quote.bid),
+      ask: parseFloat(quote.ask)
+    }));
+  } catch (error) {
+    console.error('Quote retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { tradesTable } from '../db/schema';
+import { type GetTradesInput, type Trade } from '../schema';
+import { eq, gte, lte, and, desc, type SQL } from 'drizzle-orm';
+
+export const getTrades = async (input: GetTradesInput): Promise<Trade[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [eq(tradesTable.symbol, input.symbol)];
+
+    if (input.startDate) {
+      conditions.push(gte(tradesTable.timestamp, input.startDate));
+    }
+
+    if (input.endDate) {
+      conditions.push(lte(tradesTable.timestamp, input.endDate));
+    }
+
+    // Most recent prints first; id breaks ties between prints in the same millisecond
+    const results = await db.select()
+      .from(tradesTable)
+      .where(and(...conditions))
+      .orderBy(desc(tradesTable.timestamp), desc(tradesTable.id))
+      .limit(input.limit)
+      .execute();
+
+    return results.map(trade => ({
+      ...trade,
+      price: parseFloat(trade.price)
+    }));
+  } catch (error) {
+    console.error('Trade retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,144 @@
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import {
+  symbolMetadataSchema,
+  type ImportSymbolMetadataInput,
+  type SymbolMetadata,
+  type TrackedSymbol
+} from '../schema';
+import { sql } from 'drizzle-orm';
+
+// Split CSV text into rows of fields, honouring double-quoted fields that
+// contain commas, newlines or escaped ("") quotes
+const parseCsvRows = (csv: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Parse and validate symbol reference data. Empty cells fall back to the
+// schema defaults. Throws listing every invalid line, including any line
+// repeating an earlier symbol.
+export const parseSymbolMetadataCsv = (csv: string): SymbolMetadata[] => {
+  const [header, ...rows] = parseCsvRows(csv);
+  if (!header) {
+    throw new Error('Symbol metadata CSV is empty');
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  if (!columns.includes('symbol')) {
+    throw new Error('Symbol metadata CSV must have a "symbol" column');
+  }
+
+  const records: SymbolMetadata[] = [];
+  const errors: string[] = [];
+  const lineBySymbol = new Map<string, number>();
+
+  rows.forEach((values, index) => {
+    const raw: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      const value = values[i]?.trim();
+      if (value) raw[column] = value;
+    });
+
+    const parsed = symbolMetadataSchema.safeParse(raw);
+    // +2 for the header row and 1-based line numbers
+    const line = index + 2;
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      errors.push(`line ${line}: ${issues}`);
+      return;
+    }
+
+    const firstLine = lineBySymbol.get(parsed.data.symbol);
+    if (firstLine !== undefined) {
+      errors.push(`line ${line}: symbol ${parsed.data.symbol} repeats line ${firstLine}`);
+      return;
+    }
+    lineBySymbol.set(parsed.data.symbol, line);
+    records.push(parsed.data);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid symbol metadata CSV (${errors.join(', ')})`);
+  }
+
+  return records;
+};
+
+export const importSymbolMetadata = async (input: ImportSymbolMetadataInput): Promise<TrackedSymbol[]> => {
+  try {
+    const records = parseSymbolMetadataCsv(input.csv);
+    if (records.length === 0) {
+      return [];
+    }
+
+    // Upsert all rows at once; imported symbols become (or stay) active
+    const result = await db.insert(symbolsTable)
+      .values(records.map(record => ({
+        ...record,
+        tick_size: record.tick_size.toString()
+      })))
+      .onConflictDoUpdate({
+        target: symbolsTable.symbol,
+        set: {
+          name: sql`excluded.name`,
+          exchange_mic: sql`excluded.exchange_mic`,
+          currency: sql`excluded.currency`,
+          timezone: sql`excluded.timezone`,
+          sector: sql`excluded.sector`,
+          industry: sql`excluded.industry`,
+          tick_size: sql`excluded.tick_size`,
+          lot_size: sql`excluded.lot_size`,
+          is_active: true
+        }
+      })
+      .returning()
+      .execute();
+
+    console.log(`Imported metadata for ${result.length} symbols`);
+    return result.map(symbol => ({
+      ...symbol,
+      tick_size: parseFloat(symbol.tick_size)
+    }));
+  } catch (error) {
+    console.error('Symbol metadata import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { quotesTable } from '../db/schema';
+import { type IngestQuotesInput, type Quote } from '../schema';
+import { fetchQuotes } from '../providers';
+import { sql } from 'drizzle-orm';
+
+// Rows per insert statement, well under Postgres' bind parameter limit
+const INSERT_CHUNK_SIZE = 1000;
+
+export const ingestQuotes = async (input: IngestQuotesInput): Promise<Quote[]> => {
+  try {
+    console.log(`Ingesting quotes for ${input.symbol} over ${input.period}`);
+
+    // Fetch quotes through the configured market data provider
+    const quoteData = await fetchQuotes(input);
+
+    const stored: Quote[] = [];
+    for (let i = 0; i < quoteData.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = quoteData.slice(i, i + INSERT_CHUNK_SIZE);
+
+      // Re-ingesting a range refreshes the existing snapshots
+      const result = await db.insert(quotesTable)
+        .values(chunk.map(quote => ({
+          symbol: input.symbol,
+          timestamp: new Date(quote.timestamp),
+          bid: quote.bid.toString(),
+          ask: quote.ask.toString(),
+          bid_size: quote.bid_size,
+          ask_size: quote.ask_size
+        })))
+        .onConflictDoUpdate({
+          target: [quotesTable.symbol, quotesTable.timestamp],
+          set: {
+            bid: sql`excluded.bid`,
+            ask: sql`excluded.ask`,
+            bid_size: sql`excluded.bid_size`,
+            ask_size: sql`excluded.ask_size`
+          }
+        })
+        .returning()
+        .execute();
+
+      stored.push(...result.map(quote => ({
+        ...quote,
+        bid: parseFloat(quote.bid),
+        ask: parseFloat(quote.ask)
+      })));
+    }
+
+    console.log(`Stored ${stored.length} quotes for ${input.symbol}`);
+    return stored;
+  } catch (error) {
+    console.error('Quote ingestion failed:', error);
+    throw error;
+  }
+};
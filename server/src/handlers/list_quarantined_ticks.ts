@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { quarantinedTicksTable } from '../db/schema';
+import { type ListQuarantinedTicksInput, type QuarantinedTick } from '../schema';
+import { canonicalInterval } from '../intervals';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+
+export const listQuarantinedTicks = async (input: ListQuarantinedTicksInput): Promise<QuarantinedTick[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [eq(quarantinedTicksTable.status, input.status)];
+    if (input.symbol) {
+      conditions.push(eq(quarantinedTicksTable.symbol, input.symbol));
+    }
+    if (input.interval) {
+      conditions.push(eq(quarantinedTicksTable.interval, canonicalInterval(input.interval)));
+    }
+
+    return await db.select()
+      .from(quarantinedTicksTable)
+      .where(and(...conditions))
+      .orderBy(desc(quarantinedTicksTable.created_at), desc(quarantinedTicksTable.id))
+      .limit(input.limit)
+      .execute();
+  } catch (error) {
+    console.error('Quarantined tick retrieval failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,16 @@
+import { db } from '../db';
+import { schedulesTable } from '../db/schema';
+import { type Schedule } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const listSchedules = async (): Promise<Schedule[]> => {
+  try {
+    return await db.select()
+      .from(schedulesTable)
+      .orderBy(asc(schedulesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Schedule listing failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import { type ListSymbolsInput, type TrackedSymbol } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const listSymbols = async (input: ListSymbolsInput): Promise<TrackedSymbol[]> => {
+  try {
+    // Symbols are listed in the order they were added
+    const results = await db.select()
+      .from(symbolsTable)
+      .where(input.includeInactive ? undefined : eq(symbolsTable.is_active, true))
+      .orderBy(asc(symbolsTable.created_at), asc(symbolsTable.symbol))
+      .execute();
+
+    // Convert numeric fields back to numbers
+    return results.map(symbol => ({
+      ...symbol,
+      tick_size: parseFloat(symbol.tick_size)
+    }));
+  } catch (error) {
+    console.error('Symbol listing failed:', error);
+    throw error;
+  }
+};
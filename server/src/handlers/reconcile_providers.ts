@@ -0,0 +1,101 @@
+import { type BarDifference, type BarField, type Interval, type ReconcileProvidersInput, type ReconciliationReport, type YahooFinanceData } from '../schema';
+import { fetchBars } from '../providers';
+import { getSymbolProviders } from '../providers/ingest';
+import { isBarFinal } from '../intervals';
+
+const PRICE_FIELDS: BarField[] = ['open', 'high', 'low', 'close'];
+
+// |a - b| relative to the larger magnitude; 0 when both are 0
+const relativeDifference = (a: number, b: number): number => {
+  const scale = Math.max(Math.abs(a), Math.abs(b));
+  return scale === 0 ? 0 : Math.abs(a - b) / scale;
+};
+
+export interface BarComparison {
+  overlapping: number;
+  onlyA: number;
+  onlyB: number;
+  mismatched: number;
+  differences: BarDifference[];
+}
+
+// Compare two providers' bars by timestamp. Forming bars are skipped: they
+// differ by however far apart the two fetches were.
+export const compareProviderBars = (
+  a: YahooFinanceData[],
+  b: YahooFinanceData[],
+  interval: Interval,
+  tolerance: number,
+  volumeTolerance: number,
+  now: number = Date.now()
+): BarComparison => {
+  const final = (bars: YahooFinanceData[]) =>
+    new Map(bars.filter(bar => isBarFinal(bar.timestamp * 1000, interval, now)).map(bar => [bar.timestamp, bar]));
+  const barsA = final(a);
+  const barsB = final(b);
+
+  let overlapping = 0;
+  let mismatched = 0;
+  const differences: BarDifference[] = [];
+  const timestamps = [...barsA.keys()].filter(timestamp => barsB.has(timestamp)).sort((x, y) => x - y);
+  for (const timestamp of timestamps) {
+    const barA = barsA.get(timestamp)!;
+    const barB = barsB.get(timestamp)!;
+    overlapping++;
+
+    let differs = false;
+    for (const field of [...PRICE_FIELDS, 'volume'] as BarField[]) {
+      const difference = relativeDifference(barA[field], barB[field]);
+      if (difference > (field === 'volume' ? volumeTolerance : tolerance)) {
+        differences.push({ timestamp: new Date(timestamp * 1000), field, a: barA[field], b: barB[field], difference });
+        differs = true;
+      }
+    }
+    if (differs) {
+      mismatched++;
+    }
+  }
+
+  return {
+    overlapping,
+    onlyA: barsA.size - overlapping,
+    onlyB: barsB.size - overlapping,
+    mismatched,
+    differences
+  };
+};
+
+export const reconcileProviders = async (input: ReconcileProvidersInput): Promise<ReconciliationReport> => {
+  try {
+    let providers = input.providers;
+    if (!providers) {
+      const configured = await getSymbolProviders(input.symbol);
+      if (configured.length < 2) {
+        throw new Error(`Symbol ${input.symbol} has fewer than two providers to reconcile`);
+      }
+      providers = [configured[0], configured[1]];
+    }
+
+    // Compared as fetched; nothing is stored
+    const request = { symbol: input.symbol, interval: input.interval, period: input.period };
+    const [barsA, barsB] = await Promise.all(providers.map(providerId => fetchBars(request, providerId)));
+
+    const comparison = compareProviderBars(barsA, barsB, input.interval, input.tolerance, input.volumeTolerance);
+    if (comparison.mismatched > 0) {
+      console.log(`${input.symbol} ${input.interval}: ${providers[0]} and ${providers[1]} disagree on ${comparison.mismatched} of ${comparison.overlapping} bars`);
+    }
+
+    return {
+      symbol: input.symbol,
+      interval: input.interval,
+      period: input.period,
+      providers,
+      tolerance: input.tolerance,
+      volumeTolerance: input.volumeTolerance,
+      ...comparison
+    };
+  } catch (error) {
+    console.error('Provider reconciliation failed:', error);
+    throw error;
+  }
+};
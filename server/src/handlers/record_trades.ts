@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { tradesTable } from '../db/schema';
+import { type RecordTradesInput, type Trade } from '../schema';
+
+export const recordTrades = async (input: RecordTradesInput): Promise<Trade[]> => {
+  try {
+    // Store all prints in one statement; price is converted for the numeric column
+    const result = await db.insert(tradesTable)
+      .values(input.trades.map(trade => ({
+        symbol: input.symbol,
+        timestamp: trade.timestamp,
+        price: trade.price.toString(),
+        size: trade.size,
+        exchange: trade.exchange,
+        conditions: trade.conditions
+      })))
+      .returning()
+      .execute();
+
+    console.log(`Recorded ${result.length} trades for ${input.symbol}`);
+    return result.map(trade => ({
+      ...trade,
+      price: parseFloat(trade.price)
+    }));
+  } catch (error) {
+    console.error('Trade recording failed:', error);
+    throw error;
+  }
+};
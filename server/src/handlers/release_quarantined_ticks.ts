@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { quarantinedTicksTable } from '../db/schema';
+import { writeBars } from '../db/bar_writer';
+import { publishBars } from '../db/bar_events';
+import { type BarUpdate, type QuarantinedTick, type ReviewQuarantinedTicksInput } from '../schema';
+import { type BarProvenance } from '../providers';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+// Store pending quarantined bars as they are, skipping validation, with the
+// provenance of the ingest that fetched them. The bars are written and
+// marked released in one transaction, with the rows locked, so a failed or
+// concurrent release never stores a bar twice. Subscribers hear about the
+// stored bars only once it commits. Ids that aren't pending are
+// ignored; the released bars are returned.
+export const releaseQuarantinedTicks = async (input: ReviewQuarantinedTicksInput): Promise<QuarantinedTick[]> => {
+  try {
+    const updates: BarUpdate[] = [];
+    const released = await db.transaction(async (tx) => {
+      const pending = await tx.select()
+        .from(quarantinedTicksTable)
+        .where(and(inArray(quarantinedTicksTable.id, input.ids), eq(quarantinedTicksTable.status, 'pending')))
+        .orderBy(asc(quarantinedTicksTable.timestamp), asc(quarantinedTicksTable.id))
+        .for('update')
+        .execute();
+      if (pending.length === 0) {
+        return [];
+      }
+
+      // One write per series and ingest run, so each keeps its provenance
+      const groups = new Map<string, QuarantinedTick[]>();
+      for (const tick of pending) {
+        const key = [tick.symbol, tick.interval, tick.source, tick.ingest_run_id, tick.fetched_at?.getTime()].join(':');
+        groups.set(key, [...(groups.get(key) ?? []), tick]);
+      }
+      for (const ticks of groups.values()) {
+        const [{ symbol, interval, source, fetched_at, ingest_run_id }] = ticks;
+        const provenance: BarProvenance | null = source && fetched_at && ingest_run_id
+          ? { source, fetchedAt: fetched_at, ingestRunId: ingest_run_id }
+          : null;
+        const written = await writeBars(symbol, interval, ticks.map(tick => ({
+          timestamp: tick.timestamp.getTime() / 1000,
+          open: tick.open,
+          high: tick.high,
+          low: tick.low,
+          close: tick.close,
+          volume: tick.volume
+        })), provenance, new Date(), tx);
+        updates.push({ symbol, interval, bars: written.changed });
+      }
+
+      return await tx.update(quarantinedTicksTable)
+        .set({ status: 'released', reviewed_at: new Date() })
+        .where(inArray(quarantinedTicksTable.id, pending.map(tick => tick.id)))
+        .returning()
+        .execute();
+    });
+
+    for (const update of updates) {
+      publishBars(update);
+    }
+    return released;
+  } catch (error) {
+    console.error('Quarantine release failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import { type SetSymbolProvidersInput, type TrackedSymbol } from '../schema';
+import { listProviders } from '../providers';
+import { eq } from 'drizzle-orm';
+
+export const setSymbolProviders = async (input: SetSymbolProvidersInput): Promise<TrackedSymbol> => {
+  try {
+    const known = listProviders();
+    const unknown = input.providers?.find(id => !known.includes(id));
+    if (unknown) {
+      throw new Error(`Unknown market data provider: ${unknown}`);
+    }
+
+    const result = await db.update(symbolsTable)
+      .set({ providers: input.providers })
+      .where(eq(symbolsTable.symbol, input.symbol))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Symbol ${input.symbol} is not tracked`);
+    }
+
+    // Convert numeric fields back to numbers
+    return {
+      ...result[0],
+      tick_size: parseFloat(result[0].tick_size)
+    };
+  } catch (error) {
+    console.error('Setting symbol providers failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { schedulesTable } from '../db/schema';
+import { type Schedule, type UpdateScheduleInput } from '../schema';
+import { nextCronTime } from '../jobs/cron';
+import { validateIntervalPeriod } from '../intervals';
+import { eq } from 'drizzle-orm';
+
+export const updateSchedule = async (input: UpdateScheduleInput): Promise<Schedule> => {
+  try {
+    const [existing] = await db.select()
+      .from(schedulesTable)
+      .where(eq(schedulesTable.id, input.id))
+      .execute();
+
+    if (!existing) {
+      throw new Error(`Schedule ${input.id} does not exist`);
+    }
+
+    // The interval and period are checked together, whichever one changed
+    const { id, ...changes } = input;
+    const message = validateIntervalPeriod(changes.interval ?? existing.interval, changes.period ?? existing.period);
+    if (message) {
+      throw new Error(message);
+    }
+
+    // A new cron expression, or re-enabling, restarts the schedule from now
+    const reschedule = changes.cron !== undefined || (changes.enabled === true && !existing.enabled);
+    const [schedule] = await db.update(schedulesTable)
+      .set({
+        ...changes,
+        ...(reschedule ? { next_run_at: nextCronTime(changes.cron ?? existing.cron, new Date()) } : {})
+      })
+      .where(eq(schedulesTable.id, id))
+      .returning()
+      .execute();
+
+    return schedule;
+  } catch (error) {
+    console.error('Schedule update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,15 @@
+import { type YahooFinanceData } from '../schema';
+
+// Monday 2024-03-04 09:30 in New York, the regular open, in seconds
+export const MARKET_OPEN = Date.parse('2024-03-04T14:30:00Z') / 1000;
+
+// `count` flat one-minute bars from MARKET_OPEN, all closing at `close`
+export const makeBars = (count: number, close = 100): YahooFinanceData[] =>
+  Array.from({ length: count }, (_, i) => ({
+    timestamp: MARKET_OPEN + i * 60,
+    open: 100,
+    high: 101,
+    low: 99,
+    close,
+    volume: 1000
+  }));
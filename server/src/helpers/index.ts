@@ -16,3 +16,5 @@ export const createDB = async () => {
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+export { MARKET_OPEN, makeBars } from './bars';
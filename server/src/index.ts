@@ -9,7 +9,28 @@ import {
   fetchStockDataInputSchema, 
   batchFetchInputSchema,
   getHistoricalDataInputSchema,
-  stockSymbolSchema 
+  onBarsInputSchema,
+  addSymbolInputSchema,
+  deactivateSymbolInputSchema,
+  setSymbolProvidersInputSchema,
+  listSymbolsInputSchema,
+  importSymbolMetadataInputSchema,
+  recordTradesInputSchema,
+  getTradesInputSchema,
+  aggregateTradesInputSchema,
+  ingestQuotesInputSchema,
+  getQuotesInputSchema,
+  gapRangeInputSchema,
+  getCoverageInputSchema,
+  enqueueIngestJobsInputSchema,
+  getIngestJobsInputSchema,
+  onIngestProgressInputSchema,
+  createScheduleInputSchema,
+  updateScheduleInputSchema,
+  deleteScheduleInputSchema,
+  listQuarantinedTicksInputSchema,
+  reviewQuarantinedTicksInputSchema,
+  reconcileProvidersInputSchema
 } from './schema';
 
 import { fetchStockData } from './handlers/fetch_stock_data';
@@ -18,6 +39,35 @@ import { getHistoricalData } from './handlers/get_historical_data';
 import { getChartData } from './handlers/get_chart_data';
 import { getAllSymbols } from './handlers/get_all_symbols';
 import { getLatestPrices } from './handlers/get_latest_prices';
+import { addSymbol } from './handlers/add_symbol';
+import { deactivateSymbol } from './handlers/deactivate_symbol';
+import { setSymbolProviders } from './handlers/set_symbol_providers';
+import { listSymbols } from './handlers/list_symbols';
+import { importSymbolMetadata } from './handlers/import_symbol_metadata';
+import { recordTrades } from './handlers/record_trades';
+import { getTrades } from './handlers/get_trades';
+import { aggregateTrades } from './handlers/aggregate_trades';
+import { ingestQuotes } from './handlers/ingest_quotes';
+import { getQuotes } from './handlers/get_quotes';
+import { findGaps } from './handlers/find_gaps';
+import { backfillGaps } from './handlers/backfill_gaps';
+import { getCoverage } from './handlers/get_coverage';
+import { enqueueIngestJobs } from './handlers/enqueue_ingest_jobs';
+import { getIngestJobs } from './handlers/get_ingest_jobs';
+import { createSchedule } from './handlers/create_schedule';
+import { listSchedules } from './handlers/list_schedules';
+import { updateSchedule } from './handlers/update_schedule';
+import { deleteSchedule } from './handlers/delete_schedule';
+import { listQuarantinedTicks } from './handlers/list_quarantined_ticks';
+import { releaseQuarantinedTicks } from './handlers/release_quarantined_ticks';
+import { dropQuarantinedTicks } from './handlers/drop_quarantined_ticks';
+import { reconcileProviders } from './handlers/reconcile_providers';
+import { barUpdates } from './db/bar_events';
+import { ingestProgressEvents } from './jobs/progress';
+import { startIngestWorker } from './jobs/worker';
+import { startScheduler } from './jobs/scheduler';
+import { startBarFinalizer } from './jobs/finalizer';
+import { seedDefaultSymbols } from './db/seed';
 
 const t = initTRPC.create({
   transformer: superjson,
@@ -51,11 +101,132 @@ const appRouter = router({
     .input(getHistoricalDataInputSchema)
     .query(({ input }) => getChartData(input)),
   
-  // Get all available stock symbols
+  // Stream bars as ingests insert or change them, including the forming bar
+  onBars: publicProcedure
+    .input(onBarsInputSchema)
+    .subscription(({ input, signal }) => barUpdates(input, signal)),
+  
+  // Get all active stock symbols
   getAllSymbols: publicProcedure
     .query(() => getAllSymbols()),
   
-  // Get latest prices for all symbols
+  // List tracked symbols with their status
+  listSymbols: publicProcedure
+    .input(listSymbolsInputSchema)
+    .query(({ input }) => listSymbols(input)),
+  
+  // Start tracking a symbol (or reactivate it)
+  addSymbol: publicProcedure
+    .input(addSymbolInputSchema)
+    .mutation(({ input }) => addSymbol(input)),
+  
+  // Stop tracking a symbol, keeping its stored data
+  deactivateSymbol: publicProcedure
+    .input(deactivateSymbolInputSchema)
+    .mutation(({ input }) => deactivateSymbol(input)),
+  
+  // Set the providers a symbol is fetched from, falling back in order
+  setSymbolProviders: publicProcedure
+    .input(setSymbolProvidersInputSchema)
+    .mutation(({ input }) => setSymbolProviders(input)),
+  
+  // Import symbol reference data (name, exchange, currency, tick size, ...) from CSV
+  importSymbolMetadata: publicProcedure
+    .input(importSymbolMetadataInputSchema)
+    .mutation(({ input }) => importSymbolMetadata(input)),
+  
+  // Store raw trade prints
+  recordTrades: publicProcedure
+    .input(recordTradesInputSchema)
+    .mutation(({ input }) => recordTrades(input)),
+  
+  // Get stored trade prints, most recent first
+  getTrades: publicProcedure
+    .input(getTradesInputSchema)
+    .query(({ input }) => getTrades(input)),
+  
+  // Rebuild bars for an interval from stored trade prints
+  aggregateTrades: publicProcedure
+    .input(aggregateTradesInputSchema)
+    .mutation(({ input }) => aggregateTrades(input)),
+  
+  // Fetch bid/ask quotes from the market data provider and store them
+  ingestQuotes: publicProcedure
+    .input(ingestQuotesInputSchema)
+    .mutation(({ input }) => ingestQuotes(input)),
+  
+  // Get stored bid/ask quotes, most recent first
+  getQuotes: publicProcedure
+    .input(getQuotesInputSchema)
+    .query(({ input }) => getQuotes(input)),
+  
+  // List regular-session bars missing from storage for a symbol and range
+  findGaps: publicProcedure
+    .input(gapRangeInputSchema)
+    .query(({ input }) => findGaps(input)),
+  
+  // Fetch just the missing bars from the market data provider
+  backfillGaps: publicProcedure
+    .input(gapRangeInputSchema)
+    .mutation(({ input }) => backfillGaps(input)),
+  
+  // Summarize stored bars and their completeness per symbol and interval
+  getCoverage: publicProcedure
+    .input(getCoverageInputSchema)
+    .query(({ input }) => getCoverage(input)),
+  
+  // Queue background fetches for any number of symbols
+  enqueueIngestJobs: publicProcedure
+    .input(enqueueIngestJobsInputSchema)
+    .mutation(({ input }) => enqueueIngestJobs(input)),
+  
+  // List queued, running and finished ingest jobs
+  getIngestJobs: publicProcedure
+    .input(getIngestJobsInputSchema)
+    .query(({ input }) => getIngestJobs(input)),
+  
+  // Stream per-symbol progress of batch fetches and ingest jobs as it happens
+  onIngestProgress: publicProcedure
+    .input(onIngestProgressInputSchema)
+    .subscription(({ input, signal }) => ingestProgressEvents(input.batchId, signal)),
+  
+  // Recurring fetch schedules run by the in-process scheduler
+  listSchedules: publicProcedure
+    .query(() => listSchedules()),
+  
+  createSchedule: publicProcedure
+    .input(createScheduleInputSchema)
+    .mutation(({ input }) => createSchedule(input)),
+  
+  updateSchedule: publicProcedure
+    .input(updateScheduleInputSchema)
+    .mutation(({ input }) => updateSchedule(input)),
+  
+  deleteSchedule: publicProcedure
+    .input(deleteScheduleInputSchema)
+    .mutation(({ input }) => deleteSchedule(input)),
+  
+  // Review provider bars held back by ingest validation
+  listQuarantinedTicks: publicProcedure
+    .input(listQuarantinedTicksInputSchema)
+    .query(({ input }) => listQuarantinedTicks(input)),
+  
+  // Store quarantined bars as they are
+  releaseQuarantinedTicks: publicProcedure
+    .input(reviewQuarantinedTicksInputSchema)
+    .mutation(({ input }) => releaseQuarantinedTicks(input)),
+  
+  // Discard quarantined bars, keeping them as dropped
+  dropQuarantinedTicks: publicProcedure
+    .input(reviewQuarantinedTicksInputSchema)
+    .mutation(({ input }) => dropQuarantinedTicks(input)),
+  
+  // Compare the final bars two providers return for a symbol, without storing them
+  reconcileProviders: publicProcedure
+    .input(reconcileProvidersInputSchema)
+    .query(({ input }) => reconcileProviders(input)),
+  
+  // Get latest prices for all symbols; is_final is false while a bar is still forming
   getLatestPrices: publicProcedure
     .query(() => getLatestPrices()),
 });
@@ -63,6 +234,10 @@ const appRouter = router({
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  await seedDefaultSymbols();
+  startIngestWorker({ concurrency: parseInt(process.env['INGEST_WORKERS'] || '2', 10) });
+  startScheduler();
+  startBarFinalizer();
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
@@ -75,7 +250,7 @@ async function start() {
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
-  console.log(`Stock data API ready for symbols: META, AAPL, AMZN, GOOG, MSFT, NVDA`);
+  console.log(`Stock data API ready for symbols: ${(await getAllSymbols()).join(', ')}`);
 }
 
 start();
@@ -0,0 +1,218 @@
+import type { Interval, MarketSession, Period } from './schema';
+import { getMarketSession, getNewYorkOffsetMinutes, getTradingSession, isTradingDay, localDay, localDayStart } from './calendar';
+
+// Canonical interval and period handling. Bars follow New York exchange-local
+// time (see ./calendar): intraday bars count from local midnight, daily and
+// longer bars from local trading dates.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Bar length in minutes for intraday intervals
+export const intradayMinutes: Partial<Record<Interval, number>> = {
+  '1m': 1, '2m': 2, '5m': 5, '15m': 15, '30m': 30,
+  '60m': 60, '90m': 90, '1h': 60
+};
+
+export const isIntraday = (interval: Interval): boolean => {
+  return intradayMinutes[interval] !== undefined;
+};
+
+// 1h and 60m are the same bar; bars are stored and queried as 60m
+export const canonicalInterval = (interval: Interval): Interval => {
+  return interval === '1h' ? '60m' : interval;
+};
+
+// Longest possible bar in ms; months vary, so this is an upper bound for 1mo and 3mo
+export const maxIntervalMs = (interval: Interval): number => {
+  const minutes = intradayMinutes[interval];
+  if (minutes) return minutes * MINUTE_MS;
+  switch (interval) {
+    case '1d': return DAY_MS;
+    case '5d': return 5 * DAY_MS;
+    case '1wk': return 7 * DAY_MS;
+    case '1mo': return 31 * DAY_MS;
+    default: return 92 * DAY_MS; // 3mo
+  }
+};
+
+// Start of the bar containing `ms`, on New York exchange-local boundaries:
+// intraday bars count from local midnight (so 90m bars start at 09:00,
+// 10:30, ...), daily and longer bars follow New York trading dates, with
+// weeks starting on Monday and months/quarters on the 1st.
+export const alignToBar = (ms: number, interval: Interval): number => {
+  const minutes = intradayMinutes[interval];
+  if (minutes) {
+    const barMs = minutes * MINUTE_MS;
+    const offsetMs = getNewYorkOffsetMinutes(Math.floor(ms / DAY_MS)) * MINUTE_MS;
+    return Math.floor((ms + offsetMs) / barMs) * barMs - offsetMs;
+  }
+
+  const day = localDay(ms);
+  const date = new Date(day * DAY_MS);
+  let startDay = day;
+  switch (interval) {
+    case '5d':
+      startDay = Math.floor(day / 5) * 5;
+      break;
+    case '1wk':
+      // 1970-01-01 was a Thursday, so Mondays are day 4 mod 7
+      startDay = day - ((day - 4) % 7 + 7) % 7;
+      break;
+    case '1mo':
+      startDay = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / DAY_MS;
+      break;
+    case '3mo':
+      startDay = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - date.getUTCMonth() % 3, 1) / DAY_MS;
+      break;
+  }
+  return localDayStart(startDay);
+};
+
+// Start of the bar following the one that contains `ms`
+export const nextBarStart = (ms: number, interval: Interval): number => {
+  const barStart = alignToBar(ms, interval);
+  const minutes = intradayMinutes[interval];
+  if (minutes) {
+    return barStart + minutes * MINUTE_MS;
+  }
+
+  const day = localDay(barStart);
+  const date = new Date(day * DAY_MS);
+  switch (interval) {
+    case '5d':
+      return localDayStart(day + 5);
+    case '1wk':
+      return localDayStart(day + 7);
+    case '1mo':
+      return localDayStart(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / DAY_MS);
+    case '3mo':
+      return localDayStart(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 3, 1) / DAY_MS);
+    default:
+      return localDayStart(day + 1);
+  }
+};
+
+// Whether the bar starting at `ms` has closed by `now`; until then it is
+// still forming. Daily and longer bars close at the New York midnight ending
+// their last day, after post-market trading.
+export const isBarFinal = (ms: number, interval: Interval, now: number = Date.now()): boolean => {
+  return nextBarStart(ms, interval) <= now;
+};
+
+// Session of the bar starting at `ms`. Daily and longer bars are regular
+// session bars; intraday bars count as regular if they overlap regular hours
+// at all, and are null when they fall entirely outside extended hours.
+export const getBarSession = (ms: number, interval: Interval): MarketSession | null => {
+  const minutes = intradayMinutes[interval];
+  if (!minutes) {
+    return 'regular';
+  }
+
+  const session = getTradingSession(localDay(ms));
+  const end = ms + minutes * MINUTE_MS;
+  if (session && ms < session.close && end > session.open) {
+    return 'regular';
+  }
+  return getMarketSession(ms) ?? getMarketSession(end - MINUTE_MS);
+};
+
+// Calendar days covered by the fixed-length periods
+const periodDays: Partial<Record<Period, number>> = {
+  '1mo': 30, '3mo': 90, '6mo': 182,
+  '1y': 365, '2y': 730, '5y': 1826, '10y': 3652
+};
+
+// Start of the New York trading day `count` sessions back from `endMs`,
+// counting the current day once its pre-market has opened
+const tradingDaysBack = (endMs: number, count: number): number => {
+  let day = localDay(endMs);
+  const today = getTradingSession(day);
+  if (!today || endMs < today.preOpen) {
+    day--;
+  }
+
+  let found = 0;
+  for (;;) {
+    if (isTradingDay(day) && ++found === count) break;
+    day--;
+  }
+  return localDayStart(day);
+};
+
+// Concrete range for a period ending at `end`. Like Yahoo, 1d and 5d count
+// exchange trading days rather than calendar days, ytd starts on New York's January 1st
+// and max starts at the unix epoch (providers clamp it to their history).
+export const resolvePeriod = (period: Period, end: Date = new Date()): { start: Date; end: Date } => {
+  const endMs = end.getTime();
+  switch (period) {
+    case '1d':
+    case '5d':
+      return { start: new Date(tradingDaysBack(endMs, period === '1d' ? 1 : 5)), end };
+    case 'ytd': {
+      const year = new Date(localDay(endMs) * DAY_MS).getUTCFullYear();
+      return { start: new Date(localDayStart(Date.UTC(year, 0, 1) / DAY_MS)), end };
+    }
+    case 'max':
+      return { start: new Date(0), end };
+    default:
+      return { start: new Date(endMs - (periodDays[period] ?? 1) * DAY_MS), end };
+  }
+};
+
+// Longest calendar span of each period, for validating combinations
+const maxPeriodSpanDays: Record<Period, number> = {
+  '1d': 1, '5d': 7, '1mo': 31, '3mo': 92, '6mo': 183,
+  '1y': 366, '2y': 731, '5y': 1827, '10y': 3653, 'ytd': 366, 'max': Infinity
+};
+
+// Longest period upstream sources serve for each intraday interval, in days
+const maxPeriodDaysByInterval: Partial<Record<Interval, number>> = {
+  '1m': 7, '2m': 60, '5m': 60, '15m': 60, '30m': 60, '90m': 60,
+  '60m': 730, '1h': 730
+};
+
+// Why an interval/period pair can't be fetched, or null when it can
+export const validateIntervalPeriod = (interval: Interval, period: Period): string | null => {
+  const maxDays = maxPeriodDaysByInterval[interval];
+  if (maxDays !== undefined && maxPeriodSpanDays[period] > maxDays) {
+    return `Interval ${interval} supports periods of up to ${maxDays} days, not ${period}`;
+  }
+  return null;
+};
+
+// Most bar starts expectedBarStarts will list, so a typo'd range can't
+// build millions of timestamps
+const MAX_EXPECTED_BARS = 200_000;
+
+// Starts (UTC ms, ascending) of the regular-session bars the exchange should
+// have produced in [start, end): intraday bars overlapping regular hours on
+// each trading day, and daily and longer bars containing at least one trading
+// day. Only bars that have closed by `end` are expected.
+export const expectedBarStarts = (interval: Interval, start: Date, end: Date): number[] => {
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  const minutes = intradayMinutes[interval];
+  const starts: number[] = [];
+
+  for (let day = localDay(startMs); day <= localDay(endMs); day++) {
+    const session = getTradingSession(day);
+    if (!session) continue;
+
+    const firstBar = alignToBar(session.open, interval);
+    const dayStarts = [firstBar];
+    while (minutes && dayStarts[dayStarts.length - 1] + minutes * MINUTE_MS < session.close) {
+      dayStarts.push(dayStarts[dayStarts.length - 1] + minutes * MINUTE_MS);
+    }
+
+    for (const barStart of dayStarts) {
+      if (barStart < startMs || nextBarStart(barStart, interval) > endMs) continue;
+      if (starts.length > 0 && starts[starts.length - 1] === barStart) continue;
+      starts.push(barStart);
+      if (starts.length > MAX_EXPECTED_BARS) {
+        throw new Error(`Range covers more than ${MAX_EXPECTED_BARS} ${interval} bars`);
+      }
+    }
+  }
+  return starts;
+};
@@ -0,0 +1,126 @@
+import { getNewYorkOffsetMinutes, localDay } from '../calendar';
+
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in New York exchange-local time like the trading calendar. Fields
+// take *, numbers, ranges (1-5), lists (1,3) and steps (*/15, 9-16/2); day of
+// week runs 0-6 from Sunday, with 7 also meaning Sunday. As in classic cron, a
+// day matches either day field when both are restricted.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Furthest ahead nextCronTime looks; covers Feb 29 schedules
+const MAX_LOOKAHEAD_DAYS = 366 * 8;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday first
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: [string, number, number][] = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7]
+];
+
+const parseField = (field: string, [name, min, max]: [string, number, number]): Set<number> => {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${name} field: ${field}`);
+    }
+
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+    let from = min;
+    let to = max;
+    if (match[2] !== undefined) {
+      from = parseInt(match[2], 10);
+      // A bare number with a step (5/15) runs from there to the end of the range
+      to = match[3] !== undefined ? parseInt(match[3], 10) : match[4] ? max : from;
+    }
+    if (from < min || to > max || from > to || step < 1) {
+      throw new Error(`Invalid cron ${name} field: ${field}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields, got ${fields.length}: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELD_RANGES[i]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+};
+
+// Why an expression is not a valid cron schedule, or null when it is
+export const validateCron = (expression: string): string | null => {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const matchesDay = (schedule: CronSchedule, day: number): boolean => {
+  const date = new Date(day * DAY_MS);
+  if (!schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+};
+
+// First minute strictly after `after` that the expression matches
+export const nextCronTime = (expression: string, after: Date): Date => {
+  const schedule = parseCron(expression);
+  const hours = [...schedule.hours].sort((a, b) => a - b);
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+  const afterMs = after.getTime();
+
+  const firstDay = localDay(afterMs);
+  for (let day = firstDay; day < firstDay + MAX_LOOKAHEAD_DAYS; day++) {
+    if (!matchesDay(schedule, day)) continue;
+
+    const offsetMs = getNewYorkOffsetMinutes(day) * MINUTE_MS;
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const ms = day * DAY_MS + (hour * 60 + minute) * MINUTE_MS - offsetMs;
+        if (ms > afterMs) {
+          return new Date(ms);
+        }
+      }
+    }
+  }
+  throw new Error(`Cron expression never matches: ${expression}`);
+};
@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { stockTicksTable } from '../db/schema';
+import { publishBars } from '../db/bar_events';
+import { recordRevisions } from '../db/bar_history';
+import { type StockTick } from '../schema';
+import { isBarFinal } from '../intervals';
+import { and, eq, inArray } from 'drizzle-orm';
+
+export interface BarFinalizerOptions {
+  tickMs?: number; // how often forming bars are checked
+}
+
+export interface BarFinalizer {
+  stop: () => Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Mark forming bars whose interval has closed by `now` as final, so a bar
+// nobody re-fetched after its close doesn't stay forming. Finalized bars are
+// published to bar subscribers and returned oldest first.
+export const finalizeClosedBars = async (now: Date = new Date()): Promise<StockTick[]> => {
+  // At most one forming bar per symbol and interval, so this stays small
+  const forming = await db.select({ id: stockTicksTable.id, timestamp: stockTicksTable.timestamp, interval: stockTicksTable.interval })
+    .from(stockTicksTable)
+    .where(eq(stockTicksTable.is_final, false))
+    .execute();
+
+  const closed = forming
+    .filter(row => isBarFinal(row.timestamp.getTime(), row.interval, now.getTime()))
+    .map(row => row.id);
+  if (closed.length === 0) {
+    return [];
+  }
+
+  // A concurrent write may have finalized some already
+  const rows = await db.transaction(async (tx) => {
+    const updated = await tx.update(stockTicksTable)
+      .set({ is_final: true })
+      .where(and(inArray(stockTicksTable.id, closed), eq(stockTicksTable.is_final, false)))
+      .returning()
+      .execute();
+
+    await recordRevisions(tx, updated, now);
+    return updated;
+  });
+
+  const finalized = rows
+    .map(row => ({
+      ...row,
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close)
+    }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const series = new Map<string, StockTick[]>();
+  for (const tick of finalized) {
+    const key = `${tick.symbol}:${tick.interval}`;
+    series.set(key, [...(series.get(key) ?? []), tick]);
+  }
+  for (const bars of series.values()) {
+    publishBars({ symbol: bars[0].symbol, interval: bars[0].interval, bars });
+  }
+  return finalized;
+};
+
+// Finalize closed bars every tickMs until stopped
+export const startBarFinalizer = (options: BarFinalizerOptions = {}): BarFinalizer => {
+  const tickMs = options.tickMs ?? 5 * 1000;
+  let running = true;
+
+  const loop = (async () => {
+    while (running) {
+      try {
+        const finalized = await finalizeClosedBars();
+        if (finalized.length > 0) {
+          console.log(`Finalized ${finalized.length} closed bars`);
+        }
+      } catch (error) {
+        console.error('Bar finalizer tick failed:', error);
+      }
+      await sleep(tickMs);
+    }
+  })();
+
+  return {
+    stop: async () => {
+      running = false;
+      await loop;
+    }
+  };
+};
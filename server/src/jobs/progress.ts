@@ -0,0 +1,42 @@
+import { EventEmitter, on } from 'node:events';
+import { type IngestProgressEvent } from '../schema';
+
+// In-process fan-out of ingest progress. Batch fetches and queue workers
+// publish a step per symbol; subscribers (the onIngestProgress procedure)
+// receive the steps published while they are listening, nothing earlier.
+
+const emitter = new EventEmitter();
+// One listener per open subscription
+emitter.setMaxListeners(0);
+
+export type IngestProgressUpdate = Pick<IngestProgressEvent, 'batchId' | 'symbol' | 'stage'> &
+  Partial<Omit<IngestProgressEvent, 'batchId' | 'symbol' | 'stage' | 'at'>>;
+
+export const publishIngestProgress = (update: IngestProgressUpdate): void => {
+  const event: IngestProgressEvent = {
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    quarantined: 0,
+    error: null,
+    retrying: false,
+    ...update,
+    at: new Date()
+  };
+  emitter.emit('progress', event);
+};
+
+// Progress events from now until `signal` aborts, optionally for one batch
+export async function* ingestProgressEvents(batchId: string | undefined, signal?: AbortSignal): AsyncGenerator<IngestProgressEvent> {
+  try {
+    for await (const [event] of on(emitter, 'progress', { signal }) as AsyncIterableIterator<[IngestProgressEvent]>) {
+      if (!batchId || event.batchId === batchId) {
+        yield event;
+      }
+    }
+  } catch (error) {
+    // Aborting is how subscribers hang up
+    if (signal?.aborted) return;
+    throw error;
+  }
+}
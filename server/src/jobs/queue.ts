@@ -0,0 +1,164 @@
+import { randomUUID } from 'node:crypto';
+import { db } from '../db';
+import { ingestJobsTable } from '../db/schema';
+import { ingestBars, type BarIngestResult } from '../db/quarantine';
+import { type EnqueueIngestJobsInput, type IngestBatch, type IngestJob } from '../schema';
+import { fetchBarsForIngest } from '../providers/ingest';
+import { publishIngestProgress } from './progress';
+import { and, asc, eq, inArray, lt, lte, sql } from 'drizzle-orm';
+
+// Postgres-backed ingest queue. Each job fetches one symbol's bars through
+// the provider layer; any number of workers, in this process or others, can
+// drain the queue because claims skip rows another transaction has locked.
+
+// Retry delays double from RETRY_BASE_MS per failed attempt, up to RETRY_MAX_MS
+const RETRY_BASE_MS = 10 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+// A running job not finished within this long belonged to a worker that died
+export const STALE_JOB_MS = 10 * 60 * 1000;
+
+// Delay before the next attempt after `attempts` failed ones
+export const retryDelayMs = (attempts: number): number => {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+};
+
+// Queue one job per symbol, all sharing a new batch id
+export const enqueueIngestJobs = async (input: EnqueueIngestJobsInput): Promise<IngestBatch> => {
+  const batchId = randomUUID();
+  const jobs = await db.insert(ingestJobsTable)
+    .values([...new Set(input.symbols)].map(symbol => ({
+      batch_id: batchId,
+      symbol,
+      interval: input.interval,
+      period: input.period,
+      max_attempts: input.maxAttempts
+    })))
+    .returning()
+    .execute();
+
+  console.log(`Queued ${jobs.length} ingest jobs in batch ${batchId}`);
+  return { batchId, jobs };
+};
+
+// Claim the next due job, marking it running and counting the attempt, or
+// null when nothing is due. Rows locked by a concurrent claim are skipped
+// rather than waited on, so workers never take the same job.
+export const claimIngestJob = async (): Promise<IngestJob | null> => {
+  const next = db.select({ id: ingestJobsTable.id })
+    .from(ingestJobsTable)
+    .where(and(
+      eq(ingestJobsTable.status, 'queued'),
+      lte(ingestJobsTable.run_after, sql`now()`)
+    ))
+    .orderBy(asc(ingestJobsTable.run_after), asc(ingestJobsTable.id))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [job] = await db.update(ingestJobsTable)
+    .set({
+      status: 'running',
+      attempts: sql`${ingestJobsTable.attempts} + 1`,
+      started_at: sql`now()`
+    })
+    .where(inArray(ingestJobsTable.id, next))
+    .returning()
+    .execute();
+
+  return job ?? null;
+};
+
+// Bar counts a job attempt reports
+export type IngestJobCounts = Pick<BarIngestResult, 'inserted' | 'updated' | 'unchanged' | 'quarantined'>;
+
+// Record a successful attempt
+export const completeIngestJob = async (id: number, counts: IngestJobCounts): Promise<IngestJob> => {
+  const [job] = await db.update(ingestJobsTable)
+    .set({
+      status: 'succeeded',
+      bars_inserted: counts.inserted,
+      bars_updated: counts.updated,
+      bars_unchanged: counts.unchanged,
+      bars_quarantined: counts.quarantined,
+      last_error: null,
+      finished_at: sql`now()`
+    })
+    .where(eq(ingestJobsTable.id, id))
+    .returning()
+    .execute();
+  return job;
+};
+
+// Record a failed attempt: requeue with backoff, or give up once the job
+// has used all its attempts
+export const failIngestJob = async (job: IngestJob, error: unknown): Promise<IngestJob> => {
+  const message = error instanceof Error ? error.message : String(error);
+  const exhausted = job.attempts >= job.max_attempts;
+
+  const [failed] = await db.update(ingestJobsTable)
+    .set(exhausted
+      ? { status: 'failed', last_error: message, finished_at: sql`now()` }
+      : { status: 'queued', last_error: message, run_after: new Date(Date.now() + retryDelayMs(job.attempts)) })
+    .where(eq(ingestJobsTable.id, job.id))
+    .returning()
+    .execute();
+  return failed;
+};
+
+// Requeue jobs left running by a worker that stopped mid-attempt (e.g. a
+// server restart); the interrupted attempt counts towards max_attempts.
+// Returns how many jobs were recovered.
+export const recoverStaleIngestJobs = async (staleAfterMs: number = STALE_JOB_MS): Promise<number> => {
+  const recovered = await db.update(ingestJobsTable)
+    .set({
+      status: sql`case when ${ingestJobsTable.attempts} >= ${ingestJobsTable.max_attempts} then 'failed'::ingest_job_status else 'queued'::ingest_job_status end`,
+      last_error: 'Interrupted before finishing',
+      run_after: sql`now()`,
+      finished_at: sql`case when ${ingestJobsTable.attempts} >= ${ingestJobsTable.max_attempts} then now() end`
+    })
+    .where(and(
+      eq(ingestJobsTable.status, 'running'),
+      lt(ingestJobsTable.started_at, new Date(Date.now() - staleAfterMs))
+    ))
+    .returning({ id: ingestJobsTable.id })
+    .execute();
+  return recovered.length;
+};
+
+// Fetch and store the bars for a claimed job. Errors propagate so the
+// attempt can be retried.
+export const runIngestJob = async (job: IngestJob): Promise<IngestJobCounts> => {
+  const { bars, provenance } = await fetchBarsForIngest({ symbol: job.symbol, interval: job.interval, period: job.period }, job.batch_id);
+  if (bars.length === 0) {
+    return { inserted: 0, updated: 0, unchanged: 0, quarantined: 0 };
+  }
+
+  const { inserted, updated, unchanged, quarantined } = await ingestBars(job.symbol, job.interval, bars, provenance);
+  publishIngestProgress({ batchId: job.batch_id, symbol: job.symbol, stage: 'written', inserted, updated, unchanged, quarantined });
+  return { inserted, updated, unchanged, quarantined };
+};
+
+// Claim, run and settle one job. Returns the settled job, or null when the
+// queue had nothing due.
+export const processNextIngestJob = async (): Promise<IngestJob | null> => {
+  const job = await claimIngestJob();
+  if (!job) {
+    return null;
+  }
+
+  const progress = { batchId: job.batch_id, symbol: job.symbol };
+  publishIngestProgress({ ...progress, stage: 'started' });
+
+  try {
+    const counts = await runIngestJob(job);
+    console.log(`Ingest job ${job.id} stored ${job.interval} bars for ${job.symbol} (${counts.inserted} inserted, ${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.quarantined} quarantined)`);
+    const completed = await completeIngestJob(job.id, counts);
+    publishIngestProgress({ ...progress, stage: 'finished', ...counts });
+    return completed;
+  } catch (error) {
+    console.error(`Ingest job ${job.id} for ${job.symbol} failed (attempt ${job.attempts} of ${job.max_attempts}):`, error);
+    const failed = await failIngestJob(job, error);
+    publishIngestProgress({ ...progress, stage: 'failed', error: failed.last_error, retrying: failed.status === 'queued' });
+    return failed;
+  }
+};
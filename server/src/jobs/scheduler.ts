@@ -0,0 +1,119 @@
+import { db } from '../db';
+import { schedulesTable } from '../db/schema';
+import { type Schedule, type ScheduleRunStatus, type SessionFilter } from '../schema';
+import { getMarketSession } from '../calendar';
+import { batchFetchStocks } from '../handlers/batch_fetch_stocks';
+import { getAllSymbols } from '../handlers/get_all_symbols';
+import { nextCronTime } from './cron';
+import { and, eq, lte } from 'drizzle-orm';
+
+export interface SchedulerOptions {
+  tickMs?: number; // how often due schedules are checked
+}
+
+export interface Scheduler {
+  stop: () => Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Whether the market is in the session a schedule is limited to
+const inSession = (filter: SessionFilter, ms: number): boolean => {
+  const session = getMarketSession(ms);
+  switch (filter) {
+    case 'regular':
+      return session === 'regular';
+    case 'extended':
+      return session !== null;
+    default:
+      return true;
+  }
+};
+
+const recordRun = async (schedule: Schedule, now: Date, status: ScheduleRunStatus, error: string | null = null): Promise<Schedule> => {
+  const [recorded] = await db.update(schedulesTable)
+    .set({ last_run_at: now, last_status: status, last_error: error })
+    .where(eq(schedulesTable.id, schedule.id))
+    .returning()
+    .execute();
+  return recorded ?? schedule;
+};
+
+// Run every enabled schedule whose next run time has passed. Due rows are
+// claimed by advancing next_run_at under FOR UPDATE SKIP LOCKED, so several
+// server processes never run the same slot twice, and a run that overran
+// several slots is only caught up once. Returns the schedules that were due.
+export const runDueSchedules = async (now: Date = new Date()): Promise<Schedule[]> => {
+  const due = await db.transaction(async (tx) => {
+    const rows = await tx.select()
+      .from(schedulesTable)
+      .where(and(
+        eq(schedulesTable.enabled, true),
+        lte(schedulesTable.next_run_at, now)
+      ))
+      .for('update', { skipLocked: true })
+      .execute();
+
+    for (const row of rows) {
+      await tx.update(schedulesTable)
+        .set({ next_run_at: nextCronTime(row.cron, now) })
+        .where(eq(schedulesTable.id, row.id))
+        .execute();
+    }
+    return rows;
+  });
+
+  const results: Schedule[] = [];
+  for (const schedule of due) {
+    if (!inSession(schedule.session, now.getTime())) {
+      results.push(await recordRun(schedule, now, 'skipped', `Market not in ${schedule.session} session`));
+      continue;
+    }
+
+    try {
+      const symbols = schedule.symbols ?? await getAllSymbols();
+      if (symbols.length === 0) {
+        results.push(await recordRun(schedule, now, 'skipped', 'No symbols to fetch'));
+        continue;
+      }
+
+      console.log(`Running schedule "${schedule.name}" for ${symbols.length} symbols`);
+      const { results: fetched, failed } = await batchFetchStocks({ symbols, interval: schedule.interval, period: schedule.period });
+      if (failed > 0) {
+        const failures = fetched.filter(result => result.status === 'failed').map(result => `${result.symbol}: ${result.error}`);
+        results.push(await recordRun(schedule, now, 'failed', failures.join('; ')));
+      } else {
+        results.push(await recordRun(schedule, now, 'succeeded'));
+      }
+    } catch (error) {
+      console.error(`Schedule "${schedule.name}" failed:`, error);
+      results.push(await recordRun(schedule, now, 'failed', error instanceof Error ? error.message : String(error)));
+    }
+  }
+  return results;
+};
+
+// Check for due schedules every tickMs until stopped. Ticks never overlap: a
+// long run delays the next check instead.
+export const startScheduler = (options: SchedulerOptions = {}): Scheduler => {
+  const tickMs = options.tickMs ?? 15 * 1000;
+  let running = true;
+
+  const loop = (async () => {
+    while (running) {
+      try {
+        await runDueSchedules();
+      } catch (error) {
+        console.error('Scheduler tick failed:', error);
+      }
+      await sleep(tickMs);
+    }
+  })();
+
+  return {
+    stop: async () => {
+      running = false;
+      await loop;
+    }
+  };
+};
@@ -0,0 +1,49 @@
+import { processNextIngestJob, recoverStaleIngestJobs } from './queue';
+
+export interface IngestWorkerOptions {
+  concurrency?: number; // jobs processed at once
+  pollMs?: number; // wait before polling again once the queue is empty
+}
+
+export interface IngestWorker {
+  stop: () => Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Drain the ingest queue in the background. Each slot claims and runs one job
+// at a time, polling while the queue is empty; stale jobs from a previous run
+// are requeued first so restarts pick up where they left off.
+export const startIngestWorker = (options: IngestWorkerOptions = {}): IngestWorker => {
+  const concurrency = options.concurrency ?? 1;
+  const pollMs = options.pollMs ?? 1000;
+  let running = true;
+
+  const runSlot = async () => {
+    while (running) {
+      try {
+        const job = await processNextIngestJob();
+        if (job) continue;
+      } catch (error) {
+        console.error('Ingest worker failed to process a job:', error);
+      }
+      await sleep(pollMs);
+    }
+  };
+
+  const slots = recoverStaleIngestJobs()
+    .then(recovered => {
+      if (recovered > 0) {
+        console.log(`Requeued ${recovered} interrupted ingest jobs`);
+      }
+    })
+    .catch(error => console.error('Failed to recover stale ingest jobs:', error))
+    .then(() => Promise.all(Array.from({ length: concurrency }, runSlot)));
+
+  return {
+    stop: async () => {
+      running = false;
+      await slots;
+    }
+  };
+};
@@ -0,0 +1,46 @@
+import { type QuoteData, type YahooFinanceData } from '../schema';
+import { type MarketDataProvider, type ProviderFetchRequest, type ProviderQuoteRequest } from './types';
+import { simulatedProvider } from './simulated';
+import { yahooProvider } from './yahoo';
+
+export { type BarProvenance, type MarketDataProvider, type ProviderFetchRequest, type ProviderQuoteRequest } from './types';
+
+const DEFAULT_PROVIDER_ID = 'simulated';
+
+// Registry of available providers, keyed by provider id
+const providers = new Map<string, MarketDataProvider>();
+
+export const registerProvider = (provider: MarketDataProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const listProviders = (): string[] => {
+  return [...providers.keys()];
+};
+
+// Resolve a provider by id, falling back to the MARKET_DATA_PROVIDER env var
+export const getProvider = (id?: string): MarketDataProvider => {
+  const providerId = id || process.env['MARKET_DATA_PROVIDER'] || DEFAULT_PROVIDER_ID;
+  const provider = providers.get(providerId);
+  if (!provider) {
+    throw new Error(`Unknown market data provider: ${providerId}`);
+  }
+  return provider;
+};
+
+// Fetch bars through the configured provider
+export const fetchBars = async (request: ProviderFetchRequest, providerId?: string): Promise<YahooFinanceData[]> => {
+  return getProvider(providerId).fetchBars(request);
+};
+
+// Fetch quotes through the configured provider
+export const fetchQuotes = async (request: ProviderQuoteRequest, providerId?: string): Promise<QuoteData[]> => {
+  const provider = getProvider(providerId);
+  if (!provider.fetchQuotes) {
+    throw new Error(`Market data provider ${provider.id} does not supply quotes`);
+  }
+  return provider.fetchQuotes(request);
+};
+
+registerProvider(simulatedProvider);
+registerProvider(yahooProvider);
@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import { type YahooFinanceData } from '../schema';
+import { type BarProvenance, type ProviderFetchRequest } from './types';
+import { getProvider } from '.';
+import { eq } from 'drizzle-orm';
+
+export interface IngestFetch {
+  bars: YahooFinanceData[];
+  provenance: BarProvenance; // of the provider that answered
+}
+
+// The providers a symbol is fetched from, most preferred first: its own list,
+// or the configured default provider
+export const getSymbolProviders = async (symbol: string): Promise<string[]> => {
+  const [row] = await db.select({ providers: symbolsTable.providers })
+    .from(symbolsTable)
+    .where(eq(symbolsTable.symbol, symbol))
+    .execute();
+  return row?.providers?.length ? row.providers : [getProvider().id];
+};
+
+// Ask each provider in turn until one returns bars; a provider that throws
+// or returns none falls through to the next. Throws only when every
+// provider threw, so a flaky source doesn't blank a symbol.
+export const fetchBarsWithFallback = async (request: ProviderFetchRequest, ingestRunId: string, providerIds: string[]): Promise<IngestFetch> => {
+  const failures: { providerId: string; error: unknown }[] = [];
+  let empty: IngestFetch | null = null;
+
+  for (const providerId of providerIds) {
+    try {
+      const provider = getProvider(providerId);
+      const bars = await provider.fetchBars(request);
+      const fetched = { bars, provenance: { source: provider.id, fetchedAt: new Date(), ingestRunId } };
+      if (bars.length > 0) {
+        return fetched;
+      }
+      empty ??= fetched;
+      console.log(`Provider ${providerId} returned no ${request.interval} bars for ${request.symbol}`);
+    } catch (error) {
+      failures.push({ providerId, error });
+      console.error(`Provider ${providerId} failed for ${request.symbol}:`, error);
+    }
+  }
+
+  if (empty) {
+    return empty;
+  }
+  if (failures.length === 1) {
+    throw failures[0].error;
+  }
+  const messages = failures.map(({ providerId, error }) => `${providerId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  throw new Error(`All providers failed for ${request.symbol} (${messages.join('; ')})`);
+};
+
+// Fetch bars for ingest run `ingestRunId` from the symbol's providers, with
+// the provenance to store them with
+export const fetchBarsForIngest = async (request: ProviderFetchRequest, ingestRunId: string): Promise<IngestFetch> => {
+  return fetchBarsWithFallback(request, ingestRunId, await getSymbolProviders(request.symbol));
+};
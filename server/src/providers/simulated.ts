@@ -0,0 +1,341 @@
+import { type QuoteData, type YahooFinanceData } from '../schema';
+import { type MarketDataProvider, type ProviderFetchRequest, type ProviderQuoteRequest } from './types';
+import { alignToBar, intradayMinutes, resolvePeriod } from '../intervals';
+import { getTradingSession, localDay } from '../calendar';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MINUTES_PER_DAY = 24 * 60;
+const YEAR_FRACTION_PER_DAY = 1 / 365;
+
+// The daily price walk starts here; earlier dates reuse the first anchor
+const EPOCH_DAY = Date.UTC(2000, 0, 1) / DAY_MS;
+// Prices sit around the symbol's base price on this day
+const REFERENCE_DAY = Date.UTC(2024, 0, 1) / DAY_MS;
+
+// Market regime parameters, all annualized
+export interface SimulatorRegime {
+  drift: number; // Expected log return per year
+  volatility: number; // Standard deviation of log returns per sqrt(year)
+  jumpIntensity: number; // Expected number of jumps per year
+  jumpMean: number; // Mean log jump size
+  jumpVolatility: number; // Standard deviation of log jump size
+  meanReversion: number; // Speed of reversion toward the drift trend line (0 = pure GBM)
+}
+
+export const simulatorRegimes: Record<string, SimulatorRegime> = {
+  calm: { drift: 0.05, volatility: 0.15, jumpIntensity: 0, jumpMean: 0, jumpVolatility: 0, meanReversion: 1 },
+  normal: { drift: 0.08, volatility: 0.25, jumpIntensity: 2, jumpMean: -0.01, jumpVolatility: 0.04, meanReversion: 0.5 },
+  trending: { drift: 0.35, volatility: 0.2, jumpIntensity: 1, jumpMean: 0.01, jumpVolatility: 0.03, meanReversion: 0.2 },
+  volatile: { drift: 0, volatility: 0.6, jumpIntensity: 12, jumpMean: -0.02, jumpVolatility: 0.06, meanReversion: 0.5 },
+  mean_reverting: { drift: 0, volatility: 0.3, jumpIntensity: 0, jumpMean: 0, jumpVolatility: 0, meanReversion: 4 }
+};
+
+export interface SimulatorConfig {
+  seed: string; // Global seed combined with each symbol
+  symbolSeeds: Record<string, string>; // Per-symbol seed overrides
+  regime: SimulatorRegime;
+  tickSize: number; // Minimum price increment for prices of $1.00 and above
+}
+
+// Base price per symbol so every handler agrees on the rough level of a ticker
+const basePrices: Record<string, number> = {
+  'AAPL': 150.00,
+  'META': 280.00,
+  'AMZN': 120.00,
+  'GOOG': 140.00,
+  'MSFT': 350.00,
+  'NVDA': 450.00
+};
+
+// Typical shares traded per day, spread across the session by the volume curve
+const dailyVolumes: Record<string, number> = {
+  'AAPL': 55_000_000,
+  'META': 15_000_000,
+  'AMZN': 45_000_000,
+  'GOOG': 20_000_000,
+  'MSFT': 22_000_000,
+  'NVDA': 40_000_000
+};
+
+// FNV-1a string hash, used to turn seed strings into PRNG state
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 PRNG seeded from the joined parts
+const createRng = (...parts: Array<string | number>): (() => number) => {
+  let state = hashString(parts.join(':'));
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw via Box-Muller
+const normal = (rng: () => number): number => {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Compound Poisson jump over a step of `dt` years (at most one jump per step)
+const jump = (rng: () => number, regime: SimulatorRegime, dt: number): number => {
+  const hit = rng() < regime.jumpIntensity * dt;
+  const size = regime.jumpMean + regime.jumpVolatility * normal(rng);
+  return hit ? size : 0;
+};
+
+// Log-price anchors at 00:00 UTC for every day from EPOCH_DAY through lastDay.
+// Each day's anchor depends only on the seed and earlier days, so any range
+// that includes a given day sees the same value.
+const computeDailyAnchors = (symbolSeed: string, regime: SimulatorRegime, basePrice: number, lastDay: number): Float64Array => {
+  const rng = createRng(symbolSeed, 'daily');
+  const dt = YEAR_FRACTION_PER_DAY;
+  const driftPerDay = (regime.drift - regime.volatility ** 2 / 2) * dt;
+  const trend = (day: number) => Math.log(basePrice) + driftPerDay * (day - REFERENCE_DAY);
+
+  const anchors = new Float64Array(Math.max(lastDay - EPOCH_DAY + 1, 1));
+  let logPrice = trend(EPOCH_DAY);
+  for (let i = 0; i < anchors.length; i++) {
+    anchors[i] = logPrice;
+    logPrice += driftPerDay
+      + regime.meanReversion * dt * (trend(EPOCH_DAY + i) - logPrice)
+      + regime.volatility * Math.sqrt(dt) * normal(rng)
+      + jump(rng, regime, dt);
+  }
+  return anchors;
+};
+
+// Relative trading activity for the moment `ms`, from the trading calendar.
+// Inside the regular session this is a U-shaped curve averaging 1.0, heavier
+// at the open and close (early closes compress it); extended hours are thin,
+// and overnight, weekends and holidays have no trading at all.
+const getActivity = (ms: number): number => {
+  const session = getTradingSession(localDay(ms));
+  if (!session) {
+    return 0;
+  }
+
+  if (ms >= session.open && ms < session.close) {
+    const f = (ms - session.open) / (session.close - session.open);
+    return (0.6 + 2.4 * (2 * f - 1) ** 2) / 1.4;
+  }
+  if (ms >= session.preOpen && ms < session.postClose) {
+    return 0.08;
+  }
+  return 0;
+};
+
+interface PathStep {
+  start: number; // ms since epoch
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  activity: number; // relative trading activity, see getActivity
+}
+
+// Intraday path for one UTC day at `stepMinutes` resolution, bridged so it
+// opens on this day's anchor and closes on the next day's anchor.
+const buildDayPath = (
+  symbolSeed: string,
+  regime: SimulatorRegime,
+  day: number,
+  startLog: number,
+  endLog: number,
+  stepMinutes: number,
+  dailyVolume: number
+): PathStep[] => {
+  const rng = createRng(symbolSeed, 'intraday', day, stepMinutes);
+  const steps = MINUTES_PER_DAY / stepMinutes;
+  const dt = YEAR_FRACTION_PER_DAY * stepMinutes / MINUTES_PER_DAY;
+
+  // Unbridged walk, with volatility scaled by the activity curve so the
+  // price only moves while the market is trading
+  const walk = new Float64Array(steps + 1);
+  const activity = new Float64Array(steps);
+  const stepVolatility = new Float64Array(steps);
+  for (let k = 0; k < steps; k++) {
+    activity[k] = getActivity(day * DAY_MS + (k * stepMinutes + stepMinutes / 2) * MINUTE_MS);
+    stepVolatility[k] = regime.volatility * Math.sqrt(dt * activity[k]);
+    walk[k + 1] = walk[k] + stepVolatility[k] * normal(rng) + jump(rng, regime, dt);
+  }
+
+  const path: PathStep[] = [];
+  const correction = walk[steps] - (endLog - startLog);
+  const logPriceAt = (k: number) => startLog + walk[k] - (k / steps) * correction;
+  for (let k = 0; k < steps; k++) {
+    const open = Math.exp(logPriceAt(k));
+    const close = Math.exp(logPriceAt(k + 1));
+    const wick = stepVolatility[k] / 2;
+    const volume = dailyVolume / 390 * stepMinutes * activity[k] * Math.exp(0.35 * normal(rng) - 0.06);
+    const high = Math.max(open, close) * Math.exp(Math.abs(normal(rng)) * wick);
+    const low = Math.min(open, close) * Math.exp(-Math.abs(normal(rng)) * wick);
+
+    // Closed-market steps still consume draws so later steps stay stable
+    if (activity[k] === 0) continue;
+
+    path.push({ start: day * DAY_MS + k * stepMinutes * MINUTE_MS, open, high, low, close, volume, activity: activity[k] });
+  }
+  return path;
+};
+
+// Resolve the requested range in ms; explicit start/end win over period.
+// Nothing is simulated before the first daily anchor.
+const resolveRange = ({ period, start, end }: ProviderQuoteRequest): { start: number; end: number } => {
+  const range = start ? { start, end: end ?? new Date() } : resolvePeriod(period, end);
+  return { start: Math.max(range.start.getTime(), EPOCH_DAY * DAY_MS), end: range.end.getTime() };
+};
+
+// Round a price to the symbol's tick: sub-dollar prices trade in 0.0001 increments
+const roundToTick = (price: number, tickSize: number): number => {
+  const tick = price < 1 ? 0.0001 : tickSize;
+  return parseFloat((Math.round(price / tick) * tick).toFixed(4));
+};
+
+// Generate bars for a request. Only steps that have fully elapsed before the
+// range end are included, so the last bar may be a partially formed one.
+export const simulateBars = (request: ProviderFetchRequest, config: SimulatorConfig): YahooFinanceData[] => {
+  const { symbol, interval } = request;
+  const range = resolveRange(request);
+  const rangeStart = alignToBar(range.start, interval);
+  if (range.end <= rangeStart) {
+    return [];
+  }
+
+  const symbolSeed = `${config.symbolSeeds[symbol] ?? config.seed}:${symbol}`;
+  const basePrice = basePrices[symbol] || 100.00;
+  const dailyVolume = dailyVolumes[symbol] || 5_000_000;
+  // Daily and longer bars only need a coarse path for their highs and lows
+  const stepMinutes = intradayMinutes[interval] ? 1 : 30;
+  const stepMs = stepMinutes * MINUTE_MS;
+
+  const firstDay = Math.floor(rangeStart / DAY_MS);
+  const lastDay = Math.floor((range.end - 1) / DAY_MS);
+  const anchors = computeDailyAnchors(symbolSeed, config.regime, basePrice, lastDay + 1);
+  const anchorFor = (day: number) => anchors[Math.max(day - EPOCH_DAY, 0)];
+
+  const bars: YahooFinanceData[] = [];
+  let current: YahooFinanceData | null = null;
+
+  for (let day = firstDay; day <= lastDay; day++) {
+    const path = buildDayPath(symbolSeed, config.regime, day, anchorFor(day), anchorFor(day + 1), stepMinutes, dailyVolume);
+
+    for (const step of path) {
+      if (step.start < rangeStart || step.start + stepMs > range.end) continue;
+
+      const barStart = Math.floor(alignToBar(step.start, interval) / 1000);
+      if (!current || current.timestamp !== barStart) {
+        current = { timestamp: barStart, open: step.open, high: step.high, low: step.low, close: step.close, volume: 0 };
+        bars.push(current);
+      }
+      current.high = Math.max(current.high, step.high);
+      current.low = Math.min(current.low, step.low);
+      current.close = step.close;
+      current.volume += step.volume;
+    }
+  }
+
+  return bars.map(bar => {
+    const open = roundToTick(bar.open, config.tickSize);
+    const close = roundToTick(bar.close, config.tickSize);
+    return {
+      timestamp: bar.timestamp,
+      open,
+      high: Math.max(roundToTick(bar.high, config.tickSize), open, close),
+      low: Math.min(roundToTick(bar.low, config.tickSize), open, close),
+      close,
+      volume: Math.max(1, Math.round(bar.volume))
+    };
+  });
+};
+
+// Quoted spread in basis points at average activity in the normal regime
+const BASE_SPREAD_BPS = 2;
+
+// Generate one NBBO snapshot at the end of every trading minute in the range.
+// Quotes straddle the same price path as the bars; spreads widen with the
+// regime's volatility and in thin (extended-hours) trading, and displayed
+// size shrinks with them.
+export const simulateQuotes = (request: ProviderQuoteRequest, config: SimulatorConfig): QuoteData[] => {
+  const { symbol } = request;
+  const range = resolveRange(request);
+  const rangeStart = alignToBar(range.start, '1m');
+  if (range.end <= rangeStart) {
+    return [];
+  }
+
+  const symbolSeed = `${config.symbolSeeds[symbol] ?? config.seed}:${symbol}`;
+  const basePrice = basePrices[symbol] || 100.00;
+  const dailyVolume = dailyVolumes[symbol] || 5_000_000;
+  const volatilityScale = config.regime.volatility / simulatorRegimes['normal'].volatility;
+
+  const firstDay = Math.floor(rangeStart / DAY_MS);
+  const lastDay = Math.floor((range.end - 1) / DAY_MS);
+  const anchors = computeDailyAnchors(symbolSeed, config.regime, basePrice, lastDay + 1);
+  const anchorFor = (day: number) => anchors[Math.max(day - EPOCH_DAY, 0)];
+
+  const quotes: QuoteData[] = [];
+  for (let day = firstDay; day <= lastDay; day++) {
+    const path = buildDayPath(symbolSeed, config.regime, day, anchorFor(day), anchorFor(day + 1), 1, dailyVolume);
+    const rng = createRng(symbolSeed, 'quotes', day);
+
+    for (const step of path) {
+      // Draw before filtering so a quote doesn't depend on the range requested
+      const spreadNoise = Math.exp(0.3 * normal(rng));
+      const bidDepth = -Math.log(1 - rng());
+      const askDepth = -Math.log(1 - rng());
+      const timestamp = step.start + MINUTE_MS;
+      if (step.start < rangeStart || timestamp > range.end) continue;
+
+      const mid = step.close;
+      const tick = mid < 1 ? 0.0001 : config.tickSize;
+      const halfSpread = mid * BASE_SPREAD_BPS * volatilityScale * spreadNoise / Math.sqrt(step.activity) / 2e4;
+      const bid = parseFloat((Math.floor((mid - halfSpread) / tick) * tick).toFixed(4));
+      const ask = Math.max(
+        parseFloat((Math.ceil((mid + halfSpread) / tick) * tick).toFixed(4)),
+        parseFloat((bid + tick).toFixed(4))
+      );
+      const lots = 5 * Math.sqrt(step.activity);
+
+      quotes.push({
+        timestamp,
+        bid,
+        ask,
+        bid_size: 100 * Math.max(1, Math.round(bidDepth * lots)),
+        ask_size: 100 * Math.max(1, Math.round(askDepth * lots))
+      });
+    }
+  }
+
+  return quotes;
+};
+
+// Seeded geometric Brownian motion simulator. The default instance reads
+// SIMULATOR_SEED and SIMULATOR_REGIME (a key of simulatorRegimes).
+export const createSimulatedProvider = (config: Partial<SimulatorConfig> = {}): MarketDataProvider => {
+  const resolved: SimulatorConfig = {
+    seed: config.seed ?? process.env['SIMULATOR_SEED'] ?? 'default',
+    symbolSeeds: config.symbolSeeds ?? {},
+    regime: config.regime ?? simulatorRegimes[process.env['SIMULATOR_REGIME'] ?? 'normal'] ?? simulatorRegimes['normal'],
+    tickSize: config.tickSize ?? 0.01
+  };
+
+  return {
+    id: 'simulated',
+    fetchBars: async (request: ProviderFetchRequest): Promise<YahooFinanceData[]> => simulateBars(request, resolved),
+    fetchQuotes: async (request: ProviderQuoteRequest): Promise<QuoteData[]> => simulateQuotes(request, resolved)
+  };
+};
+
+export const simulatedProvider = createSimulatedProvider();
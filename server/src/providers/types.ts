@@ -0,0 +1,29 @@
+import { type Interval, type Period, type QuoteData, type YahooFinanceData } from '../schema';
+
+// Parameters every provider receives for a bar request
+export interface ProviderFetchRequest {
+  symbol: string;
+  interval: Interval;
+  period: Period;
+  start?: Date; // Explicit range start; overrides period when set
+  end?: Date; // Explicit range end; defaults to now
+}
+
+// Where fetched bars came from, stored alongside them
+export interface BarProvenance {
+  source: string; // id of the provider that returned them
+  fetchedAt: Date;
+  ingestRunId: string; // batch id of the fetch or ingest jobs
+}
+
+// Parameters every provider receives for a quote request
+export type ProviderQuoteRequest = Omit<ProviderFetchRequest, 'interval'>;
+
+// A source of OHLCV bars. Implementations normalize whatever their upstream
+// returns into YahooFinanceData (unix seconds, chronological order).
+export interface MarketDataProvider {
+  id: string;
+  fetchBars: (request: ProviderFetchRequest) => Promise<YahooFinanceData[]>;
+  // Top-of-book quotes in chronological order, for providers that have them
+  fetchQuotes?: (request: ProviderQuoteRequest) => Promise<QuoteData[]>;
+}
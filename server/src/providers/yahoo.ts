@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { type YahooFinanceData } from '../schema';
+import { type MarketDataProvider, type ProviderFetchRequest } from './types';
+
+const DEFAULT_BASE_URL = 'https://query1.finance.yahoo.com';
+
+// Yahoo Finance v8 chart response. Quote arrays are parallel to `timestamp`
+// and contain nulls for minutes without trades.
+const nullableNumberArray = z.array(z.number().nullable());
+
+export const yahooChartResponseSchema = z.object({
+  chart: z.object({
+    result: z.array(z.object({
+      meta: z.object({
+        symbol: z.string(),
+        currency: z.string().nullable().optional(),
+        exchangeName: z.string().optional(),
+        exchangeTimezoneName: z.string().optional(),
+        gmtoffset: z.number(),
+        dataGranularity: z.string().optional(),
+        range: z.string().optional()
+      }).passthrough(),
+      // Yahoo omits timestamp and indicators entirely when a range has no bars
+      timestamp: z.array(z.number()).optional(),
+      indicators: z.object({
+        quote: z.array(z.object({
+          open: nullableNumberArray.optional(),
+          high: nullableNumberArray.optional(),
+          low: nullableNumberArray.optional(),
+          close: nullableNumberArray.optional(),
+          volume: nullableNumberArray.optional()
+        }))
+      })
+    })).nullable(),
+    error: z.object({
+      code: z.string(),
+      description: z.string()
+    }).nullable()
+  })
+});
+
+export type YahooChartResponse = z.infer<typeof yahooChartResponseSchema>;
+
+export interface YahooChartMeta {
+  symbol: string;
+  currency: string | null;
+  exchangeTimezoneName: string | null;
+  gmtoffset: number; // Seconds east of UTC for the exchange
+}
+
+export interface ParsedYahooChart {
+  meta: YahooChartMeta;
+  bars: YahooFinanceData[];
+}
+
+// Map a raw v8 chart payload into YahooFinanceData bars.
+// Bars with any null price are dropped; a null volume is treated as 0.
+export const parseYahooChartResponse = (payload: unknown): ParsedYahooChart => {
+  const parsed = yahooChartResponseSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new Error(`Malformed Yahoo chart response: ${parsed.error.message}`);
+  }
+
+  const { result, error } = parsed.data.chart;
+  if (error) {
+    throw new Error(`Yahoo chart error (${error.code}): ${error.description}`);
+  }
+  if (!result || result.length === 0) {
+    throw new Error('Yahoo chart response contained no result');
+  }
+
+  const chart = result[0];
+  const meta: YahooChartMeta = {
+    symbol: chart.meta.symbol,
+    currency: chart.meta.currency ?? null,
+    exchangeTimezoneName: chart.meta.exchangeTimezoneName ?? null,
+    gmtoffset: chart.meta.gmtoffset
+  };
+
+  const timestamps = chart.timestamp ?? [];
+  const quote = chart.indicators.quote[0];
+  if (!quote) {
+    return { meta, bars: [] };
+  }
+
+  const bars: YahooFinanceData[] = [];
+  timestamps.forEach((timestamp, i) => {
+    const open = quote.open?.[i];
+    const high = quote.high?.[i];
+    const low = quote.low?.[i];
+    const close = quote.close?.[i];
+    if (open == null || high == null || low == null || close == null) {
+      return;
+    }
+
+    bars.push({
+      timestamp,
+      open,
+      high,
+      low,
+      close,
+      volume: Math.round(quote.volume?.[i] ?? 0)
+    });
+  });
+
+  return { meta, bars };
+};
+
+// Provider speaking the v8 chart API. Point baseUrl at the fixture server
+// (see yahoo_fixture_server.ts) to work offline.
+export const createYahooProvider = (baseUrl: string = process.env['YAHOO_CHART_BASE_URL'] || DEFAULT_BASE_URL): MarketDataProvider => ({
+  id: 'yahoo',
+
+  fetchBars: async ({ symbol, interval, period, start, end }: ProviderFetchRequest): Promise<YahooFinanceData[]> => {
+    const url = new URL(`/v8/finance/chart/${encodeURIComponent(symbol)}`, baseUrl);
+    url.searchParams.set('interval', interval);
+    if (start) {
+      // Explicit ranges use unix-second period1/period2 instead of range
+      url.searchParams.set('period1', Math.floor(start.getTime() / 1000).toString());
+      url.searchParams.set('period2', Math.floor((end ?? new Date()).getTime() / 1000).toString());
+    } else {
+      url.searchParams.set('range', period);
+    }
+
+    const response = await fetch(url);
+    const payload: unknown = await response.json().catch(() => null);
+
+    // Yahoo reports most failures as a chart.error body with a 4xx status,
+    // so prefer its description over the bare HTTP status
+    if (!response.ok && !yahooChartResponseSchema.safeParse(payload).data?.chart.error) {
+      throw new Error(`Yahoo chart request failed with HTTP ${response.status}`);
+    }
+
+    return parseYahooChartResponse(payload).bars;
+  }
+});
+
+export const yahooProvider = createYahooProvider();
@@ -0,0 +1,77 @@
+import { createServer, type Server } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// Local stand-in for query1.finance.yahoo.com that serves recorded v8 chart
+// responses from fixtures/yahoo/<SYMBOL>.json. Unknown symbols get Yahoo's
+// recorded "Not Found" error body with a 404, matching the real API.
+const FIXTURE_DIR = join(import.meta.dir, 'fixtures', 'yahoo');
+const CHART_PATH = /^\/v8\/finance\/chart\/([^/]+)$/;
+
+export interface FixtureServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+const readFixture = async (name: string): Promise<string | null> => {
+  try {
+    return await readFile(join(FIXTURE_DIR, `${name}.json`), 'utf8');
+  } catch {
+    return null;
+  }
+};
+
+const handleRequest = async (path: string): Promise<{ status: number; body: string }> => {
+  const match = CHART_PATH.exec(path);
+  if (!match) {
+    return { status: 404, body: JSON.stringify({ error: 'Not Found' }) };
+  }
+
+  let symbol: string;
+  try {
+    symbol = decodeURIComponent(match[1]).toUpperCase();
+  } catch {
+    // Malformed percent-escape, e.g. %E0
+    return { status: 400, body: JSON.stringify({ error: 'Bad Request' }) };
+  }
+  // Only plain tickers map to fixture files
+  const fixture = /^[A-Z0-9.^-]+$/.test(symbol) ? await readFixture(symbol) : null;
+  if (fixture) {
+    return { status: 200, body: fixture };
+  }
+
+  return { status: 404, body: (await readFixture('not_found')) ?? '' };
+};
+
+export const startYahooFixtureServer = (port: number = 0): Promise<FixtureServer> => {
+  const server: Server = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    handleRequest(pathname)
+      .catch(error => {
+        console.error('Yahoo fixture request failed:', error);
+        return { status: 500, body: JSON.stringify({ error: 'Internal Server Error' }) };
+      })
+      .then(({ status, body }) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(body);
+      });
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+};
+
+if (import.meta.main) {
+  const port = Number(process.env['YAHOO_FIXTURE_PORT'] || 2023);
+  startYahooFixtureServer(port).then(({ url }) => {
+    console.log(`Yahoo fixture server listening at ${url}`);
+  });
+}
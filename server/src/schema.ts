@@ -1,15 +1,139 @@
 
 import { z } from 'zod';
+import { validateIntervalPeriod } from './intervals';
+import { validateCron } from './jobs/cron';
 
-// Stock symbols enum
-export const stockSymbolSchema = z.enum(['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA']);
+// Ticker symbol, normalized to upper case (e.g. AAPL, BRK.B, ^GSPC)
+export const stockSymbolSchema = z.string().trim().toUpperCase().regex(/^[A-Z0-9.^=-]{1,16}$/, 'Invalid ticker symbol');
 export type StockSymbol = z.infer<typeof stockSymbolSchema>;
 
+// Symbols tracked by default on a fresh database
+export const DEFAULT_SYMBOLS: StockSymbol[] = ['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA'];
+
+// Tracked symbol record from the symbols table
+export const trackedSymbolSchema = z.object({
+  symbol: stockSymbolSchema,
+  name: z.string().nullable(),
+  exchange_mic: z.string().nullable(),
+  currency: z.string(),
+  timezone: z.string(), // IANA zone of the exchange, e.g. America/New_York
+  sector: z.string().nullable(),
+  industry: z.string().nullable(),
+  tick_size: z.number().positive(),
+  lot_size: z.number().int().positive(),
+  is_active: z.boolean(),
+  providers: z.array(z.string()).nullable(), // fetch order with fallback; null uses the default provider
+  created_at: z.coerce.date()
+});
+
+export type TrackedSymbol = z.infer<typeof trackedSymbolSchema>;
+
+// Input schema for adding (or reactivating) a symbol
+export const addSymbolInputSchema = z.object({
+  symbol: stockSymbolSchema
+});
+
+export type AddSymbolInput = z.infer<typeof addSymbolInputSchema>;
+
+// Input schema for deactivating a symbol
+export const deactivateSymbolInputSchema = z.object({
+  symbol: stockSymbolSchema
+});
+
+export type DeactivateSymbolInput = z.infer<typeof deactivateSymbolInputSchema>;
+
+// Input schema for setting the providers a symbol is fetched from, most
+// preferred first; null goes back to the default provider
+export const setSymbolProvidersInputSchema = z.object({
+  symbol: stockSymbolSchema,
+  providers: z.array(z.string().trim().min(1)).min(1).max(10)
+    .refine(providers => new Set(providers).size === providers.length, 'Providers must not repeat')
+    .nullable()
+});
+
+export type SetSymbolProvidersInput = z.infer<typeof setSymbolProvidersInputSchema>;
+
+// Whether Intl knows `zone` as an IANA time zone
+const isTimeZone = (zone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Exchange time zones by ISO 10383 MIC, for metadata that gives no time zone
+const exchangeTimezones: Record<string, string> = {
+  XNAS: 'America/New_York', XNYS: 'America/New_York', ARCX: 'America/New_York',
+  BATS: 'America/New_York', XASE: 'America/New_York', XTSE: 'America/Toronto',
+  XLON: 'Europe/London', XETR: 'Europe/Berlin', XPAR: 'Europe/Paris',
+  XAMS: 'Europe/Amsterdam', XSWX: 'Europe/Zurich', XTKS: 'Asia/Tokyo',
+  XHKG: 'Asia/Hong_Kong', XASX: 'Australia/Sydney'
+};
+
+// Reference data for one symbol, as imported from CSV. Without a timezone
+// column the zone follows the exchange MIC, falling back to New York.
+export const symbolMetadataSchema = z.object({
+  symbol: stockSymbolSchema,
+  name: z.string().trim().min(1).nullable().default(null),
+  exchange_mic: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{4}$/, 'Invalid exchange MIC').nullable().default(null),
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Invalid currency code').default('USD'),
+  timezone: z.string().trim().refine(isTimeZone, 'Invalid IANA time zone').optional(),
+  sector: z.string().trim().min(1).nullable().default(null),
+  industry: z.string().trim().min(1).nullable().default(null),
+  tick_size: z.coerce.number().positive().default(0.01),
+  lot_size: z.coerce.number().int().positive().default(100)
+}).transform(record => ({
+  ...record,
+  timezone: record.timezone ?? (record.exchange_mic && exchangeTimezones[record.exchange_mic]) ?? 'America/New_York'
+}));
+
+export type SymbolMetadata = z.infer<typeof symbolMetadataSchema>;
+
+// Input schema for importing symbol reference data. The CSV needs a header
+// row with a `symbol` column; other metadata columns are optional.
+export const importSymbolMetadataInputSchema = z.object({
+  csv: z.string().min(1)
+});
+
+export type ImportSymbolMetadataInput = z.infer<typeof importSymbolMetadataInputSchema>;
+
+// Input schema for listing symbols
+export const listSymbolsInputSchema = z.object({
+  includeInactive: z.boolean().default(false)
+});
+
+export type ListSymbolsInput = z.infer<typeof listSymbolsInputSchema>;
+
 // Interval enum for different time periods
 export const intervalSchema = z.enum(['1m', '2m', '5m', '15m', '30m', '60m', '90m', '1h', '1d', '5d', '1wk', '1mo', '3mo']);
 export type Interval = z.infer<typeof intervalSchema>;
 
+// Lookback periods, as accepted by Yahoo's chart API
+export const periodSchema = z.enum(['1d', '5d', '1mo', '3mo', '6mo', '1y', '2y', '5y', '10y', 'ytd', 'max']);
+export type Period = z.infer<typeof periodSchema>;
+
+// Reject interval/period pairs upstream sources can't serve (e.g. 1m over 1y)
+const refineIntervalPeriod = (input: { interval: Interval; period: Period }, ctx: z.RefinementCtx) => {
+  const message = validateIntervalPeriod(input.interval, input.period);
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['period'], message });
+  }
+};
+
 // Stock tick data schema - represents OHLCV data
+// Trading session a bar belongs to; see getBarSession
+export const marketSessionSchema = z.enum(['pre', 'regular', 'post']);
+
+export type MarketSession = z.infer<typeof marketSessionSchema>;
+
+// Sessions a bar query returns: regular hours only, regular plus pre- and
+// post-market, or every stored bar
+export const sessionFilterSchema = z.enum(['regular', 'extended', 'all']);
+
+export type SessionFilter = z.infer<typeof sessionFilterSchema>;
+
 export const stockTickSchema = z.object({
   id: z.number(),
   symbol: stockSymbolSchema,
@@ -20,17 +144,213 @@ export const stockTickSchema = z.object({
   close: z.number(),
   volume: z.number().int(),
   interval: intervalSchema,
-  created_at: z.coerce.date()
+  session: marketSessionSchema.nullable(), // null outside extended hours
+  is_final: z.boolean(), // false for the forming bar of a still-open interval
+  // Provenance: which provider and ingest run produced the values; null when unknown
+  source: z.string().nullable(),
+  fetched_at: z.coerce.date().nullable(),
+  ingest_run_id: z.string().nullable(),
+  payload_hash: z.string().nullable(),
+  created_at: z.coerce.date(),
+  // Set when the bar was rolled up from finer stored bars of this interval
+  source_interval: intervalSchema.optional()
 });
 
 export type StockTick = z.infer<typeof stockTickSchema>;
 
+// Bars of one symbol and interval that an ingest just inserted or changed,
+// oldest first; the last one may still be forming
+export const barUpdateSchema = z.object({
+  symbol: stockSymbolSchema,
+  interval: intervalSchema,
+  bars: z.array(stockTickSchema)
+});
+
+export type BarUpdate = z.infer<typeof barUpdateSchema>;
+
+// Input schema for the bar stream; every symbol or interval when omitted
+export const onBarsInputSchema = z.object({
+  symbol: stockSymbolSchema.optional(),
+  interval: intervalSchema.optional()
+});
+
+export type OnBarsInput = z.infer<typeof onBarsInputSchema>;
+
+// Trade schema - a single stored trade print
+export const tradeSchema = z.object({
+  id: z.number(),
+  symbol: stockSymbolSchema,
+  timestamp: z.coerce.date(),
+  price: z.number(),
+  size: z.number().int(),
+  exchange: z.string().nullable(),
+  conditions: z.array(z.string()).nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Trade = z.infer<typeof tradeSchema>;
+
+// A trade print as received from a feed
+export const tradePrintSchema = z.object({
+  timestamp: z.coerce.date(),
+  price: z.number().positive(),
+  size: z.number().int().positive(),
+  exchange: z.string().trim().toUpperCase().min(1).nullable().default(null),
+  conditions: z.array(z.string().trim().min(1)).nullable().default(null)
+});
+
+export type TradePrint = z.infer<typeof tradePrintSchema>;
+
+// Input schema for storing trade prints
+export const recordTradesInputSchema = z.object({
+  symbol: stockSymbolSchema,
+  trades: z.array(tradePrintSchema).min(1).max(10000)
+});
+
+export type RecordTradesInput = z.infer<typeof recordTradesInputSchema>;
+
+// Input schema for reading stored trades
+export const getTradesInputSchema = z.object({
+  symbol: stockSymbolSchema,
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  limit: z.number().int().positive().max(5000).default(500)
+});
+
+export type GetTradesInput = z.infer<typeof getTradesInputSchema>;
+
+// Quote schema - a stored top-of-book (NBBO) snapshot
+export const quoteSchema = z.object({
+  id: z.number(),
+  symbol: stockSymbolSchema,
+  timestamp: z.coerce.date(),
+  bid: z.number(),
+  ask: z.number(),
+  bid_size: z.number().int(),
+  ask_size: z.number().int(),
+  created_at: z.coerce.date()
+});
+
+export type Quote = z.infer<typeof quoteSchema>;
+
+// Input schema for ingesting quotes from the market data provider
+export const ingestQuotesInputSchema = z.object({
+  symbol: stockSymbolSchema,
+  period: periodSchema.default('1d')
+});
+
+export type IngestQuotesInput = z.infer<typeof ingestQuotesInputSchema>;
+
+// Input schema for reading stored quotes
+export const getQuotesInputSchema = z.object({
+  symbol: stockSymbolSchema,
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  limit: z.number().int().positive().max(5000).default(500)
+});
+
+export type GetQuotesInput = z.infer<typeof getQuotesInputSchema>;
+
+// Input schema for rebuilding bars from stored trades. Without a range,
+// every stored trade for the symbol is aggregated.
+export const aggregateTradesInputSchema = z.object({
+  symbol: stockSymbolSchema,
+  interval: intervalSchema,
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional()
+});
+
+export type AggregateTradesInput = z.infer<typeof aggregateTradesInputSchema>;
+
+// Input schema for gap detection and backfill. An explicit startDate
+// overrides period; the range ends at endDate or now.
+export const gapRangeInputSchema = z.object({
+  symbol: stockSymbolSchema,
+  interval: intervalSchema.default('1m'),
+  period: periodSchema.default('5d'),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional()
+}).superRefine(refineIntervalPeriod);
+
+export type GapRangeInput = z.infer<typeof gapRangeInputSchema>;
+
+// A run of consecutive expected bars missing from storage
+export const barGapSchema = z.object({
+  start: z.coerce.date(), // first missing bar
+  end: z.coerce.date(), // end of the last missing bar (exclusive)
+  missing: z.number().int()
+});
+
+export type BarGap = z.infer<typeof barGapSchema>;
+
+// Stored bars compared against the regular-session bars the trading
+// calendar expects for the range
+export const gapReportSchema = z.object({
+  symbol: stockSymbolSchema,
+  interval: intervalSchema,
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+  expected: z.number().int(),
+  present: z.number().int(),
+  missing: z.number().int(),
+  gaps: z.array(barGapSchema)
+});
+
+export type GapReport = z.infer<typeof gapReportSchema>;
+
+// Outcome of filling the gaps in a range from the market data provider
+export const backfillResultSchema = z.object({
+  symbol: stockSymbolSchema,
+  interval: intervalSchema,
+  gaps: z.number().int(), // gaps found before backfilling
+  inserted: z.number().int(), // bars written into the gaps
+  failed: z.number().int(), // gaps whose fetch failed
+  remaining: z.number().int() // bars still missing afterwards
+});
+
+export type BackfillResult = z.infer<typeof backfillResultSchema>;
+
+// Input schema for the coverage report; without filters every stored
+// symbol and interval is reported
+export const getCoverageInputSchema = z.object({
+  symbol: stockSymbolSchema.optional(),
+  interval: intervalSchema.optional()
+});
+
+export type GetCoverageInput = z.infer<typeof getCoverageInputSchema>;
+
+// Completeness of one New York trading date
+export const coverageDaySchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  expected: z.number().int(), // regular-session bars the calendar expects
+  present: z.number().int() // expected bars that are stored
+});
+
+export type CoverageDay = z.infer<typeof coverageDaySchema>;
+
+// What is stored for one symbol and interval. Counts of expected bars and
+// gaps cover regular hours from the first stored date to the last.
+export const seriesCoverageSchema = z.object({
+  symbol: stockSymbolSchema,
+  interval: intervalSchema,
+  firstTimestamp: z.coerce.date(),
+  lastTimestamp: z.coerce.date(),
+  barCount: z.number().int(), // every stored bar, extended hours included
+  expectedCount: z.number().int(),
+  presentCount: z.number().int(),
+  gapCount: z.number().int(), // runs of consecutive missing bars, as findGaps reports them
+  lastIngest: z.coerce.date(), // when a bar was last fetched, or inserted if its fetch time is unknown
+  days: z.array(coverageDaySchema)
+});
+
+export type SeriesCoverage = z.infer<typeof seriesCoverageSchema>;
+
 // Input schema for fetching stock data
 export const fetchStockDataInputSchema = z.object({
   symbol: stockSymbolSchema,
   interval: intervalSchema.default('1m'),
-  period: z.string().default('1d') // 1d, 5d, 1mo, 3mo, 6mo, 1y, 2y, 5y, 10y, ytd, max
-});
+  period: periodSchema.default('1d')
+}).superRefine(refineIntervalPeriod);
 
 export type FetchStockDataInput = z.infer<typeof fetchStockDataInputSchema>;
 
@@ -40,7 +360,12 @@ export const getHistoricalDataInputSchema = z.object({
   interval: intervalSchema.default('1m'),
   startDate: z.coerce.date().optional(),
   endDate: z.coerce.date().optional(),
-  limit: z.number().int().positive().max(1000).default(100)
+  limit: z.number().int().positive().max(1000).default(100),
+  session: sessionFilterSchema.default('all'),
+  // Leave out forming bars, for indicators and alerts that must not act on a half-built candle
+  finalOnly: z.boolean().default(false),
+  // Answer from the bar versions known at this moment instead of the current ones
+  asOf: z.coerce.date().optional()
 });
 
 export type GetHistoricalDataInput = z.infer<typeof getHistoricalDataInputSchema>;
@@ -52,7 +377,9 @@ export const candlestickDataPointSchema = z.object({
   high: z.number(),
   low: z.number(),
   close: z.number(),
-  volume: z.number().int()
+  volume: z.number().int(),
+  session: marketSessionSchema.nullable(),
+  is_final: z.boolean()
 });
 
 export type CandlestickDataPoint = z.infer<typeof candlestickDataPointSchema>;
@@ -61,20 +388,308 @@ export type CandlestickDataPoint = z.infer<typeof candlestickDataPointSchema>;
 export const chartDataResponseSchema = z.object({
   symbol: stockSymbolSchema,
   interval: intervalSchema,
-  data: z.array(candlestickDataPointSchema)
+  data: z.array(candlestickDataPointSchema),
+  derived: z.boolean(), // true when rolled up from finer stored bars
+  sourceInterval: intervalSchema // interval of the stored bars behind `data`
 });
 
 export type ChartDataResponse = z.infer<typeof chartDataResponseSchema>;
 
-// Batch fetch input for multiple symbols
+// Batch fetch input for multiple symbols, fetched within one request; larger
+// batches belong on the ingest queue (enqueueIngestJobsInputSchema)
 export const batchFetchInputSchema = z.object({
-  symbols: z.array(stockSymbolSchema).min(1).max(6),
+  symbols: z.array(stockSymbolSchema).min(1).max(100),
   interval: intervalSchema.default('1m'),
-  period: z.string().default('1d')
-});
+  period: periodSchema.default('1d'),
+  // Tags the progress events, so a client can subscribe before starting the
+  // fetch; a new id is generated when omitted
+  batchId: z.string().uuid().optional()
+}).superRefine(refineIntervalPeriod);
 
 export type BatchFetchInput = z.infer<typeof batchFetchInputSchema>;
 
+// How fetching one symbol went: bars stored, the provider had none, or an error
+export const symbolFetchStatusSchema = z.enum(['succeeded', 'empty', 'failed']);
+
+export type SymbolFetchStatus = z.infer<typeof symbolFetchStatusSchema>;
+
+// Per-symbol outcome of a batch fetch
+export const symbolFetchResultSchema = z.object({
+  symbol: stockSymbolSchema,
+  status: symbolFetchStatusSchema,
+  inserted: z.number().int(),
+  updated: z.number().int(),
+  unchanged: z.number().int(), // already stored with identical OHLCV
+  quarantined: z.number().int(), // held back by validation for review
+  durationMs: z.number(),
+  error: z.string().nullable()
+});
+
+export type SymbolFetchResult = z.infer<typeof symbolFetchResultSchema>;
+
+// Outcome of a batch fetch, one entry per requested symbol in request order
+export const batchFetchResultSchema = z.object({
+  batchId: z.string(),
+  interval: intervalSchema,
+  period: periodSchema,
+  results: z.array(symbolFetchResultSchema),
+  failed: z.number().int(), // symbols whose fetch or upsert threw
+  durationMs: z.number()
+});
+
+export type BatchFetchResult = z.infer<typeof batchFetchResultSchema>;
+
+// Lifecycle of a queued ingest job
+export const ingestJobStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed']);
+
+export type IngestJobStatus = z.infer<typeof ingestJobStatusSchema>;
+
+// A queued fetch of one symbol's bars
+export const ingestJobSchema = z.object({
+  id: z.number(),
+  batch_id: z.string(),
+  symbol: stockSymbolSchema,
+  interval: intervalSchema,
+  period: periodSchema,
+  status: ingestJobStatusSchema,
+  attempts: z.number().int(),
+  max_attempts: z.number().int(),
+  run_after: z.coerce.date(), // earliest time of the next attempt
+  last_error: z.string().nullable(),
+  // Bars stored by the successful attempt
+  bars_inserted: z.number().int().nullable(),
+  bars_updated: z.number().int().nullable(),
+  bars_unchanged: z.number().int().nullable(),
+  bars_quarantined: z.number().int().nullable(),
+  started_at: z.coerce.date().nullable(),
+  finished_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type IngestJob = z.infer<typeof ingestJobSchema>;
+
+// Input schema for queueing fetches; it allows more symbols than
+// batchFetchInputSchema, since workers drain the queue in the background
+export const enqueueIngestJobsInputSchema = z.object({
+  symbols: z.array(stockSymbolSchema).min(1).max(1000),
+  interval: intervalSchema.default('1m'),
+  period: periodSchema.default('1d'),
+  maxAttempts: z.number().int().positive().max(20).default(5)
+}).superRefine(refineIntervalPeriod);
+
+export type EnqueueIngestJobsInput = z.infer<typeof enqueueIngestJobsInputSchema>;
+
+// Jobs queued together by one enqueueIngestJobs call
+export const ingestBatchSchema = z.object({
+  batchId: z.string(),
+  jobs: z.array(ingestJobSchema)
+});
+
+export type IngestBatch = z.infer<typeof ingestBatchSchema>;
+
+// Input schema for listing ingest jobs, most recent first
+export const getIngestJobsInputSchema = z.object({
+  batchId: z.string().optional(),
+  status: ingestJobStatusSchema.optional(),
+  limit: z.number().int().positive().max(1000).default(200)
+});
+
+export type GetIngestJobsInput = z.infer<typeof getIngestJobsInputSchema>;
+
+// Steps of fetching one symbol reported to progress subscribers
+export const ingestProgressStageSchema = z.enum(['started', 'written', 'finished', 'failed']);
+
+export type IngestProgressStage = z.infer<typeof ingestProgressStageSchema>;
+
+// One step of a batch fetch or queued ingest job, streamed as it happens
+export const ingestProgressEventSchema = z.object({
+  batchId: z.string(),
+  symbol: stockSymbolSchema,
+  stage: ingestProgressStageSchema,
+  // Bars stored or quarantined so far, set from the written stage on
+  inserted: z.number().int(),
+  updated: z.number().int(),
+  unchanged: z.number().int(),
+  quarantined: z.number().int(),
+  error: z.string().nullable(),
+  retrying: z.boolean(), // a failed queued job that will be attempted again
+  at: z.coerce.date()
+});
+
+export type IngestProgressEvent = z.infer<typeof ingestProgressEventSchema>;
+
+// Input schema for the progress subscription; all batches when batchId is omitted
+export const onIngestProgressInputSchema = z.object({
+  batchId: z.string().optional()
+});
+
+export type OnIngestProgressInput = z.infer<typeof onIngestProgressInputSchema>;
+
+// Cron expression in New York time, e.g. "*/5 9-16 * * 1-5"
+export const cronExpressionSchema = z.string().trim().superRefine((expression, ctx) => {
+  const message = validateCron(expression);
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
+
+// Outcome of a schedule's most recent run
+export const scheduleRunStatusSchema = z.enum(['succeeded', 'failed', 'skipped']);
+
+export type ScheduleRunStatus = z.infer<typeof scheduleRunStatusSchema>;
+
+// A recurring fetch run by the scheduler
+export const scheduleSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  cron: z.string(),
+  session: sessionFilterSchema, // only run while the market is in this session
+  symbols: z.array(stockSymbolSchema).nullable(), // null means every active symbol
+  interval: intervalSchema,
+  period: periodSchema,
+  enabled: z.boolean(),
+  next_run_at: z.coerce.date(),
+  last_run_at: z.coerce.date().nullable(),
+  last_status: scheduleRunStatusSchema.nullable(),
+  last_error: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Schedule = z.infer<typeof scheduleSchema>;
+
+// Input schema for creating a schedule
+export const createScheduleInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  cron: cronExpressionSchema,
+  session: sessionFilterSchema.default('all'),
+  symbols: z.array(stockSymbolSchema).min(1).nullable().default(null),
+  interval: intervalSchema.default('1m'),
+  period: periodSchema.default('1d'),
+  enabled: z.boolean().default(true)
+}).superRefine(refineIntervalPeriod);
+
+export type CreateScheduleInput = z.infer<typeof createScheduleInputSchema>;
+
+// Input schema for updating a schedule; omitted fields are left unchanged
+export const updateScheduleInputSchema = z.object({
+  id: z.number().int(),
+  name: z.string().trim().min(1).max(100).optional(),
+  cron: cronExpressionSchema.optional(),
+  session: sessionFilterSchema.optional(),
+  symbols: z.array(stockSymbolSchema).min(1).nullable().optional(),
+  interval: intervalSchema.optional(),
+  period: periodSchema.optional(),
+  enabled: z.boolean().optional()
+});
+
+export type UpdateScheduleInput = z.infer<typeof updateScheduleInputSchema>;
+
+// Input schema for deleting a schedule
+export const deleteScheduleInputSchema = z.object({
+  id: z.number().int()
+});
+
+export type DeleteScheduleInput = z.infer<typeof deleteScheduleInputSchema>;
+
+// Data-quality checks a provider bar can fail on ingest
+export const quarantineReasonSchema = z.enum(['high_below_body', 'low_above_body', 'negative_volume', 'out_of_order', 'price_jump']);
+
+export type QuarantineReason = z.infer<typeof quarantineReasonSchema>;
+
+// Review state of a quarantined bar
+export const quarantineStatusSchema = z.enum(['pending', 'released', 'dropped']);
+
+export type QuarantineStatus = z.infer<typeof quarantineStatusSchema>;
+
+// A provider bar held back from stock_ticks by validation, with its values
+// exactly as the provider sent them
+export const quarantinedTickSchema = z.object({
+  id: z.number(),
+  symbol: stockSymbolSchema,
+  timestamp: z.coerce.date(),
+  interval: intervalSchema,
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number().int(),
+  reasons: z.array(quarantineReasonSchema),
+  detail: z.string(), // the failed checks, for reviewers
+  status: quarantineStatusSchema,
+  source: z.string().nullable(),
+  fetched_at: z.coerce.date().nullable(),
+  ingest_run_id: z.string().nullable(),
+  payload_hash: z.string().nullable(),
+  reviewed_at: z.coerce.date().nullable(), // when it was released or dropped
+  created_at: z.coerce.date()
+});
+
+export type QuarantinedTick = z.infer<typeof quarantinedTickSchema>;
+
+// Input schema for listing quarantined bars, most recent first
+export const listQuarantinedTicksInputSchema = z.object({
+  symbol: stockSymbolSchema.optional(),
+  interval: intervalSchema.optional(),
+  status: quarantineStatusSchema.default('pending'),
+  limit: z.number().int().positive().max(1000).default(200)
+});
+
+export type ListQuarantinedTicksInput = z.infer<typeof listQuarantinedTicksInputSchema>;
+
+// Input schema for releasing or dropping pending quarantined bars
+export const reviewQuarantinedTicksInputSchema = z.object({
+  ids: z.array(z.number().int()).min(1).max(1000)
+});
+
+export type ReviewQuarantinedTicksInput = z.infer<typeof reviewQuarantinedTicksInputSchema>;
+
+// Input schema for comparing the bars two providers return for a symbol
+export const reconcileProvidersInputSchema = z.object({
+  symbol: stockSymbolSchema,
+  interval: intervalSchema.default('1m'),
+  period: periodSchema.default('1d'),
+  // Defaults to the first two of the symbol's providers
+  providers: z.tuple([z.string(), z.string()])
+    .refine(([a, b]) => a !== b, 'Providers to reconcile must differ')
+    .optional(),
+  tolerance: z.number().nonnegative().default(0.001), // relative price difference allowed
+  volumeTolerance: z.number().nonnegative().default(0.05) // relative volume difference allowed
+}).superRefine(refineIntervalPeriod);
+
+export type ReconcileProvidersInput = z.infer<typeof reconcileProvidersInputSchema>;
+
+export const barFieldSchema = z.enum(['open', 'high', 'low', 'close', 'volume']);
+
+export type BarField = z.infer<typeof barFieldSchema>;
+
+// One field of one bar on which two providers disagree beyond tolerance
+export const barDifferenceSchema = z.object({
+  timestamp: z.coerce.date(),
+  field: barFieldSchema,
+  a: z.number(), // value from the first provider
+  b: z.number(), // value from the second provider
+  difference: z.number() // |a - b| relative to the larger magnitude
+});
+
+export type BarDifference = z.infer<typeof barDifferenceSchema>;
+
+// Outcome of comparing two providers' final bars over the same range
+export const reconciliationReportSchema = z.object({
+  symbol: stockSymbolSchema,
+  interval: intervalSchema,
+  period: periodSchema,
+  providers: z.tuple([z.string(), z.string()]),
+  tolerance: z.number(),
+  volumeTolerance: z.number(),
+  overlapping: z.number().int(), // bars both providers returned
+  onlyA: z.number().int(),
+  onlyB: z.number().int(),
+  mismatched: z.number().int(), // overlapping bars with at least one difference
+  differences: z.array(barDifferenceSchema) // in timestamp order
+});
+
+export type ReconciliationReport = z.infer<typeof reconciliationReportSchema>;
+
 // Yahoo Finance raw data structure (for internal use)
 export const yahooFinanceDataSchema = z.object({
   timestamp: z.number(),
@@ -86,3 +701,14 @@ export const yahooFinanceDataSchema = z.object({
 });
 
 export type YahooFinanceData = z.infer<typeof yahooFinanceDataSchema>;
+
+// Top-of-book quote from a market data provider (timestamp in unix milliseconds)
+export const quoteDataSchema = z.object({
+  timestamp: z.number(),
+  bid: z.number(),
+  ask: z.number(),
+  bid_size: z.number().int(),
+  ask_size: z.number().int()
+});
+
+export type QuoteData = z.infer<typeof quoteDataSchema>;
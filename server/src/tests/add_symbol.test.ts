@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import { addSymbolInputSchema } from '../schema';
+import { addSymbol } from '../handlers/add_symbol';
+import { eq } from 'drizzle-orm';
+
+describe('addSymbol', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add a new active symbol', async () => {
+    const result = await addSymbol({ symbol: 'TSLA' });
+
+    expect(result.symbol).toEqual('TSLA');
+    expect(result.is_active).toBe(true);
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should save the symbol to database', async () => {
+    await addSymbol({ symbol: 'TSLA' });
+
+    const rows = await db.select()
+      .from(symbolsTable)
+      .where(eq(symbolsTable.symbol, 'TSLA'))
+      .execute();
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].is_active).toBe(true);
+  });
+
+  it('should reactivate a deactivated symbol without duplicating it', async () => {
+    await db.insert(symbolsTable)
+      .values({ symbol: 'TSLA', is_active: false })
+      .execute();
+
+    const result = await addSymbol({ symbol: 'TSLA' });
+
+    expect(result.is_active).toBe(true);
+    const rows = await db.select().from(symbolsTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should normalize symbols to upper case', () => {
+    const input = addSymbolInputSchema.parse({ symbol: ' brk.b ' });
+    expect(input.symbol).toEqual('BRK.B');
+  });
+
+  it('should reject invalid symbols', () => {
+    expect(addSymbolInputSchema.safeParse({ symbol: 'NOT A TICKER' }).success).toBe(false);
+    expect(addSymbolInputSchema.safeParse({ symbol: '' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN } from '../helpers';
+import { db } from '../db';
+import { stockTickRevisionsTable, stockTicksTable } from '../db/schema';
+import { aggregateTradesInputSchema } from '../schema';
+import { recordTrades } from '../handlers/record_trades';
+import { aggregateTrades } from '../handlers/aggregate_trades';
+import { getHistoricalData } from '../handlers/get_historical_data';
+import { aggregateTrades as buildBars } from '../aggregation/trade_bars';
+import { and, asc, eq } from 'drizzle-orm';
+
+const open = MARKET_OPEN * 1000; // in ms
+const minute = 60 * 1000;
+
+const print = (offsetMs: number, price: number, size: number) => ({
+  timestamp: new Date(open + offsetMs),
+  price,
+  size,
+  exchange: null,
+  conditions: null
+});
+
+const sampleTrades = [
+  print(0, 100, 10),
+  print(20 * 1000, 101.5, 5),
+  print(40 * 1000, 99.75, 20),
+  print(59 * 1000 + 999, 100.25, 1),
+  print(minute + 500, 100.5, 7),
+  print(6 * minute, 102, 3)
+];
+
+describe('aggregateTrades (engine)', () => {
+  it('should build OHLCV bars aligned to the interval', () => {
+    const bars = buildBars(sampleTrades, '1m');
+
+    expect(bars).toHaveLength(3);
+    expect(bars[0]).toEqual({ timestamp: open / 1000, open: 100, high: 101.5, low: 99.75, close: 100.25, volume: 36 });
+    expect(bars[1]).toEqual({ timestamp: open / 1000 + 60, open: 100.5, high: 100.5, low: 100.5, close: 100.5, volume: 7 });
+    expect(bars[2].timestamp).toEqual(open / 1000 + 360);
+  });
+
+  it('should produce the same bars regardless of input order', () => {
+    const shuffled = [sampleTrades[3], sampleTrades[5], sampleTrades[0], sampleTrades[4], sampleTrades[2], sampleTrades[1]];
+
+    expect(buildBars(shuffled, '5m')).toEqual(buildBars(sampleTrades, '5m'));
+  });
+
+  it('should bucket daily bars by New York trading date', () => {
+    const bars = buildBars([
+      print(0, 100, 1),
+      // 19:59 New York, which is already the next day in UTC
+      print(10 * 60 * minute - minute, 104, 1),
+      // next morning
+      print(24 * 60 * minute, 98, 1)
+    ], '1d');
+
+    expect(bars).toHaveLength(2);
+    expect(bars[0]).toMatchObject({ open: 100, close: 104, volume: 2 });
+    expect(new Date(bars[0].timestamp * 1000).toISOString()).toEqual('2024-03-04T05:00:00.000Z');
+  });
+
+  it('should return no bars without trades', () => {
+    expect(buildBars([], '1m')).toEqual([]);
+  });
+});
+
+describe('aggregateTrades', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should store bars built from recorded trades', async () => {
+    await recordTrades({ symbol: 'AAPL', trades: sampleTrades });
+
+    const result = await aggregateTrades(aggregateTradesInputSchema.parse({ symbol: 'AAPL', interval: '5m' }));
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ symbol: 'AAPL', interval: '5m', open: 100, high: 101.5, low: 99.75, close: 100.5, volume: 43 });
+    expect(result[0].timestamp).toEqual(new Date(open));
+    expect(typeof result[0].close).toBe('number');
+  });
+
+  it('should flag rebuilt bars with their trading session', async () => {
+    // One print an hour before the open, the rest during regular hours
+    await recordTrades({ symbol: 'AAPL', trades: [print(-60 * minute, 99, 4), ...sampleTrades] });
+
+    const result = await aggregateTrades(aggregateTradesInputSchema.parse({ symbol: 'AAPL', interval: '1m' }));
+
+    expect(result.map(bar => bar.session)).toEqual(['pre', 'regular', 'regular', 'regular']);
+    const regular = await getHistoricalData({ symbol: 'AAPL', interval: '1m', limit: 100, session: 'regular', finalOnly: false });
+    expect(regular).toHaveLength(3);
+    expect(regular.every(bar => bar.session === 'regular')).toBe(true);
+  });
+
+  it('should replace existing bars in the range deterministically', async () => {
+    await recordTrades({ symbol: 'AAPL', trades: sampleTrades });
+    await db.insert(stockTicksTable)
+      .values({
+        symbol: 'AAPL',
+        timestamp: new Date(open),
+        open: '1', high: '1', low: '1', close: '1',
+        volume: 1,
+        interval: '1m'
+      })
+      .execute();
+
+    const input = aggregateTradesInputSchema.parse({ symbol: 'AAPL', interval: '1m' });
+    const first = await aggregateTrades(input);
+    await aggregateTrades(input);
+
+    const rows = await db.select()
+      .from(stockTicksTable)
+      .where(and(eq(stockTicksTable.symbol, 'AAPL'), eq(stockTicksTable.interval, '1m')))
+      .orderBy(asc(stockTicksTable.timestamp))
+      .execute();
+
+    expect(rows).toHaveLength(3);
+    expect(rows.map(row => parseFloat(row.close))).toEqual(first.map(bar => bar.close));
+    expect(parseFloat(rows[0].open)).toEqual(100);
+  });
+
+  it('should round the range start down to a bar boundary', async () => {
+    await recordTrades({ symbol: 'AAPL', trades: sampleTrades });
+
+    const result = await aggregateTrades(aggregateTradesInputSchema.parse({
+      symbol: 'AAPL',
+      interval: '1m',
+      startDate: new Date(open + 30 * 1000),
+      endDate: new Date(open + 2 * minute)
+    }));
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ open: 100, volume: 36 });
+  });
+
+  it('should rebuild more bars than fit in one statement', async () => {
+    // One print a minute: 5000 bars of 15 bind parameters each
+    const trades = Array.from({ length: 5000 }, (_, i) => print(i * minute, 100 + (i % 7), 1));
+    await recordTrades({ symbol: 'AAPL', trades });
+
+    const result = await aggregateTrades(aggregateTradesInputSchema.parse({ symbol: 'AAPL', interval: '1m' }));
+
+    expect(result).toHaveLength(5000);
+    const revisions = await db.select().from(stockTickRevisionsTable).execute();
+    expect(revisions).toHaveLength(5000);
+  });
+
+  it('should round the range end up to a bar boundary', async () => {
+    await recordTrades({ symbol: 'AAPL', trades: sampleTrades });
+    const input = aggregateTradesInputSchema.parse({ symbol: 'AAPL', interval: '5m' });
+    const [complete] = await aggregateTrades(input);
+
+    // Ends 30 seconds into the first bar, which still gets all its trades
+    const result = await aggregateTrades({ ...input, endDate: new Date(open + 30 * 1000) });
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ open: complete.open, close: complete.close, volume: 43 });
+    const rows = await db.select().from(stockTicksTable).orderBy(asc(stockTicksTable.timestamp)).execute();
+    expect(rows.map(row => row.volume)).toEqual([43, 3]);
+  });
+
+  it('should leave other bars untouched when there are no trades', async () => {
+    await db.insert(stockTicksTable)
+      .values({
+        symbol: 'AAPL',
+        timestamp: new Date(open),
+        open: '1', high: '1', low: '1', close: '1',
+        volume: 1,
+        interval: '1m'
+      })
+      .execute();
+
+    const result = await aggregateTrades(aggregateTradesInputSchema.parse({ symbol: 'AAPL', interval: '1m' }));
+
+    expect(result).toEqual([]);
+    const rows = await db.select().from(stockTicksTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN } from '../helpers';
+import { db } from '../db';
+import { stockTicksTable } from '../db/schema';
+import { writeBars } from '../db/bar_writer';
+import { type GapRangeInput } from '../schema';
+import { backfillGaps } from '../handlers/backfill_gaps';
+import { findGaps } from '../handlers/find_gaps';
+import { eq } from 'drizzle-orm';
+
+// Monday 2024-03-04, 09:30-16:00 New York
+const input: GapRangeInput = {
+  symbol: 'AAPL',
+  interval: '5m',
+  period: '5d',
+  startDate: new Date('2024-03-04T14:30:00Z'),
+  endDate: new Date('2024-03-04T21:00:00Z')
+};
+
+const storedBars = () => db.select()
+  .from(stockTicksTable)
+  .where(eq(stockTicksTable.symbol, 'AAPL'))
+  .execute();
+
+describe('backfillGaps', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should fill every missing bar from the provider', async () => {
+    const result = await backfillGaps(input);
+
+    expect(result).toMatchObject({ symbol: 'AAPL', interval: '5m', gaps: 1, inserted: 78, failed: 0, remaining: 0 });
+    expect(await storedBars()).toHaveLength(78);
+  });
+
+  it('should only fetch the holes and leave stored bars alone', async () => {
+    // Everything but 10:00-10:15 and 15:55, with a marker close
+    const bars = Array.from({ length: 78 }, (_, i) => i)
+      .filter(i => !(i >= 6 && i < 9) && i !== 77)
+      .map(i => ({ timestamp: MARKET_OPEN + i * 300, open: 1, high: 1, low: 1, close: 1, volume: 1 }));
+    await writeBars('AAPL', '5m', bars);
+
+    const result = await backfillGaps(input);
+
+    expect(result).toMatchObject({ gaps: 2, inserted: 4, remaining: 0 });
+    const stored = await storedBars();
+    expect(stored).toHaveLength(78);
+    expect(stored.filter(tick => parseFloat(tick.close) === 1)).toHaveLength(74);
+  });
+
+  it('should do nothing when the range is complete', async () => {
+    await backfillGaps(input);
+
+    const result = await backfillGaps(input);
+
+    expect(result).toMatchObject({ gaps: 0, inserted: 0, remaining: 0 });
+    expect((await findGaps(input)).missing).toEqual(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN, makeBars } from '../helpers';
+import { type BarUpdate, type OnBarsInput } from '../schema';
+import { writeBars } from '../db/bar_writer';
+import { barUpdates } from '../db/bar_events';
+import { recordTrades } from '../handlers/record_trades';
+import { aggregateTrades } from '../handlers/aggregate_trades';
+
+// Subscribe like the onBars procedure, collecting updates until stopped
+const listen = (filter: OnBarsInput) => {
+  const controller = new AbortController();
+  const updates: BarUpdate[] = [];
+  const done = (async () => {
+    for await (const update of barUpdates(filter, controller.signal)) {
+      updates.push(update);
+    }
+  })();
+
+  return async () => {
+    // Let buffered updates reach the loop before hanging up
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+    await done;
+    return updates;
+  };
+};
+
+describe('bar updates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should stream bars as they are inserted', async () => {
+    const stop = listen({ symbol: 'AAPL', interval: '1m' });
+
+    await writeBars('AAPL', '1m', makeBars(3));
+
+    const updates = await stop();
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ symbol: 'AAPL', interval: '1m' });
+    expect(updates[0].bars.map(bar => bar.timestamp.getTime() / 1000)).toEqual([MARKET_OPEN, MARKET_OPEN + 60, MARKET_OPEN + 120]);
+    expect(updates[0].bars[0]).toMatchObject({ open: 100, high: 101, low: 99, close: 100, volume: 1000 });
+  });
+
+  it('should only stream bars that changed', async () => {
+    await writeBars('AAPL', '1m', makeBars(3));
+    const stop = listen({ symbol: 'AAPL', interval: '1m' });
+
+    // The forming last bar moved; the others are resent unchanged
+    const revised = makeBars(3);
+    revised[2] = { ...revised[2], close: 100.5 };
+    await writeBars('AAPL', '1m', revised);
+    await writeBars('AAPL', '1m', revised);
+
+    const updates = await stop();
+    expect(updates).toHaveLength(1);
+    expect(updates[0].bars).toHaveLength(1);
+    expect(updates[0].bars[0]).toMatchObject({ close: 100.5 });
+    expect(updates[0].bars[0].timestamp.getTime() / 1000).toEqual(MARKET_OPEN + 120);
+  });
+
+  it('should filter by symbol and canonical interval', async () => {
+    const hourly = listen({ interval: '1h' });
+    const msft = listen({ symbol: 'MSFT' });
+
+    await writeBars('AAPL', '1m', makeBars(1));
+    await writeBars('AAPL', '60m', makeBars(1));
+    await writeBars('MSFT', '5m', makeBars(1));
+
+    const hourlyUpdates = await hourly();
+    expect(hourlyUpdates.map(update => `${update.symbol}:${update.interval}`)).toEqual(['AAPL:60m']);
+    const msftUpdates = await msft();
+    expect(msftUpdates.map(update => `${update.symbol}:${update.interval}`)).toEqual(['MSFT:5m']);
+  });
+
+  it('should stream bars rebuilt from trade prints', async () => {
+    await recordTrades({
+      symbol: 'AAPL',
+      trades: [
+        { timestamp: new Date(MARKET_OPEN * 1000), price: 100, size: 10, exchange: null, conditions: null },
+        { timestamp: new Date(MARKET_OPEN * 1000 + 30 * 1000), price: 101, size: 5, exchange: null, conditions: null }
+      ]
+    });
+    const stop = listen({ symbol: 'AAPL', interval: '1m' });
+
+    await aggregateTrades({ symbol: 'AAPL', interval: '1m' });
+
+    const updates = await stop();
+    expect(updates).toHaveLength(1);
+    expect(updates[0].bars).toHaveLength(1);
+    expect(updates[0].bars[0]).toMatchObject({ open: 100, close: 101, volume: 15 });
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN, makeBars } from '../helpers';
+import { db } from '../db';
+import { stockTicksTable } from '../db/schema';
+import { type BarUpdate } from '../schema';
+import { writeBars } from '../db/bar_writer';
+import { barUpdates } from '../db/bar_events';
+import { finalizeClosedBars } from '../jobs/finalizer';
+import { getLatestPrices } from '../handlers/get_latest_prices';
+import { asc } from 'drizzle-orm';
+
+describe('finalizeClosedBars', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should finalize forming bars once their interval closes', async () => {
+    // 1m and 5m bars written 30 seconds into the third minute
+    await writeBars('AAPL', '1m', makeBars(3), null, new Date((MARKET_OPEN + 150) * 1000));
+    await writeBars('AAPL', '5m', makeBars(1), null, new Date((MARKET_OPEN + 150) * 1000));
+
+    expect(await finalizeClosedBars(new Date((MARKET_OPEN + 179) * 1000))).toEqual([]);
+
+    const finalized = await finalizeClosedBars(new Date((MARKET_OPEN + 180) * 1000));
+    expect(finalized).toHaveLength(1);
+    expect(finalized[0]).toMatchObject({ interval: '1m', is_final: true, close: 100 });
+    expect(finalized[0].timestamp).toEqual(new Date((MARKET_OPEN + 120) * 1000));
+
+    const rows = await db.select().from(stockTicksTable).orderBy(asc(stockTicksTable.interval)).execute();
+    expect(rows.map(row => `${row.interval}:${row.is_final}`)).toEqual(['1m:true', '1m:true', '1m:true', '5m:false']);
+  });
+
+  it('should publish finalized bars to subscribers', async () => {
+    await writeBars('AAPL', '1m', makeBars(1), null, new Date((MARKET_OPEN + 30) * 1000));
+
+    const controller = new AbortController();
+    const updates: BarUpdate[] = [];
+    const done = (async () => {
+      for await (const update of barUpdates({ symbol: 'AAPL' }, controller.signal)) {
+        updates.push(update);
+      }
+    })();
+
+    await finalizeClosedBars(new Date((MARKET_OPEN + 60) * 1000));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+    await done;
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].bars[0]).toMatchObject({ interval: '1m', is_final: true });
+  });
+
+  it('should mark the forming bar in latest prices', async () => {
+    await writeBars('AAPL', '1m', makeBars(2), null, new Date((MARKET_OPEN + 90) * 1000));
+
+    const [latest] = await getLatestPrices();
+
+    expect(latest.timestamp).toEqual(new Date((MARKET_OPEN + 60) * 1000));
+    expect(latest.is_final).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN, makeBars } from '../helpers';
+import { db } from '../db';
+import { stockTickRevisionsTable } from '../db/schema';
+import { type GetHistoricalDataInput } from '../schema';
+import { writeBars } from '../db/bar_writer';
+import { finalizeClosedBars } from '../jobs/finalizer';
+import { recordTrades } from '../handlers/record_trades';
+import { aggregateTrades } from '../handlers/aggregate_trades';
+import { getHistoricalData } from '../handlers/get_historical_data';
+import { getChartData } from '../handlers/get_chart_data';
+
+const at = (seconds: number) => new Date((MARKET_OPEN + seconds) * 1000);
+
+const query = (input: Partial<GetHistoricalDataInput> = {}): GetHistoricalDataInput => ({
+  symbol: 'AAPL',
+  interval: '1m',
+  limit: 100,
+  session: 'all',
+  finalOnly: false,
+  ...input
+});
+
+const closes = (bars: { close: number }[]) => bars.map(bar => bar.close);
+
+describe('bar history', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record a revision for every inserted or changed bar', async () => {
+    await writeBars('AAPL', '1m', makeBars(3), null, at(600));
+    const revised = makeBars(3);
+    revised[2] = { ...revised[2], close: 100.5 };
+    await writeBars('AAPL', '1m', revised, null, at(1200));
+
+    const revisions = await db.select().from(stockTickRevisionsTable).execute();
+    expect(revisions).toHaveLength(4);
+    const latest = revisions.filter(revision => revision.recorded_at.getTime() === at(1200).getTime());
+    expect(latest).toHaveLength(1);
+    expect(latest[0]).toMatchObject({ close: '100.5000', removed: false });
+  });
+
+  it('should answer historical queries as of a past time', async () => {
+    await writeBars('AAPL', '1m', makeBars(3), null, at(600));
+    await writeBars('AAPL', '1m', makeBars(3, 102), null, at(1200));
+
+    expect(await getHistoricalData(query({ asOf: at(300) }))).toEqual([]);
+    expect(closes(await getHistoricalData(query({ asOf: at(900) })))).toEqual([100, 100, 100]);
+    expect(closes(await getHistoricalData(query({ asOf: at(1200) })))).toEqual([102, 102, 102]);
+    expect(closes(await getHistoricalData(query()))).toEqual([102, 102, 102]);
+  });
+
+  it('should answer chart queries as of a past time', async () => {
+    await writeBars('AAPL', '1m', makeBars(2), null, at(600));
+    await writeBars('AAPL', '1m', makeBars(2, 98), null, at(1200));
+
+    const before = await getChartData(query({ asOf: at(900) }));
+    expect(closes(before.data)).toEqual([100, 100]);
+    expect(closes((await getChartData(query())).data)).toEqual([98, 98]);
+
+    // Nothing was known yet, and the past can't be fetched from a provider
+    expect((await getChartData(query({ asOf: at(300) }))).data).toEqual([]);
+  });
+
+  it('should roll derived intervals up from the bars known at the time', async () => {
+    await writeBars('AAPL', '1m', makeBars(5), null, at(600));
+    await writeBars('AAPL', '1m', makeBars(5, 104), null, at(1200));
+
+    const before = await getHistoricalData(query({ interval: '5m', asOf: at(900) }));
+    expect(before).toHaveLength(1);
+    expect(before[0]).toMatchObject({ close: 100, volume: 5000, source_interval: '1m' });
+    const after = await getHistoricalData(query({ interval: '5m' }));
+    expect(after[0]).toMatchObject({ close: 104 });
+  });
+
+  it('should pick the version before applying filters', async () => {
+    // Forming at the first write, final once the finalizer ran
+    await writeBars('AAPL', '1m', makeBars(1), null, at(30));
+    await finalizeClosedBars(at(90));
+
+    expect(await getHistoricalData(query({ asOf: at(60), finalOnly: true }))).toEqual([]);
+    const forming = await getHistoricalData(query({ asOf: at(60) }));
+    expect(forming).toHaveLength(1);
+    expect(forming[0].is_final).toBe(false);
+    const final = await getHistoricalData(query({ asOf: at(90), finalOnly: true }));
+    expect(final).toHaveLength(1);
+    expect(final[0].is_final).toBe(true);
+  });
+
+  it('should remember bars replaced by trade aggregation', async () => {
+    await writeBars('AAPL', '1m', makeBars(3), null, at(600));
+    await recordTrades({
+      symbol: 'AAPL',
+      trades: [{ timestamp: at(10), price: 105, size: 10, exchange: null, conditions: null }]
+    });
+
+    await aggregateTrades({ symbol: 'AAPL', interval: '1m', startDate: at(0), endDate: at(180) });
+
+    expect(closes(await getHistoricalData(query({ asOf: at(900) })))).toEqual([100, 100, 100]);
+    expect(closes(await getHistoricalData(query({ asOf: new Date() })))).toEqual([105]);
+
+    const removed = await db.select().from(stockTickRevisionsTable).execute();
+    expect(removed.filter(revision => revision.removed)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { makeBars } from '../helpers';
+import { type YahooFinanceData } from '../schema';
+import { validateBars } from '../validation/bars';
+
+// A gently zig-zagging minute series around 100
+const zigZagBars = (count: number): YahooFinanceData[] =>
+  makeBars(count).map((bar, i) => {
+    const close = 100 + (i % 2 === 0 ? 0.05 : -0.05) + (i % 3) * 0.02;
+    return { ...bar, high: Math.max(100, close) + 0.1, low: Math.min(100, close) - 0.1, close };
+  });
+
+describe('validateBars', () => {
+  afterEach(() => {
+    delete process.env['BAR_JUMP_SIGMA'];
+  });
+
+  it('should accept well-formed bars', () => {
+    const bars = zigZagBars(30);
+
+    const result = validateBars(bars, '1m');
+
+    expect(result.accepted).toEqual(bars);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('should reject bars whose wicks do not cover the body', () => {
+    const bars = zigZagBars(3);
+    bars[1] = { ...bars[1], open: 100, close: 101, high: 100.5 };
+    bars[2] = { ...bars[2], open: 100, close: 99, low: 99.5 };
+
+    const { accepted, rejected } = validateBars(bars, '1m');
+
+    expect(accepted).toEqual([bars[0]]);
+    expect(rejected.map(entry => entry.reasons)).toEqual([['high_below_body'], ['low_above_body']]);
+    expect(rejected[0].detail).toContain('high 100.5');
+  });
+
+  it('should reject negative volume and list every failed check', () => {
+    const bars = zigZagBars(1);
+    bars[0] = { ...bars[0], high: 99, volume: -5 };
+
+    const { rejected } = validateBars(bars, '1m');
+
+    expect(rejected[0].reasons).toEqual(['high_below_body', 'negative_volume']);
+    expect(rejected[0].detail.split('; ')).toHaveLength(2);
+  });
+
+  it('should reject bars that go back in time', () => {
+    const bars = zigZagBars(4);
+    const reordered = [bars[0], bars[2], bars[1], bars[3]];
+
+    const { accepted, rejected } = validateBars(reordered, '1m');
+
+    expect(accepted).toEqual([bars[0], bars[2], bars[3]]);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toMatchObject({ bar: bars[1], reasons: ['out_of_order'] });
+  });
+
+  it('should reject only the bar of a price spike', () => {
+    const bars = zigZagBars(40);
+    bars[20] = { ...bars[20], open: 100, high: 150, low: 100, close: 150 };
+
+    const { accepted, rejected } = validateBars(bars, '1m');
+
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toMatchObject({ bar: bars[20], reasons: ['price_jump'] });
+    expect(accepted).toContain(bars[21]);
+  });
+
+  it('should reject only the first bar of a jump that holds', () => {
+    // Two steps up in a row to a new level, which then holds
+    const lift = (bar: YahooFinanceData, by: number) => ({ ...bar, open: bar.open + by, high: bar.high + by, low: bar.low + by, close: bar.close + by });
+    const bars = zigZagBars(40).map((bar, i) => i < 20 ? bar : lift(bar, i === 20 ? 15 : 30));
+
+    const { rejected } = validateBars(bars, '1m');
+
+    expect(rejected.map(entry => entry.bar)).toEqual([bars[20]]);
+  });
+
+  it('should reject each of two spikes back to back', () => {
+    const bars = zigZagBars(40);
+    bars[20] = { ...bars[20], high: 150, close: 150 };
+    bars[22] = { ...bars[22], high: 150, close: 150 };
+
+    const { rejected } = validateBars(bars, '1m');
+
+    expect(rejected.map(entry => entry.bar)).toEqual([bars[20], bars[22]]);
+  });
+
+  it('should honour a configured jump threshold', () => {
+    const bars = zigZagBars(40);
+    bars[20] = { ...bars[20], high: 150, close: 150 };
+
+    expect(validateBars(bars, '1m', { jumpSigma: 1000 }).rejected).toEqual([]);
+    process.env['BAR_JUMP_SIGMA'] = '1000';
+    expect(validateBars(bars, '1m').rejected).toEqual([]);
+    expect(validateBars(bars, '1m', { jumpSigma: 15 }).rejected).toHaveLength(1);
+  });
+
+  it('should not treat an overnight gap as a jump', () => {
+    const bars = zigZagBars(40);
+    // The second half trades the next day, 5% higher
+    for (let i = 20; i < 40; i++) {
+      const bar = bars[i];
+      bars[i] = { timestamp: bar.timestamp + 24 * 60 * 60, open: bar.open * 1.05, high: bar.high * 1.05, low: bar.low * 1.05, close: bar.close * 1.05, volume: bar.volume };
+    }
+
+    expect(validateBars(bars, '1m').rejected).toEqual([]);
+  });
+
+  it('should skip the jump check on small batches', () => {
+    const bars = zigZagBars(5);
+    bars[3] = { ...bars[3], high: 150, close: 150 };
+
+    expect(validateBars(bars, '1m').rejected).toEqual([]);
+  });
+});
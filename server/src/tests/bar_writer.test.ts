@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN, makeBars } from '../helpers';
+import { db } from '../db';
+import { stockTicksTable } from '../db/schema';
+import { writeBars } from '../db/bar_writer';
+
+describe('writeBars', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should insert new bars and return them in order', async () => {
+    const result = await writeBars('AAPL', '1m', makeBars(5));
+
+    expect(result.inserted).toEqual(5);
+    expect(result.updated).toEqual(0);
+    expect(result.unchanged).toEqual(0);
+    expect(result.ticks).toHaveLength(5);
+    expect(result.ticks[0]).toMatchObject({ symbol: 'AAPL', interval: '1m', close: 100, volume: 1000 });
+    expect(result.ticks[4].timestamp).toEqual(new Date((MARKET_OPEN + 240) * 1000));
+  });
+
+  it('should count updated and unchanged rows on a rewrite', async () => {
+    await writeBars('AAPL', '1m', makeBars(5));
+
+    // Two bars revised, one new bar
+    const revised = makeBars(6);
+    revised[1] = { ...revised[1], close: 100.5 };
+    revised[3] = { ...revised[3], volume: 1 };
+    const result = await writeBars('AAPL', '1m', revised);
+
+    expect(result.inserted).toEqual(1);
+    expect(result.updated).toEqual(2);
+    expect(result.unchanged).toEqual(3);
+    expect(result.ticks).toHaveLength(6);
+    expect(result.ticks[1].close).toEqual(100.5);
+    expect(result.ticks[3].volume).toEqual(1);
+
+    const rows = await db.select().from(stockTicksTable).execute();
+    expect(rows).toHaveLength(6);
+  });
+
+  it('should keep the last of duplicate bars in one write', async () => {
+    const bars = makeBars(2);
+    const result = await writeBars('AAPL', '1m', [...bars, { ...bars[0], close: 42 }]);
+
+    expect(result.inserted).toEqual(2);
+    expect(result.ticks[0].close).toEqual(42);
+  });
+
+  it('should write large batches in chunks', async () => {
+    const result = await writeBars('AAPL', '1m', makeBars(2500));
+
+    expect(result.inserted).toEqual(2500);
+    const rows = await db.select().from(stockTicksTable).execute();
+    expect(rows).toHaveLength(2500);
+  });
+
+  it('should keep bars for other symbols and intervals separate', async () => {
+    await writeBars('AAPL', '1m', makeBars(3));
+    const other = await writeBars('MSFT', '1m', makeBars(3));
+    const coarser = await writeBars('AAPL', '5m', makeBars(3));
+
+    expect(other.inserted).toEqual(3);
+    expect(coarser.inserted).toEqual(3);
+  });
+
+  it('should flag each bar with its trading session', async () => {
+    // 09:29 and 09:30 New York, then 20:00 after the post-market closes
+    const bars = makeBars(2).map((bar, i) => ({ ...bar, timestamp: MARKET_OPEN - 60 + i * 60 }));
+    bars.push({ ...bars[1], timestamp: MARKET_OPEN + 630 * 60 });
+
+    const result = await writeBars('AAPL', '1m', bars);
+
+    expect(result.ticks.map(tick => tick.session)).toEqual(['pre', 'regular', null]);
+  });
+
+  it('should store 1h bars as 60m and keep weekly labels', async () => {
+    const hourly = await writeBars('AAPL', '1h', makeBars(2));
+    const weekly = await writeBars('AAPL', '1wk', makeBars(2));
+
+    expect(hourly.ticks[0].interval).toEqual('60m');
+    expect(weekly.ticks[0].interval).toEqual('1wk');
+  });
+
+  it('should store the bar of a still-open interval as forming', async () => {
+    // 30 seconds into the fifth bar
+    const now = new Date((MARKET_OPEN + 270) * 1000);
+    const result = await writeBars('AAPL', '1m', makeBars(5), null, now);
+
+    expect(result.ticks.map(tick => tick.is_final)).toEqual([true, true, true, true, false]);
+  });
+
+  it('should finalize a forming bar rewritten after its interval closes', async () => {
+    await writeBars('AAPL', '1m', makeBars(5), null, new Date((MARKET_OPEN + 270) * 1000));
+
+    const result = await writeBars('AAPL', '1m', makeBars(5), null, new Date((MARKET_OPEN + 300) * 1000));
+
+    expect(result.updated).toEqual(1);
+    expect(result.unchanged).toEqual(4);
+    expect(result.ticks.every(tick => tick.is_final)).toBe(true);
+  });
+
+  it('should store provenance on inserted and changed bars only', async () => {
+    const first = { source: 'simulated', fetchedAt: new Date((MARKET_OPEN + 600) * 1000), ingestRunId: 'run-1' };
+    await writeBars('AAPL', '1m', makeBars(3), first);
+
+    const revised = makeBars(3);
+    revised[2] = { ...revised[2], close: 100.5 };
+    const second = { source: 'yahoo', fetchedAt: new Date((MARKET_OPEN + 900) * 1000), ingestRunId: 'run-2' };
+    const result = await writeBars('AAPL', '1m', revised, second);
+
+    expect(result.ticks.map(tick => tick.ingest_run_id)).toEqual(['run-1', 'run-1', 'run-2']);
+    expect(result.ticks[0]).toMatchObject({ source: 'simulated', fetched_at: first.fetchedAt });
+    expect(result.ticks[2]).toMatchObject({ source: 'yahoo', fetched_at: second.fetchedAt });
+    expect(result.ticks[0].payload_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(result.ticks[2].payload_hash).not.toEqual(result.ticks[1].payload_hash);
+  });
+
+  it('should hash the provider values before rounding', async () => {
+    const bars = makeBars(1);
+    const a = await writeBars('AAPL', '1m', bars, { source: 'simulated', fetchedAt: new Date(), ingestRunId: 'run-1' });
+    // Same stored close at 4 decimals, different payload
+    const b = await writeBars('MSFT', '1m', [{ ...bars[0], close: bars[0].close + 0.00001 }], { source: 'simulated', fetchedAt: new Date(), ingestRunId: 'run-1' });
+
+    expect(b.ticks[0].close).toEqual(a.ticks[0].close);
+    expect(b.ticks[0].payload_hash).not.toEqual(a.ticks[0].payload_hash);
+  });
+
+  it('should leave provenance empty when none is given', async () => {
+    const result = await writeBars('AAPL', '1m', makeBars(1));
+
+    expect(result.ticks[0]).toMatchObject({ source: null, fetched_at: null, ingest_run_id: null, payload_hash: null });
+  });
+
+  it('should reject duplicate rows at the database level', async () => {
+    const row = {
+      symbol: 'AAPL',
+      timestamp: new Date(MARKET_OPEN * 1000),
+      open: '1', high: '1', low: '1', close: '1',
+      volume: 1,
+      interval: '1m' as const
+    };
+    await db.insert(stockTicksTable).values(row).execute();
+
+    await expect(db.insert(stockTicksTable).values(row).execute()).rejects.toThrow();
+  });
+});
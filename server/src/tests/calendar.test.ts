@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getMarketSession, getTradingSession, isTradingDay, loadTradingCalendar, parseTradingCalendar } from '../calendar';
+import { getBarSession, resolvePeriod } from '../intervals';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const dayOf = (date: string) => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+const iso = (ms: number) => new Date(ms).toISOString();
+
+describe('trading calendar', () => {
+  afterEach(() => loadTradingCalendar());
+
+  it('should close on weekends and holidays', () => {
+    expect(isTradingDay(dayOf('2024-03-04'))).toBe(true);
+    expect(isTradingDay(dayOf('2024-03-02'))).toBe(false);
+    expect(isTradingDay(dayOf('2024-07-04'))).toBe(false);
+    expect(isTradingDay(dayOf('2025-01-09'))).toBe(false);
+    expect(getTradingSession(dayOf('2024-12-25'))).toBeNull();
+  });
+
+  it('should give regular and extended hours in New York time', () => {
+    const session = getTradingSession(dayOf('2024-03-04'));
+
+    expect(session).not.toBeNull();
+    expect(iso(session!.preOpen)).toEqual('2024-03-04T09:00:00.000Z');
+    expect(iso(session!.open)).toEqual('2024-03-04T14:30:00.000Z');
+    expect(iso(session!.close)).toEqual('2024-03-04T21:00:00.000Z');
+    expect(iso(session!.postClose)).toEqual('2024-03-05T01:00:00.000Z');
+    expect(session!.earlyClose).toBe(false);
+  });
+
+  it('should close at 13:00 on early-close days', () => {
+    const session = getTradingSession(dayOf('2024-11-29'));
+
+    expect(session!.earlyClose).toBe(true);
+    expect(iso(session!.close)).toEqual('2024-11-29T18:00:00.000Z');
+    expect(iso(session!.postClose)).toEqual('2024-11-29T22:00:00.000Z');
+  });
+
+  it('should classify moments by session', () => {
+    expect(getMarketSession(Date.parse('2024-03-04T14:00:00Z'))).toEqual('pre');
+    expect(getMarketSession(Date.parse('2024-03-04T14:30:00Z'))).toEqual('regular');
+    expect(getMarketSession(Date.parse('2024-03-04T21:00:00Z'))).toEqual('post');
+    expect(getMarketSession(Date.parse('2024-03-05T02:00:00Z'))).toBeNull();
+    expect(getMarketSession(Date.parse('2024-07-04T15:00:00Z'))).toBeNull();
+  });
+
+  it('should flag bars that overlap the regular session as regular', () => {
+    // 09:00 New York: the 90m bar runs into the open, the 15m bar doesn't
+    const ms = Date.parse('2024-03-04T14:00:00Z');
+
+    expect(getBarSession(ms, '90m')).toEqual('regular');
+    expect(getBarSession(ms, '15m')).toEqual('pre');
+    expect(getBarSession(Date.parse('2024-03-04T21:30:00Z'), '1m')).toEqual('post');
+    expect(getBarSession(Date.parse('2024-03-05T02:00:00Z'), '1m')).toBeNull();
+    expect(getBarSession(Date.parse('2024-03-04T05:00:00Z'), '1d')).toEqual('regular');
+  });
+
+  it('should skip holidays when resolving trading-day periods', () => {
+    // Friday 2024-07-05 03:00 New York, before pre-market opens
+    const { start } = resolvePeriod('1d', new Date('2024-07-05T07:00:00Z'));
+
+    expect(iso(start.getTime())).toEqual('2024-07-03T04:00:00.000Z');
+  });
+
+  it('should load a calendar from a data file', () => {
+    const path = join(tmpdir(), 'trading_calendar_test.json');
+    writeFileSync(path, JSON.stringify({
+      hours: { preOpen: '07:00', open: '09:30', close: '16:00', postClose: '18:00' },
+      earlyCloseHours: { close: '12:00', postClose: '12:00' },
+      holidays: ['2024-03-04'],
+      earlyCloses: ['2024-03-05']
+    }));
+
+    loadTradingCalendar(path);
+
+    expect(isTradingDay(dayOf('2024-03-04'))).toBe(false);
+    expect(isTradingDay(dayOf('2024-07-04'))).toBe(true);
+    expect(iso(getTradingSession(dayOf('2024-03-05'))!.close)).toEqual('2024-03-05T17:00:00.000Z');
+    expect(getMarketSession(Date.parse('2024-03-06T11:30:00Z'))).toBeNull();
+  });
+
+  it('should reject malformed calendar files', () => {
+    expect(() => parseTradingCalendar({ hours: { open: '9:30' }, holidays: [] })).toThrow();
+  });
+});
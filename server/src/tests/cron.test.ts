@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'bun:test';
+import { nextCronTime, parseCron, validateCron } from '../jobs/cron';
+
+const next = (expression: string, after: string) => nextCronTime(expression, new Date(after)).toISOString();
+
+describe('parseCron', () => {
+  it('should expand ranges, lists and steps', () => {
+    const schedule = parseCron('*/15 9-16/3 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 12, 15]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDayOfMonth).toBe(false);
+  });
+
+  it('should treat day of week 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(validateCron('* * * *')).toMatch(/5 fields/);
+    expect(validateCron('60 * * * *')).toMatch(/minute/);
+    expect(validateCron('* 5-2 * * *')).toMatch(/hour/);
+    expect(validateCron('*/0 * * * *')).toMatch(/minute/);
+    expect(validateCron('0 17 * * 1-5')).toBeNull();
+  });
+});
+
+describe('nextCronTime', () => {
+  it('should evaluate expressions in New York time', () => {
+    // 17:00 New York on weekdays; Friday 2024-03-08 18:00 New York rolls to Monday
+    expect(next('0 17 * * 1-5', '2024-03-08T23:00:00Z')).toEqual('2024-03-11T21:00:00.000Z');
+    // Still EST on Friday
+    expect(next('0 17 * * 1-5', '2024-03-08T12:00:00Z')).toEqual('2024-03-08T22:00:00.000Z');
+  });
+
+  it('should always move strictly forward', () => {
+    expect(next('* * * * *', '2024-03-04T14:30:00Z')).toEqual('2024-03-04T14:31:00.000Z');
+    expect(next('* * * * *', '2024-03-04T14:30:20Z')).toEqual('2024-03-04T14:31:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 1st of the month or any Monday, from Wednesday 2024-05-29
+    expect(next('0 12 1 * 1', '2024-05-29T17:00:00Z')).toEqual('2024-06-01T16:00:00.000Z');
+    expect(next('0 12 1 * 1', '2024-06-01T17:00:00Z')).toEqual('2024-06-03T16:00:00.000Z');
+  });
+
+  it('should find leap days and fail on impossible dates', () => {
+    expect(next('0 0 29 2 *', '2024-03-01T00:00:00Z')).toEqual('2028-02-29T05:00:00.000Z');
+    expect(() => nextCronTime('0 0 31 2 *', new Date())).toThrow(/never matches/);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { symbolsTable, stockTicksTable } from '../db/schema';
+import { deactivateSymbol } from '../handlers/deactivate_symbol';
+import { eq } from 'drizzle-orm';
+
+describe('deactivateSymbol', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should mark the symbol inactive', async () => {
+    await db.insert(symbolsTable).values({ symbol: 'AAPL' }).execute();
+
+    const result = await deactivateSymbol({ symbol: 'AAPL' });
+
+    expect(result.symbol).toEqual('AAPL');
+    expect(result.is_active).toBe(false);
+  });
+
+  it('should keep stored ticks for the symbol', async () => {
+    await db.insert(symbolsTable).values({ symbol: 'AAPL' }).execute();
+    await db.insert(stockTicksTable).values({
+      symbol: 'AAPL',
+      timestamp: new Date('2024-01-02T14:30:00Z'),
+      open: '187.15',
+      high: '188.44',
+      low: '183.89',
+      close: '185.64',
+      volume: 1000000,
+      interval: '1m'
+    }).execute();
+
+    await deactivateSymbol({ symbol: 'AAPL' });
+
+    const ticks = await db.select()
+      .from(stockTicksTable)
+      .where(eq(stockTicksTable.symbol, 'AAPL'))
+      .execute();
+    expect(ticks).toHaveLength(1);
+  });
+
+  it('should throw for untracked symbols', async () => {
+    await expect(deactivateSymbol({ symbol: 'ZZZZ' })).rejects.toThrow(/not tracked/);
+  });
+});
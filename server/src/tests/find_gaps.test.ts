@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN } from '../helpers';
+import { writeBars } from '../db/bar_writer';
+import { type GapRangeInput } from '../schema';
+import { findGaps } from '../handlers/find_gaps';
+
+// Monday 2024-03-04, 09:30-16:00 New York
+const input: GapRangeInput = {
+  symbol: 'AAPL',
+  interval: '30m',
+  period: '5d',
+  startDate: new Date('2024-03-04T14:30:00Z'),
+  endDate: new Date('2024-03-04T21:00:00Z')
+};
+
+// 30m bars at the given offsets from the open, in bars
+const writeBarsAt = (offsets: number[], interval: '30m' | '1h' = '30m') => {
+  return writeBars('AAPL', interval, offsets.map(offset => ({
+    timestamp: MARKET_OPEN + offset * 30 * 60,
+    open: 100, high: 101, low: 99, close: 100, volume: 10
+  })));
+};
+
+describe('findGaps', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report every bar missing when nothing is stored', async () => {
+    const result = await findGaps(input);
+
+    expect(result).toMatchObject({ expected: 13, present: 0, missing: 13 });
+    expect(result.gaps).toEqual([{
+      start: new Date('2024-03-04T14:30:00Z'),
+      end: new Date('2024-03-04T21:00:00Z'),
+      missing: 13
+    }]);
+  });
+
+  it('should group missing bars into runs between stored ones', async () => {
+    await writeBarsAt([0, 1, 4, 5, 6, 7, 8, 9, 10, 12]);
+
+    const result = await findGaps(input);
+
+    expect(result).toMatchObject({ expected: 13, present: 10, missing: 3 });
+    expect(result.gaps).toEqual([
+      { start: new Date('2024-03-04T15:30:00Z'), end: new Date('2024-03-04T16:30:00Z'), missing: 2 },
+      { start: new Date('2024-03-04T20:00:00Z'), end: new Date('2024-03-04T20:30:00Z'), missing: 1 }
+    ]);
+  });
+
+  it('should ignore stored bars outside regular hours and other symbols', async () => {
+    await writeBarsAt([-2, 13, 14]);
+    await writeBars('MSFT', '30m', [{ timestamp: MARKET_OPEN, open: 1, high: 1, low: 1, close: 1, volume: 1 }]);
+
+    const result = await findGaps(input);
+
+    expect(result).toMatchObject({ present: 0, missing: 13 });
+  });
+
+  it('should treat 1h as the stored 60m bars', async () => {
+    // The 09:00 bar overlaps the open
+    await writeBars('AAPL', '1h', [{ timestamp: Date.parse('2024-03-04T14:00:00Z') / 1000, open: 1, high: 1, low: 1, close: 1, volume: 1 }]);
+
+    const result = await findGaps({ ...input, interval: '1h', startDate: new Date('2024-03-04T14:00:00Z') });
+
+    expect(result.interval).toEqual('60m');
+    expect(result).toMatchObject({ expected: 7, present: 1, missing: 6 });
+  });
+});
@@ -1,35 +1,53 @@
-
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { getAllSymbols } from '../handlers/get_all_symbols';
-import { type StockSymbol } from '../schema';
+import { addSymbol } from '../handlers/add_symbol';
+import { deactivateSymbol } from '../handlers/deactivate_symbol';
+import { seedDefaultSymbols } from '../db/seed';
+import { DEFAULT_SYMBOLS } from '../schema';
 
 describe('getAllSymbols', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
-  it('should return all available stock symbols', async () => {
+  it('should return no symbols for an empty universe', async () => {
+    const result = await getAllSymbols();
+    expect(result).toEqual([]);
+  });
+
+  it('should return the default symbols once seeded', async () => {
+    await seedDefaultSymbols();
+
     const result = await getAllSymbols();
 
-    // Verify all expected symbols are returned
-    const expectedSymbols: StockSymbol[] = ['META', 'AAPL', 'AMZN', 'GOOG', 'MSFT', 'NVDA'];
-    expect(result).toEqual(expectedSymbols);
+    // Verify all expected symbols are returned in seed order
+    expect(result).toEqual(DEFAULT_SYMBOLS);
     expect(result).toHaveLength(6);
   });
 
-  it('should return symbols in expected order', async () => {
+  it('should include newly added symbols', async () => {
+    await seedDefaultSymbols();
+    await addSymbol({ symbol: 'TSLA' });
+
+    const result = await getAllSymbols();
+
+    expect(result).toHaveLength(7);
+    expect(result).toContain('TSLA');
+  });
+
+  it('should exclude deactivated symbols', async () => {
+    await seedDefaultSymbols();
+    await deactivateSymbol({ symbol: 'META' });
+
     const result = await getAllSymbols();
 
-    // Verify specific symbols exist
-    expect(result).toContain('META');
-    expect(result).toContain('AAPL');
-    expect(result).toContain('AMZN');
-    expect(result).toContain('GOOG');
-    expect(result).toContain('MSFT');
-    expect(result).toContain('NVDA');
+    expect(result).toHaveLength(5);
+    expect(result).not.toContain('META');
   });
 
   it('should return consistent results on multiple calls', async () => {
+    await seedDefaultSymbols();
+
     const result1 = await getAllSymbols();
     const result2 = await getAllSymbols();
 
@@ -22,7 +22,9 @@ const testTick = {
 const testInput: GetHistoricalDataInput = {
   symbol: 'AAPL',
   interval: '1m',
-  limit: 100
+  limit: 100,
+  session: 'all',
+  finalOnly: false
 };
 
 describe('getChartData', () => {
@@ -116,7 +118,9 @@ describe('getChartData', () => {
       interval: '1m',
       startDate: new Date('2024-01-01T00:00:00Z'),
       endDate: new Date('2024-01-31T23:59:59Z'),
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     });
 
     expect(result.data).toHaveLength(1);
@@ -140,7 +144,9 @@ describe('getChartData', () => {
     const result = await getChartData({
       symbol: 'AAPL',
       interval: '1m',
-      limit: 3
+      limit: 3,
+      session: 'all',
+      finalOnly: false
     });
 
     expect(result.data).toHaveLength(3);
@@ -165,7 +171,9 @@ describe('getChartData', () => {
     const result = await getChartData({
       symbol: 'META',
       interval: '1m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     });
 
     expect(result.symbol).toEqual('META');
@@ -192,7 +200,9 @@ describe('getChartData', () => {
     const result = await getChartData({
       symbol: 'AAPL',
       interval: '5m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     });
 
     expect(result.interval).toEqual('5m');
@@ -203,7 +213,9 @@ describe('getChartData', () => {
   it('should return empty data when no symbol specified and no data exists', async () => {
     const result = await getChartData({
       interval: '1m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     });
 
     expect(result.symbol).toEqual('AAPL'); // Default fallback
@@ -229,7 +241,9 @@ describe('getChartData', () => {
 
     const result = await getChartData({
       interval: '1m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     });
 
     expect(result.data).toHaveLength(2);
@@ -261,17 +275,83 @@ describe('getChartData', () => {
 
   it('should generate consistent mock data for testing', async () => {
     // Test that the mock Yahoo Finance data is deterministic
-    const result1 = await getChartData({ symbol: 'AAPL', interval: '1m', limit: 5 });
+    const result1 = await getChartData({ symbol: 'AAPL', interval: '1m', limit: 5, session: 'all', finalOnly: false });
     
     // Clear database and fetch again
     await resetDB();
     await createDB();
     
-    const result2 = await getChartData({ symbol: 'AAPL', interval: '1m', limit: 5 });
+    const result2 = await getChartData({ symbol: 'AAPL', interval: '1m', limit: 5, session: 'all', finalOnly: false });
     
     // Results should be consistent (same number of data points)
     expect(result1.data.length).toEqual(result2.data.length);
     expect(result1.symbol).toEqual(result2.symbol);
     expect(result1.interval).toEqual(result2.interval);
   });
+
+  it('should report native bars as not derived', async () => {
+    await db.insert(stockTicksTable).values(testTick).execute();
+
+    const result = await getChartData(testInput);
+
+    expect(result.derived).toBe(false);
+    expect(result.sourceInterval).toEqual('1m');
+  });
+
+  it('should roll up finer stored bars instead of fetching', async () => {
+    await db.insert(stockTicksTable)
+      .values([0, 1, 2, 3, 4].map(i => ({
+        ...testTick,
+        timestamp: new Date(testTick.timestamp.getTime() + i * 60 * 1000),
+        volume: 100
+      })))
+      .execute();
+
+    const result = await getChartData({ symbol: 'AAPL', interval: '5m', limit: 100, session: 'all', finalOnly: false });
+
+    expect(result.derived).toBe(true);
+    expect(result.sourceInterval).toEqual('1m');
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].volume).toEqual(500);
+    expect(result.data[0].timestamp).toEqual(testTick.timestamp);
+
+    // Nothing was fetched and stored at 5m
+    const stored = await db.select()
+      .from(stockTicksTable)
+      .where(eq(stockTicksTable.interval, '5m'))
+      .execute();
+    expect(stored).toHaveLength(0);
+  });
+
+  it('should return regular-session bars with their session', async () => {
+    // 09:00 and 09:30 New York on Monday 2024-03-04
+    await db.insert(stockTicksTable)
+      .values([
+        { ...testTick, timestamp: new Date('2024-03-04T14:00:00Z'), session: 'pre' as const },
+        { ...testTick, timestamp: new Date('2024-03-04T14:30:00Z'), session: 'regular' as const }
+      ])
+      .execute();
+
+    const result = await getChartData({ ...testInput, session: 'regular' });
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].session).toEqual('regular');
+    expect(result.data[0].timestamp).toEqual(new Date('2024-03-04T14:30:00Z'));
+  });
+
+  it('should mark the forming bar and leave it out when asked', async () => {
+    await db.insert(stockTicksTable)
+      .values([
+        { ...testTick, timestamp: new Date('2024-03-04T14:30:00Z') },
+        { ...testTick, timestamp: new Date('2024-03-04T14:31:00Z'), is_final: false }
+      ])
+      .execute();
+
+    const result = await getChartData(testInput);
+    expect(result.data.map(point => point.is_final)).toEqual([false, true]);
+
+    const final = await getChartData({ ...testInput, finalOnly: true });
+    expect(final.data).toHaveLength(1);
+    expect(final.data[0]).toMatchObject({ timestamp: new Date('2024-03-04T14:30:00Z'), is_final: true });
+  });
 });
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN } from '../helpers';
+import { writeBars } from '../db/bar_writer';
+import { getCoverage } from '../handlers/get_coverage';
+
+// 30m bars at the given offsets (in bars) from 09:30 New York on `date`
+const writeDayBars = (symbol: string, date: string, offsets: number[]) => {
+  const open = Date.parse(`${date}T14:30:00Z`) / 1000;
+  return writeBars(symbol, '30m', offsets.map(offset => ({
+    timestamp: open + offset * 30 * 60,
+    open: 100, high: 101, low: 99, close: 100, volume: 10
+  })));
+};
+
+const fullDay = Array.from({ length: 13 }, (_, i) => i);
+
+describe('getCoverage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return nothing for an empty database', async () => {
+    expect(await getCoverage({})).toEqual([]);
+  });
+
+  it('should summarize stored bars against the trading calendar', async () => {
+    // Monday complete, Tuesday missing, Wednesday with a hole and a post-market bar
+    await writeDayBars('AAPL', '2024-03-04', fullDay);
+    await writeDayBars('AAPL', '2024-03-06', fullDay.filter(i => i !== 3 && i !== 4).concat([14]));
+
+    const [coverage] = await getCoverage({ symbol: 'AAPL' });
+
+    expect(coverage).toMatchObject({
+      symbol: 'AAPL',
+      interval: '30m',
+      firstTimestamp: new Date('2024-03-04T14:30:00Z'),
+      lastTimestamp: new Date('2024-03-06T21:30:00Z'),
+      barCount: 25,
+      expectedCount: 39,
+      presentCount: 24,
+      // All of Tuesday, then 11:00-12:00 on Wednesday
+      gapCount: 2
+    });
+    expect(coverage.lastIngest).toBeInstanceOf(Date);
+    expect(coverage.days).toEqual([
+      { date: '2024-03-04', expected: 13, present: 13 },
+      { date: '2024-03-05', expected: 13, present: 0 },
+      { date: '2024-03-06', expected: 13, present: 11 }
+    ]);
+  });
+
+  it('should take the last ingest from the latest fetch of a bar', async () => {
+    await writeDayBars('AAPL', '2024-03-04', fullDay);
+    const fetchedAt = new Date(Date.now() + 60 * 60 * 1000);
+    // A re-ingest that revises one stored bar
+    await writeBars('AAPL', '30m', [{ timestamp: MARKET_OPEN, open: 100, high: 102, low: 99, close: 101, volume: 10 }],
+      { source: 'simulated', fetchedAt, ingestRunId: 'run-2' });
+
+    const [coverage] = await getCoverage({ symbol: 'AAPL' });
+
+    expect(coverage.lastIngest).toEqual(fetchedAt);
+  });
+
+  it('should report each symbol and interval separately', async () => {
+    await writeDayBars('MSFT', '2024-03-04', fullDay);
+    await writeDayBars('AAPL', '2024-03-04', [0]);
+    await writeBars('AAPL', '1d', [{ timestamp: Date.parse('2024-03-04T05:00:00Z') / 1000, open: 1, high: 1, low: 1, close: 1, volume: 1 }]);
+
+    const result = await getCoverage({});
+
+    expect(result.map(series => `${series.symbol} ${series.interval}`)).toEqual(['AAPL 30m', 'AAPL 1d', 'MSFT 30m']);
+    expect(result[1]).toMatchObject({ expectedCount: 1, presentCount: 1, gapCount: 0 });
+    expect(result[0]).toMatchObject({ presentCount: 1, gapCount: 1 });
+
+    const filtered = await getCoverage({ interval: '1d' });
+    expect(filtered).toHaveLength(1);
+  });
+
+  it('should skip holidays when counting expected bars', async () => {
+    // Thursday 2024-07-04 is a holiday
+    await writeDayBars('AAPL', '2024-07-03', [0]);
+    await writeDayBars('AAPL', '2024-07-05', [0]);
+
+    const [coverage] = await getCoverage({ symbol: 'AAPL' });
+
+    // 2024-07-03 closes early at 13:00
+    expect(coverage.days.map(day => day.date)).toEqual(['2024-07-03', '2024-07-05']);
+    expect(coverage.expectedCount).toEqual(7 + 13);
+  });
+});
@@ -1,10 +1,25 @@
 
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, MARKET_OPEN } from '../helpers';
 import { db } from '../db';
 import { stockTicksTable } from '../db/schema';
 import { type GetHistoricalDataInput } from '../schema';
 import { getHistoricalData } from '../handlers/get_historical_data';
+import { writeBars } from '../db/bar_writer';
+
+// 1m bars on Monday 2024-03-04 at minutes after 09:30 New York, with the
+// close marking the session: pre-market 1, regular 2, post-market 3, overnight 4
+const writeSessionBars = () => {
+  const bars = [[-30, 1], [0, 2], [389, 2], [420, 3], [660, 4]].map(([minutes, close]) => ({
+    timestamp: MARKET_OPEN + minutes * 60,
+    open: 2,
+    high: close + 10,
+    low: 1,
+    close,
+    volume: 100
+  }));
+  return writeBars('AAPL', '1m', bars);
+};
 
 const createTestData = async () => {
   const now = new Date();
@@ -65,7 +80,9 @@ describe('getHistoricalData', () => {
 
     const input: GetHistoricalDataInput = {
       interval: '5m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -85,7 +102,9 @@ describe('getHistoricalData', () => {
     const input: GetHistoricalDataInput = {
       symbol: 'AAPL',
       interval: '5m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -100,7 +119,9 @@ describe('getHistoricalData', () => {
 
     const input: GetHistoricalDataInput = {
       interval: '1m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -121,7 +142,9 @@ describe('getHistoricalData', () => {
       interval: '5m',
       startDate,
       endDate,
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -138,7 +161,9 @@ describe('getHistoricalData', () => {
 
     const input: GetHistoricalDataInput = {
       interval: '5m',
-      limit: 1
+      limit: 1,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -152,7 +177,9 @@ describe('getHistoricalData', () => {
     const input: GetHistoricalDataInput = {
       symbol: 'AAPL',
       interval: '5m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -166,7 +193,9 @@ describe('getHistoricalData', () => {
     const input: GetHistoricalDataInput = {
       symbol: 'NVDA', // No NVDA data in test set
       interval: '5m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -180,7 +209,9 @@ describe('getHistoricalData', () => {
     const input: GetHistoricalDataInput = {
       symbol: 'AAPL',
       interval: '5m',
-      limit: 1
+      limit: 1,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -203,7 +234,9 @@ describe('getHistoricalData', () => {
 
     const input: GetHistoricalDataInput = {
       interval: '5m',
-      limit: 100
+      limit: 100,
+      session: 'all',
+      finalOnly: false
     };
 
     const result = await getHistoricalData(input);
@@ -223,4 +256,76 @@ describe('getHistoricalData', () => {
       expect(tick.volume).toBeGreaterThan(0);
     });
   });
+
+  it('should roll up finer stored bars when none exist at the interval', async () => {
+    const start = MARKET_OPEN * 1000;
+    await db.insert(stockTicksTable)
+      .values([0, 1, 2, 3, 4, 5].map(i => ({
+        symbol: 'AAPL',
+        timestamp: new Date(start + i * 5 * 60 * 1000),
+        open: (100 + i).toString(),
+        high: (101 + i).toString(),
+        low: (99 + i).toString(),
+        close: (100.5 + i).toString(),
+        volume: 1000,
+        interval: '5m' as const
+      })))
+      .execute();
+
+    const result = await getHistoricalData({ symbol: 'AAPL', interval: '15m', limit: 100, session: 'all', finalOnly: false });
+
+    expect(result).toHaveLength(2);
+    // Newest first, like native bars
+    expect(result[0].timestamp).toEqual(new Date(start + 15 * 60 * 1000));
+    expect(result[0]).toMatchObject({ open: 103, high: 106, low: 102, close: 105.5, volume: 3000, interval: '15m', source_interval: '5m' });
+    expect(result[1]).toMatchObject({ open: 100, close: 102.5 });
+  });
+
+  it('should only build complete buckets within the limit', async () => {
+    const start = MARKET_OPEN * 1000;
+    await db.insert(stockTicksTable)
+      .values(Array.from({ length: 12 }, (_, i) => ({
+        symbol: 'AAPL',
+        timestamp: new Date(start + i * 5 * 60 * 1000),
+        open: '100', high: '101', low: '99', close: '100',
+        volume: 10,
+        interval: '5m' as const
+      })))
+      .execute();
+
+    const result = await getHistoricalData({ symbol: 'AAPL', interval: '15m', limit: 2, session: 'all', finalOnly: false });
+
+    expect(result).toHaveLength(2);
+    result.forEach(tick => expect(tick.volume).toEqual(30));
+  });
+
+  it('should filter bars by trading session', async () => {
+    await writeSessionBars();
+
+    const regular = await getHistoricalData({ symbol: 'AAPL', interval: '1m', limit: 100, session: 'regular', finalOnly: false });
+    const extended = await getHistoricalData({ symbol: 'AAPL', interval: '1m', limit: 100, session: 'extended', finalOnly: false });
+    const all = await getHistoricalData({ symbol: 'AAPL', interval: '1m', limit: 100, session: 'all', finalOnly: false });
+
+    expect(regular.map(tick => tick.close)).toEqual([2, 2]);
+    expect(extended.map(tick => tick.session)).toEqual(['post', 'regular', 'regular', 'pre']);
+    expect(all).toHaveLength(5);
+  });
+
+  it('should build regular-session daily bars from intraday bars', async () => {
+    await writeSessionBars();
+
+    const [regular] = await getHistoricalData({ symbol: 'AAPL', interval: '1d', limit: 100, session: 'regular', finalOnly: false });
+    const [all] = await getHistoricalData({ symbol: 'AAPL', interval: '1d', limit: 100, session: 'all', finalOnly: false });
+
+    expect(regular).toMatchObject({ open: 2, high: 12, close: 2, volume: 200, session: 'regular', source_interval: '1m' });
+    expect(all).toMatchObject({ high: 14, close: 4, volume: 500 });
+  });
+
+  it('should prefer native bars over derived ones', async () => {
+    await createTestData();
+
+    const result = await getHistoricalData({ symbol: 'AAPL', interval: '1m', limit: 100, session: 'all', finalOnly: false });
+
+    expect(result.every(tick => tick.source_interval === undefined)).toBe(true);
+  });
 });
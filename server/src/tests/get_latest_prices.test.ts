@@ -4,6 +4,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { stockTicksTable } from '../db/schema';
 import { getLatestPrices } from '../handlers/get_latest_prices';
+import { seedDefaultSymbols } from '../db/seed';
 import { eq, and } from 'drizzle-orm';
 
 describe('getLatestPrices', () => {
@@ -92,6 +93,7 @@ describe('getLatestPrices', () => {
   });
 
   it('should fetch fresh data from Yahoo Finance when requested', async () => {
+    await seedDefaultSymbols();
     const result = await getLatestPrices(true);
 
     // Should have fetched data for all 6 symbols
@@ -136,6 +138,7 @@ describe('getLatestPrices', () => {
     expect(initialCount).toHaveLength(1);
 
     // Fetch fresh data (this should trigger upsert logic)
+    await seedDefaultSymbols();
     await getLatestPrices(true);
 
     // Should still have records, but potentially updated
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { quotesTable } from '../db/schema';
+import { getQuotesInputSchema } from '../schema';
+import { getQuotes } from '../handlers/get_quotes';
+
+const base = Date.parse('2024-03-04T14:30:00Z');
+
+const createTestQuotes = async () => {
+  await db.insert(quotesTable)
+    .values([
+      { symbol: 'AAPL', timestamp: new Date(base), bid: '175.00', ask: '175.02', bid_size: 300, ask_size: 200 },
+      { symbol: 'AAPL', timestamp: new Date(base + 60000), bid: '175.10', ask: '175.11', bid_size: 100, ask_size: 500 },
+      { symbol: 'AAPL', timestamp: new Date(base + 120000), bid: '175.05', ask: '175.08', bid_size: 200, ask_size: 200 },
+      { symbol: 'MSFT', timestamp: new Date(base), bid: '410.00', ask: '410.05', bid_size: 100, ask_size: 100 }
+    ])
+    .execute();
+};
+
+describe('getQuotes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return quotes for the symbol, most recent first', async () => {
+    await createTestQuotes();
+
+    const result = await getQuotes(getQuotesInputSchema.parse({ symbol: 'AAPL' }));
+
+    expect(result).toHaveLength(3);
+    expect(result.map(quote => quote.bid)).toEqual([175.05, 175.1, 175]);
+    expect(typeof result[0].ask).toBe('number');
+    expect(result[0].bid_size).toEqual(200);
+  });
+
+  it('should filter by date range and limit', async () => {
+    await createTestQuotes();
+
+    const ranged = await getQuotes(getQuotesInputSchema.parse({
+      symbol: 'AAPL',
+      startDate: new Date(base + 60000)
+    }));
+    expect(ranged).toHaveLength(2);
+
+    const limited = await getQuotes(getQuotesInputSchema.parse({ symbol: 'AAPL', limit: 1 }));
+    expect(limited.map(quote => quote.ask)).toEqual([175.08]);
+  });
+
+  it('should return an empty list for a symbol without quotes', async () => {
+    const result = await getQuotes(getQuotesInputSchema.parse({ symbol: 'NVDA' }));
+
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { getTradesInputSchema } from '../schema';
+import { recordTrades } from '../handlers/record_trades';
+import { getTrades } from '../handlers/get_trades';
+
+const base = Date.parse('2024-03-04T14:30:00Z');
+
+const createTestTrades = async () => {
+  await recordTrades({
+    symbol: 'AAPL',
+    trades: [0, 1000, 2000, 2000, 3000].map((offset, i) => ({
+      timestamp: new Date(base + offset),
+      price: 175 + i,
+      size: 10 * (i + 1),
+      exchange: null,
+      conditions: null
+    }))
+  });
+  await recordTrades({
+    symbol: 'MSFT',
+    trades: [{ timestamp: new Date(base), price: 410, size: 5, exchange: null, conditions: null }]
+  });
+};
+
+describe('getTrades', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return trades for the symbol, most recent first', async () => {
+    await createTestTrades();
+
+    const result = await getTrades(getTradesInputSchema.parse({ symbol: 'AAPL' }));
+
+    expect(result).toHaveLength(5);
+    expect(result.every(trade => trade.symbol === 'AAPL')).toBe(true);
+    expect(result.map(trade => trade.price)).toEqual([179, 178, 177, 176, 175]);
+  });
+
+  it('should filter by date range and limit', async () => {
+    await createTestTrades();
+
+    const ranged = await getTrades(getTradesInputSchema.parse({
+      symbol: 'AAPL',
+      startDate: new Date(base + 1000),
+      endDate: new Date(base + 2000)
+    }));
+    expect(ranged.map(trade => trade.price)).toEqual([178, 177, 176]);
+
+    const limited = await getTrades(getTradesInputSchema.parse({ symbol: 'AAPL', limit: 2 }));
+    expect(limited.map(trade => trade.price)).toEqual([179, 178]);
+  });
+
+  it('should return an empty list for a symbol without trades', async () => {
+    const result = await getTrades(getTradesInputSchema.parse({ symbol: 'NVDA' }));
+
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import { importSymbolMetadata, parseSymbolMetadataCsv } from '../handlers/import_symbol_metadata';
+import { seedDefaultSymbols } from '../db/seed';
+import { eq } from 'drizzle-orm';
+
+const testCsv = `symbol,name,exchange_mic,currency,sector,industry,tick_size,lot_size
+AAPL,Apple Inc.,XNAS,USD,Information Technology,Technology Hardware & Equipment,0.01,100
+BRK.A,"Berkshire Hathaway Inc., Class A",XNYS,USD,Financials,Insurance,0.01,1
+SHEL,"Shell ""plc""",XLON,GBP,Energy,Oil & Gas,0.0005,1
+`;
+
+describe('parseSymbolMetadataCsv', () => {
+  it('should parse quoted fields and numeric columns', () => {
+    const records = parseSymbolMetadataCsv(testCsv);
+
+    expect(records).toHaveLength(3);
+    expect(records[1].name).toEqual('Berkshire Hathaway Inc., Class A');
+    expect(records[2].name).toEqual('Shell "plc"');
+    expect(records[2].currency).toEqual('GBP');
+    expect(records[2].tick_size).toEqual(0.0005);
+    expect(records[1].lot_size).toEqual(1);
+  });
+
+  it('should apply defaults for missing columns and empty cells', () => {
+    const records = parseSymbolMetadataCsv('symbol,name\r\ntsla,\r\n');
+
+    expect(records).toEqual([{
+      symbol: 'TSLA',
+      name: null,
+      exchange_mic: null,
+      currency: 'USD',
+      timezone: 'America/New_York',
+      sector: null,
+      industry: null,
+      tick_size: 0.01,
+      lot_size: 100
+    }]);
+  });
+
+  it('should take the time zone from the column or the exchange', () => {
+    const records = parseSymbolMetadataCsv(testCsv);
+    const explicit = parseSymbolMetadataCsv('symbol,exchange_mic,timezone\nSHEL,XLON,Europe/Amsterdam\n');
+
+    expect(records.map(record => record.timezone)).toEqual(['America/New_York', 'America/New_York', 'Europe/London']);
+    expect(explicit[0].timezone).toEqual('Europe/Amsterdam');
+    expect(() => parseSymbolMetadataCsv('symbol,timezone\nSHEL,Mars/Olympus\n')).toThrow(/Invalid IANA time zone/);
+  });
+
+  it('should report every invalid line', () => {
+    const csv = 'symbol,currency,tick_size\nAAPL,usd,0.01\nMSFT,DOLLARS,0.01\nNVDA,USD,-1\n';
+
+    expect(() => parseSymbolMetadataCsv(csv)).toThrow(/line 3.*line 4/);
+  });
+
+  it('should report symbols listed more than once', () => {
+    const csv = 'symbol,currency\nAAPL,USD\nMSFT,USD\naapl,EUR\n';
+
+    expect(() => parseSymbolMetadataCsv(csv)).toThrow(/line 4: symbol AAPL repeats line 2/);
+  });
+
+  it('should require a symbol column', () => {
+    expect(() => parseSymbolMetadataCsv('name,currency\nApple,USD\n')).toThrow(/"symbol" column/);
+  });
+});
+
+describe('importSymbolMetadata', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should insert new symbols with their metadata', async () => {
+    const result = await importSymbolMetadata({ csv: testCsv });
+
+    expect(result).toHaveLength(3);
+    const shell = result.find(s => s.symbol === 'SHEL')!;
+    expect(shell.exchange_mic).toEqual('XLON');
+    expect(shell.tick_size).toEqual(0.0005);
+    expect(typeof shell.tick_size).toBe('number');
+    expect(shell.is_active).toBe(true);
+  });
+
+  it('should update metadata for existing symbols', async () => {
+    await db.insert(symbolsTable).values({ symbol: 'AAPL', is_active: false }).execute();
+
+    await importSymbolMetadata({ csv: testCsv });
+
+    const rows = await db.select()
+      .from(symbolsTable)
+      .where(eq(symbolsTable.symbol, 'AAPL'))
+      .execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].name).toEqual('Apple Inc.');
+    expect(rows[0].sector).toEqual('Information Technology');
+    expect(rows[0].is_active).toBe(true);
+  });
+
+  it('should not write anything when a row is invalid', async () => {
+    const csv = `${testCsv}BAD,Bad Co,XNAS,USD,,,zero,100\n`;
+
+    await expect(importSymbolMetadata({ csv })).rejects.toThrow(/line 5/);
+
+    const rows = await db.select().from(symbolsTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should reject a duplicate symbol without writing anything', async () => {
+    const csv = `${testCsv}AAPL,Apple Inc.,XNAS,USD,,,0.01,100\n`;
+
+    await expect(importSymbolMetadata({ csv })).rejects.toThrow(/line 5: symbol AAPL repeats/);
+
+    const rows = await db.select().from(symbolsTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should seed default symbols with bundled metadata', async () => {
+    await seedDefaultSymbols();
+
+    const rows = await db.select()
+      .from(symbolsTable)
+      .where(eq(symbolsTable.symbol, 'META'))
+      .execute();
+    expect(rows[0].name).toEqual('Meta Platforms, Inc.');
+    expect(rows[0].exchange_mic).toEqual('XNAS');
+    expect(parseFloat(rows[0].tick_size)).toEqual(0.01);
+  });
+});
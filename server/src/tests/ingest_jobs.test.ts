@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { ingestJobsTable, stockTicksTable } from '../db/schema';
+import { enqueueIngestJobsInputSchema } from '../schema';
+import { registerProvider } from '../providers';
+import {
+  claimIngestJob,
+  enqueueIngestJobs,
+  processNextIngestJob,
+  recoverStaleIngestJobs,
+  retryDelayMs
+} from '../jobs/queue';
+import { getIngestJobs } from '../handlers/get_ingest_jobs';
+import { eq } from 'drizzle-orm';
+
+const enqueue = (symbols: string[], maxAttempts = 5) =>
+  enqueueIngestJobs(enqueueIngestJobsInputSchema.parse({ symbols, interval: '5m', period: '1d', maxAttempts }));
+
+registerProvider({
+  id: 'failing',
+  fetchBars: async () => {
+    throw new Error('Upstream unavailable');
+  }
+});
+
+describe('ingest job queue', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['MARKET_DATA_PROVIDER'];
+    await resetDB();
+  });
+
+  it('should queue one job per distinct symbol under a shared batch id', async () => {
+    const { batchId, jobs } = await enqueue(['AAPL', 'msft', 'AAPL']);
+
+    expect(jobs.map(job => job.symbol)).toEqual(['AAPL', 'MSFT']);
+    jobs.forEach(job => {
+      expect(job).toMatchObject({ batch_id: batchId, status: 'queued', attempts: 0, max_attempts: 5, interval: '5m', period: '1d' });
+    });
+  });
+
+  it('should accept far more symbols than a batch fetch', () => {
+    const symbols = Array.from({ length: 300 }, (_, i) => `S${i}`);
+
+    expect(enqueueIngestJobsInputSchema.safeParse({ symbols }).success).toBe(true);
+  });
+
+  it('should never hand the same job to concurrent claims', async () => {
+    await enqueue(['AAPL', 'MSFT']);
+
+    const claims = await Promise.all([claimIngestJob(), claimIngestJob(), claimIngestJob()]);
+    const claimed = claims.filter(job => job !== null);
+
+    expect(claimed.map(job => job!.symbol).sort()).toEqual(['AAPL', 'MSFT']);
+    claimed.forEach(job => {
+      expect(job).toMatchObject({ status: 'running', attempts: 1 });
+      expect(job!.started_at).toBeInstanceOf(Date);
+    });
+  });
+
+  it('should run a claimed job and store its bars', async () => {
+    await enqueue(['NVDA']);
+
+    const job = await processNextIngestJob();
+
+    expect(job).toMatchObject({ status: 'succeeded', attempts: 1, last_error: null });
+    expect(job!.finished_at).toBeInstanceOf(Date);
+    const stored = await db.select().from(stockTicksTable).where(eq(stockTicksTable.symbol, 'NVDA')).execute();
+    expect(stored.length).toBeGreaterThan(0);
+    expect(job).toMatchObject({ bars_inserted: stored.length, bars_updated: 0, bars_unchanged: 0 });
+  });
+
+  it('should requeue a failed attempt with backoff', async () => {
+    process.env['MARKET_DATA_PROVIDER'] = 'failing';
+    await enqueue(['AAPL']);
+
+    const before = Date.now();
+    const job = await processNextIngestJob();
+
+    expect(job).toMatchObject({ status: 'queued', attempts: 1, last_error: 'Upstream unavailable' });
+    expect(job!.run_after.getTime()).toBeGreaterThanOrEqual(before + retryDelayMs(1));
+    // Not due again until the backoff has passed
+    expect(await claimIngestJob()).toBeNull();
+  });
+
+  it('should fail a job once its attempts are used up', async () => {
+    process.env['MARKET_DATA_PROVIDER'] = 'failing';
+    await enqueue(['AAPL'], 1);
+
+    const job = await processNextIngestJob();
+
+    expect(job).toMatchObject({ status: 'failed', attempts: 1, last_error: 'Upstream unavailable' });
+    expect(job!.finished_at).toBeInstanceOf(Date);
+  });
+
+  it('should double the retry delay up to a cap', () => {
+    expect(retryDelayMs(2)).toEqual(2 * retryDelayMs(1));
+    expect(retryDelayMs(3)).toEqual(4 * retryDelayMs(1));
+    expect(retryDelayMs(30)).toEqual(retryDelayMs(40));
+  });
+
+  it('should requeue jobs left running by a stopped worker', async () => {
+    await enqueue(['AAPL', 'MSFT'], 1);
+    const first = await claimIngestJob();
+    await claimIngestJob();
+    await db.update(ingestJobsTable)
+      .set({ max_attempts: 2, started_at: new Date(Date.now() - 60 * 60 * 1000) })
+      .where(eq(ingestJobsTable.id, first!.id))
+      .execute();
+
+    const recovered = await recoverStaleIngestJobs();
+
+    // Only the job claimed an hour ago is stale; it still has an attempt left
+    expect(recovered).toEqual(1);
+    const jobs = await getIngestJobs({ status: 'queued', limit: 10 });
+    expect(jobs.map(job => job.id)).toEqual([first!.id]);
+    expect(jobs[0].last_error).toEqual('Interrupted before finishing');
+  });
+
+  it('should list jobs by batch and status', async () => {
+    const first = await enqueue(['AAPL', 'MSFT']);
+    await enqueue(['NVDA']);
+
+    expect(await getIngestJobs({ batchId: first.batchId, limit: 10 })).toHaveLength(2);
+    expect(await getIngestJobs({ status: 'queued', limit: 10 })).toHaveLength(3);
+    expect(await getIngestJobs({ limit: 1 })).toHaveLength(1);
+  });
+});
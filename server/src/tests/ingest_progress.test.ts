@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'node:crypto';
+import { resetDB, createDB } from '../helpers';
+import { enqueueIngestJobsInputSchema, type IngestProgressEvent } from '../schema';
+import { registerProvider } from '../providers';
+import { batchFetchStocks } from '../handlers/batch_fetch_stocks';
+import { enqueueIngestJobs, processNextIngestJob } from '../jobs/queue';
+import { ingestProgressEvents, publishIngestProgress } from '../jobs/progress';
+
+registerProvider({
+  id: 'failing',
+  fetchBars: async () => {
+    throw new Error('Upstream unavailable');
+  }
+});
+
+// Subscribe like the onIngestProgress procedure, collecting events until stopped
+const listen = (batchId?: string) => {
+  const controller = new AbortController();
+  const events: IngestProgressEvent[] = [];
+  const done = (async () => {
+    for await (const event of ingestProgressEvents(batchId, controller.signal)) {
+      events.push(event);
+    }
+  })();
+
+  return {
+    events,
+    stop: async () => {
+      // Let buffered events reach the loop before hanging up
+      await new Promise(resolve => setTimeout(resolve, 0));
+      controller.abort();
+      await done;
+      return events;
+    }
+  };
+};
+
+const steps = (events: IngestProgressEvent[]) => events.map(event => `${event.symbol}:${event.stage}`);
+
+describe('ingest progress', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['MARKET_DATA_PROVIDER'];
+    await resetDB();
+  });
+
+  it('should only deliver events of the subscribed batch', async () => {
+    const batchId = randomUUID();
+    const subscription = listen(batchId);
+    const everything = listen();
+
+    publishIngestProgress({ batchId: randomUUID(), symbol: 'AAPL', stage: 'started' });
+    publishIngestProgress({ batchId, symbol: 'MSFT', stage: 'started' });
+
+    const events = await subscription.stop();
+    expect(steps(events)).toEqual(['MSFT:started']);
+    expect(events[0]).toMatchObject({ batchId, inserted: 0, error: null, retrying: false });
+    expect(events[0].at).toBeInstanceOf(Date);
+    expect(await everything.stop()).toHaveLength(2);
+  });
+
+  it('should stream each symbol of a batch fetch as it is written', async () => {
+    const batchId = randomUUID();
+    const subscription = listen(batchId);
+
+    const result = await batchFetchStocks({ symbols: ['AAPL', 'MSFT'], interval: '5m', period: '1d', batchId });
+
+    const events = await subscription.stop();
+    expect(result.batchId).toEqual(batchId);
+    expect(steps(events)).toEqual([
+      'AAPL:started', 'AAPL:written', 'AAPL:finished',
+      'MSFT:started', 'MSFT:written', 'MSFT:finished'
+    ]);
+    const finished = events.filter(event => event.stage === 'finished');
+    finished.forEach((event, i) => {
+      expect(event.inserted).toEqual(result.results[i].inserted);
+    });
+  });
+
+  it('should report failed symbols with their error', async () => {
+    process.env['MARKET_DATA_PROVIDER'] = 'failing';
+    const batchId = randomUUID();
+    const subscription = listen(batchId);
+
+    await batchFetchStocks({ symbols: ['AAPL'], interval: '5m', period: '1d', batchId });
+
+    const events = await subscription.stop();
+    expect(steps(events)).toEqual(['AAPL:started', 'AAPL:failed']);
+    expect(events[1]).toMatchObject({ error: 'Upstream unavailable', retrying: false });
+  });
+
+  it('should stream queued job progress from the workers', async () => {
+    const { batchId } = await enqueueIngestJobs(enqueueIngestJobsInputSchema.parse({ symbols: ['AAPL'], interval: '5m', period: '1d' }));
+    const subscription = listen(batchId);
+
+    await processNextIngestJob();
+
+    const events = await subscription.stop();
+    expect(steps(events)).toEqual(['AAPL:started', 'AAPL:written', 'AAPL:finished']);
+    expect(events[2].inserted).toBeGreaterThan(0);
+  });
+
+  it('should flag failed jobs that will be retried', async () => {
+    process.env['MARKET_DATA_PROVIDER'] = 'failing';
+    const { batchId } = await enqueueIngestJobs(enqueueIngestJobsInputSchema.parse({ symbols: ['AAPL'], interval: '5m', period: '1d', maxAttempts: 2 }));
+    const subscription = listen(batchId);
+
+    await processNextIngestJob();
+
+    const events = await subscription.stop();
+    expect(steps(events)).toEqual(['AAPL:started', 'AAPL:failed']);
+    expect(events[1]).toMatchObject({ error: 'Upstream unavailable', retrying: true });
+  });
+});
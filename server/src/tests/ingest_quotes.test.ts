@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { quotesTable } from '../db/schema';
+import { ingestQuotesInputSchema } from '../schema';
+import { ingestQuotes } from '../handlers/ingest_quotes';
+import { eq } from 'drizzle-orm';
+
+describe('ingestQuotes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should store provider quotes with numeric prices', async () => {
+    const result = await ingestQuotes(ingestQuotesInputSchema.parse({ symbol: 'AAPL' }));
+
+    expect(result.length).toBeGreaterThan(0);
+    result.forEach(quote => {
+      expect(quote.symbol).toEqual('AAPL');
+      expect(typeof quote.bid).toBe('number');
+      expect(quote.ask).toBeGreaterThan(quote.bid);
+      expect(quote.timestamp).toBeInstanceOf(Date);
+    });
+  });
+
+  it('should not duplicate quotes when a range is ingested twice', async () => {
+    const first = await ingestQuotes(ingestQuotesInputSchema.parse({ symbol: 'MSFT' }));
+    await ingestQuotes(ingestQuotesInputSchema.parse({ symbol: 'MSFT' }));
+
+    const rows = await db.select()
+      .from(quotesTable)
+      .where(eq(quotesTable.symbol, 'MSFT'))
+      .execute();
+
+    // The second run may add quotes for minutes that elapsed in between
+    expect(rows.length).toBeGreaterThanOrEqual(first.length);
+    expect(rows.length).toBeLessThanOrEqual(first.length + 2);
+  });
+
+  it('should store quotes in chunks for multi-day periods', async () => {
+    const result = await ingestQuotes(ingestQuotesInputSchema.parse({ symbol: 'NVDA', period: '5d' }));
+
+    const rows = await db.select()
+      .from(quotesTable)
+      .where(eq(quotesTable.symbol, 'NVDA'))
+      .execute();
+
+    expect(result.length).toBeGreaterThan(1000);
+    expect(rows).toHaveLength(result.length);
+  }, 30000); // Extended timeout for multi-day intraday fetches
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'bun:test';
+import { alignToBar, canonicalInterval, expectedBarStarts, nextBarStart, resolvePeriod, validateIntervalPeriod } from '../intervals';
+import { fetchStockDataInputSchema } from '../schema';
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+describe('alignToBar', () => {
+  it('should align 90 minute bars to New York local time', () => {
+    // 10:45 New York falls in the 10:30 bar
+    const ms = Date.parse('2024-03-04T15:45:00Z');
+
+    expect(iso(alignToBar(ms, '90m'))).toEqual('2024-03-04T15:30:00.000Z');
+  });
+
+  it('should start weeks on Monday and months on the 1st', () => {
+    // Wednesday 2024-03-06 10:47 New York
+    const ms = Date.parse('2024-03-06T15:47:00Z');
+
+    expect(iso(alignToBar(ms, '1d'))).toEqual('2024-03-06T05:00:00.000Z');
+    expect(iso(alignToBar(ms, '1wk'))).toEqual('2024-03-04T05:00:00.000Z');
+    expect(iso(alignToBar(ms, '1mo'))).toEqual('2024-03-01T05:00:00.000Z');
+    expect(iso(alignToBar(ms, '3mo'))).toEqual('2024-01-01T05:00:00.000Z');
+  });
+});
+
+describe('nextBarStart', () => {
+  it('should step to the following bar across DST changes', () => {
+    const ms = Date.parse('2024-03-06T15:47:00Z');
+
+    expect(iso(nextBarStart(ms, '90m'))).toEqual('2024-03-06T17:00:00.000Z');
+    expect(iso(nextBarStart(ms, '1wk'))).toEqual('2024-03-11T04:00:00.000Z');
+    expect(iso(nextBarStart(ms, '1mo'))).toEqual('2024-04-01T04:00:00.000Z');
+  });
+});
+
+describe('expectedBarStarts', () => {
+  it('should list regular-session bars on trading days only', () => {
+    // Wednesday 2024-07-03 closes early and Thursday 2024-07-04 is a holiday
+    const starts = expectedBarStarts('30m', new Date('2024-07-03T00:00:00Z'), new Date('2024-07-06T00:00:00Z'));
+
+    // 09:30-13:00 on the 3rd, then a full 09:30-16:00 session on the 5th
+    expect(starts).toHaveLength(7 + 13);
+    expect(iso(starts[0])).toEqual('2024-07-03T13:30:00.000Z');
+    expect(iso(starts[6])).toEqual('2024-07-03T16:30:00.000Z');
+    expect(iso(starts[7])).toEqual('2024-07-05T13:30:00.000Z');
+  });
+
+  it('should include bars that straddle the open and skip unfinished ones', () => {
+    // Monday 2024-03-04, ending 11:00 New York
+    const starts = expectedBarStarts('90m', new Date('2024-03-04T05:00:00Z'), new Date('2024-03-04T16:00:00Z'));
+
+    // The 09:00 bar overlaps the open; the 10:30 bar is still forming
+    expect(starts.map(iso)).toEqual(['2024-03-04T14:00:00.000Z']);
+  });
+
+  it('should list one daily bar per trading day', () => {
+    // Friday 2024-03-29 is Good Friday
+    const starts = expectedBarStarts('1d', new Date('2024-03-25T04:00:00Z'), new Date('2024-04-01T04:00:00Z'));
+
+    expect(starts).toHaveLength(4);
+    expect(iso(starts[3])).toEqual('2024-03-28T04:00:00.000Z');
+  });
+});
+
+describe('canonicalInterval', () => {
+  it('should map 1h onto 60m', () => {
+    expect(canonicalInterval('1h')).toEqual('60m');
+    expect(canonicalInterval('1wk')).toEqual('1wk');
+  });
+});
+
+describe('resolvePeriod', () => {
+  // Monday 2024-03-04 10:00 New York
+  const end = new Date('2024-03-04T15:00:00Z');
+
+  it('should count 1d and 5d in trading days', () => {
+    expect(resolvePeriod('1d', end).start.toISOString()).toEqual('2024-03-04T05:00:00.000Z');
+    expect(resolvePeriod('5d', end).start.toISOString()).toEqual('2024-02-27T05:00:00.000Z');
+    expect(resolvePeriod('1d', end).end).toBe(end);
+  });
+
+  it('should use the previous session before pre-market opens', () => {
+    // Monday 03:00 New York
+    const early = new Date('2024-03-04T08:00:00Z');
+
+    expect(resolvePeriod('1d', early).start.toISOString()).toEqual('2024-03-01T05:00:00.000Z');
+  });
+
+  it('should resolve calendar periods, ytd and max', () => {
+    expect(resolvePeriod('1mo', end).start.toISOString()).toEqual('2024-02-03T15:00:00.000Z');
+    expect(resolvePeriod('ytd', end).start.toISOString()).toEqual('2024-01-01T05:00:00.000Z');
+    expect(resolvePeriod('max', end).start.getTime()).toEqual(0);
+  });
+});
+
+describe('validateIntervalPeriod', () => {
+  it('should accept periods within what an interval supports', () => {
+    expect(validateIntervalPeriod('1m', '5d')).toBeNull();
+    expect(validateIntervalPeriod('5m', '1mo')).toBeNull();
+    expect(validateIntervalPeriod('1h', '1y')).toBeNull();
+    expect(validateIntervalPeriod('1d', 'max')).toBeNull();
+  });
+
+  it('should reject periods too long for intraday intervals', () => {
+    expect(validateIntervalPeriod('1m', '1mo')).toEqual('Interval 1m supports periods of up to 7 days, not 1mo');
+    expect(validateIntervalPeriod('15m', 'ytd')).not.toBeNull();
+    expect(validateIntervalPeriod('60m', '5y')).not.toBeNull();
+  });
+
+  it('should be enforced by fetch input validation', () => {
+    expect(fetchStockDataInputSchema.safeParse({ symbol: 'AAPL', interval: '1m', period: '1y' }).success).toBe(false);
+    expect(fetchStockDataInputSchema.safeParse({ symbol: 'AAPL', interval: '1m', period: '2w' }).success).toBe(false);
+    expect(fetchStockDataInputSchema.safeParse({ symbol: 'AAPL', interval: '1d', period: 'ytd' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { symbolsTable } from '../db/schema';
+import { listSymbols } from '../handlers/list_symbols';
+
+describe('listSymbols', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return empty array when no symbols are tracked', async () => {
+    const result = await listSymbols({ includeInactive: false });
+    expect(result).toEqual([]);
+  });
+
+  it('should list only active symbols by default', async () => {
+    await db.insert(symbolsTable).values([
+      { symbol: 'AAPL' },
+      { symbol: 'TSLA', is_active: false }
+    ]).execute();
+
+    const result = await listSymbols({ includeInactive: false });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].symbol).toEqual('AAPL');
+  });
+
+  it('should include inactive symbols when requested', async () => {
+    await db.insert(symbolsTable).values([
+      { symbol: 'AAPL' },
+      { symbol: 'TSLA', is_active: false }
+    ]).execute();
+
+    const result = await listSymbols({ includeInactive: true });
+
+    expect(result.map(s => s.symbol).sort()).toEqual(['AAPL', 'TSLA']);
+    expect(result.find(s => s.symbol === 'TSLA')!.is_active).toBe(false);
+  });
+
+  it('should list symbols in the order they were added', async () => {
+    await db.insert(symbolsTable).values({ symbol: 'NVDA', created_at: new Date('2024-01-01T00:00:00Z') }).execute();
+    await db.insert(symbolsTable).values({ symbol: 'AAPL', created_at: new Date('2024-01-02T00:00:00Z') }).execute();
+
+    const result = await listSymbols({ includeInactive: false });
+
+    expect(result.map(s => s.symbol)).toEqual(['NVDA', 'AAPL']);
+  });
+});
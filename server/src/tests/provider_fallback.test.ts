@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN, makeBars } from '../helpers';
+import { db } from '../db';
+import { stockTicksTable } from '../db/schema';
+import { registerProvider } from '../providers';
+import { fetchBarsForIngest } from '../providers/ingest';
+import { addSymbol } from '../handlers/add_symbol';
+import { setSymbolProviders } from '../handlers/set_symbol_providers';
+import { fetchStockData } from '../handlers/fetch_stock_data';
+import { eq } from 'drizzle-orm';
+
+const request = { symbol: 'AAPL', interval: '1m' as const, period: '1d' as const };
+
+registerProvider({ id: 'down', fetchBars: async () => { throw new Error('Service unavailable'); } });
+registerProvider({ id: 'blank', fetchBars: async () => [] });
+registerProvider({ id: 'primary', fetchBars: async () => makeBars(3) });
+registerProvider({ id: 'backup', fetchBars: async () => makeBars(3, 100.5) });
+
+describe('provider fallback', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should use the default provider for symbols without a list', async () => {
+    const { bars, provenance } = await fetchBarsForIngest(request, 'run-1');
+
+    expect(bars.length).toBeGreaterThan(0);
+    expect(provenance).toMatchObject({ source: 'simulated', ingestRunId: 'run-1' });
+  });
+
+  it('should use the first provider that answers', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+    await setSymbolProviders({ symbol: 'AAPL', providers: ['primary', 'backup'] });
+
+    const { bars, provenance } = await fetchBarsForIngest(request, 'run-1');
+
+    expect(bars.map(bar => bar.close)).toEqual([100, 100, 100]);
+    expect(provenance.source).toEqual('primary');
+  });
+
+  it('should fall back past providers that fail or return nothing', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+    await setSymbolProviders({ symbol: 'AAPL', providers: ['down', 'blank', 'backup'] });
+
+    const { bars, provenance } = await fetchBarsForIngest(request, 'run-1');
+
+    expect(bars.map(bar => bar.close)).toEqual([100.5, 100.5, 100.5]);
+    expect(provenance.source).toEqual('backup');
+  });
+
+  it('should return no bars when the answering providers had none', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+    await setSymbolProviders({ symbol: 'AAPL', providers: ['down', 'blank'] });
+
+    const { bars, provenance } = await fetchBarsForIngest(request, 'run-1');
+
+    expect(bars).toEqual([]);
+    expect(provenance.source).toEqual('blank');
+  });
+
+  it('should throw only when every provider failed', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+    await setSymbolProviders({ symbol: 'AAPL', providers: ['down'] });
+    await expect(fetchBarsForIngest(request, 'run-1')).rejects.toThrow('Service unavailable');
+
+    registerProvider({ id: 'also-down', fetchBars: async () => { throw new Error('Timed out'); } });
+    await setSymbolProviders({ symbol: 'AAPL', providers: ['down', 'also-down'] });
+    await expect(fetchBarsForIngest(request, 'run-1')).rejects.toThrow(/All providers failed for AAPL \(down: Service unavailable; also-down: Timed out\)/);
+  });
+
+  it('should store fallback bars under the provider that answered', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+    await setSymbolProviders({ symbol: 'AAPL', providers: ['down', 'backup'] });
+
+    const result = await fetchStockData(request);
+
+    expect(result).toHaveLength(3);
+    const stored = await db.select().from(stockTicksTable).where(eq(stockTicksTable.symbol, 'AAPL')).execute();
+    stored.forEach(tick => expect(tick.source).toEqual('backup'));
+  });
+
+  it('should set and clear a symbol\'s providers', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+
+    const updated = await setSymbolProviders({ symbol: 'AAPL', providers: ['backup', 'primary'] });
+    expect(updated.providers).toEqual(['backup', 'primary']);
+    expect(typeof updated.tick_size).toBe('number');
+
+    const cleared = await setSymbolProviders({ symbol: 'AAPL', providers: null });
+    expect(cleared.providers).toBeNull();
+    expect((await fetchBarsForIngest(request, 'run-1')).provenance.source).toEqual('simulated');
+  });
+
+  it('should reject unknown providers and untracked symbols', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+
+    await expect(setSymbolProviders({ symbol: 'AAPL', providers: ['primary', 'nope'] })).rejects.toThrow(/Unknown market data provider: nope/);
+    await expect(setSymbolProviders({ symbol: 'MSFT', providers: ['primary'] })).rejects.toThrow(/not tracked/);
+  });
+});
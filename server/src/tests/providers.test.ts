@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test';
+import { fetchBars, fetchQuotes, getProvider, listProviders, registerProvider, type MarketDataProvider } from '../providers';
+
+describe('market data providers', () => {
+  it('should register the simulated provider by default', () => {
+    expect(listProviders()).toContain('simulated');
+    expect(getProvider().id).toEqual('simulated');
+  });
+
+  it('should throw for an unknown provider id', () => {
+    expect(() => getProvider('does-not-exist')).toThrow(/Unknown market data provider/);
+  });
+
+  it('should route fetches through a registered provider', async () => {
+    const fixedProvider: MarketDataProvider = {
+      id: 'fixed',
+      fetchBars: async () => [
+        { timestamp: 1704103200, open: 10, high: 11, low: 9, close: 10.5, volume: 1000 }
+      ]
+    };
+    registerProvider(fixedProvider);
+
+    const result = await fetchBars({ symbol: 'AAPL', interval: '1m', period: '1d' }, 'fixed');
+
+    expect(result).toHaveLength(1);
+    expect(result[0].close).toEqual(10.5);
+  });
+
+  it('should return chronological bars with valid OHLC relationships', async () => {
+    const result = await fetchBars({ symbol: 'MSFT', interval: '5m', period: '1d' });
+
+    expect(result.length).toBeGreaterThan(0);
+    for (let i = 1; i < result.length; i++) {
+      expect(result[i].timestamp).toBeGreaterThan(result[i - 1].timestamp);
+    }
+    result.forEach(bar => {
+      expect(bar.high).toBeGreaterThanOrEqual(Math.max(bar.open, bar.close));
+      expect(bar.low).toBeLessThanOrEqual(Math.min(bar.open, bar.close));
+      expect(bar.volume).toBeGreaterThan(0);
+    });
+  });
+
+  it('should route quote fetches to providers that supply quotes', async () => {
+    const result = await fetchQuotes({ symbol: 'AAPL', period: '1d' });
+
+    expect(result.length).toBeGreaterThan(0);
+    result.forEach(quote => {
+      expect(quote.ask).toBeGreaterThan(quote.bid);
+    });
+  });
+
+  it('should throw when the provider does not supply quotes', async () => {
+    registerProvider({ id: 'bars-only', fetchBars: async () => [] });
+
+    await expect(fetchQuotes({ symbol: 'AAPL', period: '1d' }, 'bars-only')).rejects.toThrow(/does not supply quotes/);
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN } from '../helpers';
+import { db } from '../db';
+import { quarantinedTicksTable, stockTicksTable } from '../db/schema';
+import { enqueueIngestJobsInputSchema, listQuarantinedTicksInputSchema, type BarUpdate, type YahooFinanceData } from '../schema';
+import { registerProvider } from '../providers';
+import { batchFetchStocks } from '../handlers/batch_fetch_stocks';
+import { listQuarantinedTicks } from '../handlers/list_quarantined_ticks';
+import { releaseQuarantinedTicks } from '../handlers/release_quarantined_ticks';
+import { dropQuarantinedTicks } from '../handlers/drop_quarantined_ticks';
+import { enqueueIngestJobs, processNextIngestJob } from '../jobs/queue';
+import { quarantineBars } from '../db/quarantine';
+import { barUpdates } from '../db/bar_events';
+import { eq } from 'drizzle-orm';
+
+// Three good bars around a broken one: close above high, negative volume
+const brokenBars: YahooFinanceData[] = [
+  { timestamp: MARKET_OPEN, open: 100, high: 101, low: 99, close: 100.5, volume: 1000 },
+  { timestamp: MARKET_OPEN + 60, open: 100.5, high: 100.75, low: 100, close: 101.123456, volume: -1 },
+  { timestamp: MARKET_OPEN + 120, open: 101, high: 102, low: 100.5, close: 101.5, volume: 800 },
+  { timestamp: MARKET_OPEN + 180, open: 101.5, high: 102, low: 101, close: 101.75, volume: 900 }
+];
+
+registerProvider({ id: 'broken', fetchBars: async () => brokenBars });
+
+// Collect onBars updates for every symbol until the returned stop is called
+const listen = () => {
+  const controller = new AbortController();
+  const updates: BarUpdate[] = [];
+  const done = (async () => {
+    for await (const update of barUpdates({}, controller.signal)) {
+      updates.push(update);
+    }
+  })();
+  return async () => {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+    await done;
+    return updates;
+  };
+};
+
+const list = (input: Record<string, unknown> = {}) => listQuarantinedTicks(listQuarantinedTicksInputSchema.parse(input));
+
+describe('quarantine', () => {
+  beforeEach(async () => {
+    await createDB();
+    process.env['MARKET_DATA_PROVIDER'] = 'broken';
+  });
+  afterEach(async () => {
+    delete process.env['MARKET_DATA_PROVIDER'];
+    await resetDB();
+  });
+
+  it('should hold failing bars back on ingest', async () => {
+    const result = await batchFetchStocks({ symbols: ['AAPL'], interval: '1m', period: '1d' });
+
+    expect(result.results[0]).toMatchObject({ status: 'succeeded', inserted: 3, quarantined: 1 });
+    const stored = await db.select().from(stockTicksTable).execute();
+    expect(stored.map(tick => tick.timestamp.getTime() / 1000)).toEqual([MARKET_OPEN, MARKET_OPEN + 120, MARKET_OPEN + 180]);
+
+    const quarantined = await list();
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0]).toMatchObject({
+      symbol: 'AAPL',
+      interval: '1m',
+      close: 101.123456,
+      volume: -1,
+      reasons: ['high_below_body', 'negative_volume'],
+      status: 'pending',
+      source: 'broken',
+      ingest_run_id: result.batchId,
+      reviewed_at: null
+    });
+    expect(quarantined[0].timestamp).toEqual(new Date((MARKET_OPEN + 60) * 1000));
+    expect(quarantined[0].payload_hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should keep one pending row per bar across repeated ingests', async () => {
+    const first = await batchFetchStocks({ symbols: ['AAPL'], interval: '1m', period: '1d' });
+    const second = await batchFetchStocks({ symbols: ['AAPL'], interval: '1m', period: '1d' });
+
+    expect(second.results[0]).toMatchObject({ status: 'succeeded', quarantined: 1 });
+    const quarantined = await list();
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0].ingest_run_id).toEqual(second.batchId);
+    expect(quarantined[0].ingest_run_id).not.toEqual(first.batchId);
+
+    // Once reviewed, the bar can be held back again
+    await dropQuarantinedTicks({ ids: [quarantined[0].id] });
+    await batchFetchStocks({ symbols: ['AAPL'], interval: '1m', period: '1d' });
+    expect(await list()).toHaveLength(1);
+    expect(await list({ status: 'dropped' })).toHaveLength(1);
+  });
+
+  it('should count quarantined bars on queued ingest jobs', async () => {
+    const { batchId } = await enqueueIngestJobs(enqueueIngestJobsInputSchema.parse({ symbols: ['AAPL'], interval: '1m', period: '1d' }));
+
+    const job = await processNextIngestJob();
+
+    expect(job).toMatchObject({ status: 'succeeded', bars_inserted: 3, bars_quarantined: 1 });
+    expect((await list())[0].ingest_run_id).toEqual(batchId);
+  });
+
+  it('should filter the review list', async () => {
+    await batchFetchStocks({ symbols: ['AAPL', 'MSFT'], interval: '1m', period: '1d' });
+
+    expect(await list({ symbol: 'MSFT' })).toHaveLength(1);
+    expect(await list({ interval: '5m' })).toEqual([]);
+    expect(await list({ status: 'dropped' })).toEqual([]);
+  });
+
+  it('should release bars into stock_ticks with their provenance', async () => {
+    await batchFetchStocks({ symbols: ['AAPL'], interval: '1m', period: '1d' });
+    const [pending] = await list();
+    const stop = listen();
+
+    const released = await releaseQuarantinedTicks({ ids: [pending.id] });
+
+    expect(released).toHaveLength(1);
+    const updates = await stop();
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ symbol: 'AAPL', interval: '1m' });
+    expect(updates[0].bars.map(bar => bar.timestamp)).toEqual([pending.timestamp]);
+    expect(released[0].status).toEqual('released');
+    expect(released[0].reviewed_at).toBeInstanceOf(Date);
+    const [tick] = await db.select().from(stockTicksTable)
+      .where(eq(stockTicksTable.timestamp, pending.timestamp))
+      .execute();
+    expect(tick).toMatchObject({
+      close: '101.1235',
+      volume: -1,
+      source: 'broken',
+      ingest_run_id: pending.ingest_run_id,
+      payload_hash: pending.payload_hash
+    });
+    expect(await list()).toEqual([]);
+  });
+
+  it('should store nothing when a release fails part way', async () => {
+    await quarantineBars('AAPL', '1m', [{ bar: brokenBars[1], reasons: ['negative_volume'], detail: 'volume -1 is negative' }], null);
+    // Too large for the stored price precision, so its write fails
+    const huge = { ...brokenBars[2], open: 1e9, high: 1e9, low: 1e9, close: 1e9 };
+    await quarantineBars('MSFT', '1m', [{ bar: huge, reasons: ['price_jump'], detail: 'close moved' }], null);
+    const ids = (await list()).map(tick => tick.id);
+    const stop = listen();
+
+    await expect(releaseQuarantinedTicks({ ids })).rejects.toThrow();
+
+    expect(await db.select().from(stockTicksTable).execute()).toEqual([]);
+    expect(await list()).toHaveLength(2);
+    expect(await stop()).toEqual([]);
+  });
+
+  it('should drop bars without storing them', async () => {
+    await batchFetchStocks({ symbols: ['AAPL'], interval: '1m', period: '1d' });
+    const [pending] = await list();
+
+    const dropped = await dropQuarantinedTicks({ ids: [pending.id] });
+
+    expect(dropped[0].status).toEqual('dropped');
+    expect(await db.select().from(stockTicksTable).execute()).toHaveLength(3);
+    expect(await list({ status: 'dropped' })).toHaveLength(1);
+  });
+
+  it('should only review pending bars', async () => {
+    await batchFetchStocks({ symbols: ['AAPL'], interval: '1m', period: '1d' });
+    const [pending] = await list();
+    await dropQuarantinedTicks({ ids: [pending.id] });
+
+    expect(await releaseQuarantinedTicks({ ids: [pending.id] })).toEqual([]);
+    expect(await dropQuarantinedTicks({ ids: [pending.id, 12345] })).toEqual([]);
+    const [row] = await db.select().from(quarantinedTicksTable).execute();
+    expect(row.status).toEqual('dropped');
+    expect(await db.select().from(stockTicksTable).execute()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, MARKET_OPEN, makeBars } from '../helpers';
+import { reconcileProvidersInputSchema } from '../schema';
+import { registerProvider } from '../providers';
+import { addSymbol } from '../handlers/add_symbol';
+import { setSymbolProviders } from '../handlers/set_symbol_providers';
+import { compareProviderBars, reconcileProviders } from '../handlers/reconcile_providers';
+
+const input = { symbol: 'AAPL', interval: '1m' as const, period: '1d' as const, tolerance: 0.001, volumeTolerance: 0.05 };
+
+registerProvider({ id: 'vendor-a', fetchBars: async () => makeBars(4) });
+registerProvider({
+  id: 'vendor-b',
+  // Starts a bar late, prints one bad close and a little more volume
+  fetchBars: async () => makeBars(5).slice(1).map((bar, i) =>
+    i === 1 ? { ...bar, close: 101, volume: 1020 } : bar
+  )
+});
+
+describe('provider reconciliation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report differences above tolerance on overlapping bars', async () => {
+    const report = await reconcileProviders({ ...input, providers: ['vendor-a', 'vendor-b'] });
+
+    expect(report).toMatchObject({ providers: ['vendor-a', 'vendor-b'], overlapping: 3, onlyA: 1, onlyB: 1, mismatched: 1 });
+    expect(report.differences).toHaveLength(1);
+    expect(report.differences[0]).toMatchObject({ field: 'close', a: 100, b: 101 });
+    expect(report.differences[0].timestamp.getTime() / 1000).toEqual(MARKET_OPEN + 120);
+    expect(report.differences[0].difference).toBeCloseTo(1 / 101);
+  });
+
+  it('should compare volume against its own tolerance', async () => {
+    const report = await reconcileProviders({ ...input, providers: ['vendor-a', 'vendor-b'], tolerance: 0.05, volumeTolerance: 0.01 });
+
+    expect(report.mismatched).toEqual(1);
+    expect(report.differences.map(difference => difference.field)).toEqual(['volume']);
+  });
+
+  it('should default to the symbol\'s first two providers', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+    await setSymbolProviders({ symbol: 'AAPL', providers: ['vendor-b', 'vendor-a', 'simulated'] });
+
+    const report = await reconcileProviders(input);
+
+    expect(report.providers).toEqual(['vendor-b', 'vendor-a']);
+    expect(report.differences[0]).toMatchObject({ a: 101, b: 100 });
+  });
+
+  it('should need two providers to compare', async () => {
+    await addSymbol({ symbol: 'AAPL' });
+
+    await expect(reconcileProviders(input)).rejects.toThrow(/fewer than two providers/);
+  });
+
+  it('should not reconcile a provider against itself', () => {
+    const result = reconcileProvidersInputSchema.safeParse({ symbol: 'AAPL', providers: ['vendor-a', 'vendor-a'] });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toEqual('Providers to reconcile must differ');
+    expect(reconcileProvidersInputSchema.safeParse({ symbol: 'AAPL', providers: ['vendor-a', 'vendor-b'] }).success).toBe(true);
+  });
+
+  it('should skip bars that are still forming', () => {
+    const a = makeBars(2);
+    const b = makeBars(2, 105);
+
+    // Only the first bar has closed one and a half minutes after the open
+    const comparison = compareProviderBars(a, b, '1m', 0.001, 0.05, (MARKET_OPEN + 90) * 1000);
+
+    expect(comparison).toMatchObject({ overlapping: 1, onlyA: 0, onlyB: 0, mismatched: 1 });
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { tradesTable } from '../db/schema';
+import { recordTradesInputSchema } from '../schema';
+import { recordTrades } from '../handlers/record_trades';
+import { eq } from 'drizzle-orm';
+
+describe('recordTrades', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should store trades with numeric prices', async () => {
+    const input = recordTradesInputSchema.parse({
+      symbol: 'AAPL',
+      trades: [
+        { timestamp: new Date('2024-03-04T14:30:00.125Z'), price: 175.25, size: 100, exchange: 'xnas', conditions: ['@'] },
+        { timestamp: new Date('2024-03-04T14:30:00.250Z'), price: 175.3, size: 40 }
+      ]
+    });
+
+    const result = await recordTrades(input);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].symbol).toEqual('AAPL');
+    expect(result[0].price).toEqual(175.25);
+    expect(typeof result[0].price).toBe('number');
+    expect(result[0].exchange).toEqual('XNAS');
+    expect(result[0].conditions).toEqual(['@']);
+    expect(result[1].exchange).toBeNull();
+    expect(result[1].conditions).toBeNull();
+  });
+
+  it('should keep millisecond timestamps', async () => {
+    await recordTrades(recordTradesInputSchema.parse({
+      symbol: 'MSFT',
+      trades: [{ timestamp: new Date('2024-03-04T14:30:00.987Z'), price: 410, size: 5 }]
+    }));
+
+    const rows = await db.select()
+      .from(tradesTable)
+      .where(eq(tradesTable.symbol, 'MSFT'))
+      .execute();
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].timestamp.toISOString()).toEqual('2024-03-04T14:30:00.987Z');
+    expect(rows[0].price).toEqual('410.0000');
+  });
+
+  it('should reject invalid prints', () => {
+    expect(() => recordTradesInputSchema.parse({
+      symbol: 'AAPL',
+      trades: [{ timestamp: new Date(), price: -1, size: 100 }]
+    })).toThrow();
+    expect(() => recordTradesInputSchema.parse({
+      symbol: 'AAPL',
+      trades: [{ timestamp: new Date(), price: 10, size: 1.5 }]
+    })).toThrow();
+    expect(() => recordTradesInputSchema.parse({ symbol: 'AAPL', trades: [] })).toThrow();
+  });
+});
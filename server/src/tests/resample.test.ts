@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'bun:test';
+import { MARKET_OPEN } from '../helpers';
+import { type StockTick } from '../schema';
+import { getSourceIntervals, resampleBars } from '../aggregation/resample';
+
+const open = MARKET_OPEN * 1000; // in ms
+const minute = 60 * 1000;
+
+const bar = (id: number, offsetMinutes: number, prices: [number, number, number, number], volume: number, symbol = 'AAPL'): StockTick => ({
+  id,
+  symbol,
+  timestamp: new Date(open + offsetMinutes * minute),
+  open: prices[0],
+  high: prices[1],
+  low: prices[2],
+  close: prices[3],
+  volume,
+  interval: '1m',
+  session: 'regular',
+  is_final: true,
+  source: 'simulated',
+  fetched_at: new Date(open + offsetMinutes * minute + minute),
+  ingest_run_id: 'run-1',
+  payload_hash: `hash-${id}`,
+  created_at: new Date(open + id)
+});
+
+describe('resampleBars', () => {
+  it('should roll finer bars up into OHLCV buckets', () => {
+    const bars = [
+      bar(1, 0, [100, 101, 99, 100.5], 10),
+      bar(2, 1, [100.5, 103, 100, 102], 20),
+      bar(3, 4, [102, 102.5, 98, 99], 5),
+      bar(4, 5, [99, 99.5, 98.5, 99.25], 7)
+    ];
+
+    const result = resampleBars(bars, '5m');
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ id: 3, open: 100, high: 103, low: 98, close: 99, volume: 35, interval: '5m', source_interval: '1m' });
+    expect(result[0].timestamp).toEqual(new Date(open));
+    expect(result[0].created_at).toEqual(new Date(open + 3));
+    expect(result[1]).toMatchObject({ id: 4, open: 99, close: 99.25, volume: 7 });
+  });
+
+  it('should not depend on input order and keep symbols apart', () => {
+    const bars = [
+      bar(1, 0, [100, 101, 99, 100.5], 10),
+      bar(2, 1, [100.5, 103, 100, 102], 20),
+      bar(3, 0, [400, 401, 399, 400], 1, 'MSFT')
+    ];
+
+    const result = resampleBars([bars[2], bars[1], bars[0]], '15m');
+
+    expect(result).toHaveLength(2);
+    expect(result.map(tick => tick.symbol)).toEqual(['AAPL', 'MSFT']);
+    expect(result[0]).toMatchObject({ open: 100, close: 102, volume: 30 });
+  });
+
+  it('should bucket daily bars by New York trading date', () => {
+    // 19:59 New York is already the next day in UTC
+    const bars = [bar(1, 0, [100, 101, 99, 100], 1), bar(2, 10 * 60 - 1, [100, 105, 100, 104], 1)];
+
+    const result = resampleBars(bars, '1d');
+
+    expect(result).toHaveLength(1);
+    expect(result[0].timestamp.toISOString()).toEqual('2024-03-04T05:00:00.000Z');
+    expect(result[0].close).toEqual(104);
+  });
+});
+
+describe('resampleBars forming bars', () => {
+  const bars = [bar(1, 0, [100, 101, 99, 100], 1), bar(2, 1, [100, 102, 100, 101], 1)];
+
+  it('should keep a bucket forming until its interval closes', () => {
+    expect(resampleBars(bars, '5m', open + 4 * minute)[0].is_final).toBe(false);
+    expect(resampleBars(bars, '5m', open + 5 * minute)[0].is_final).toBe(true);
+  });
+
+  it('should keep a bucket forming while any constituent is', () => {
+    const forming = [bars[0], { ...bars[1], is_final: false }];
+
+    expect(resampleBars(forming, '5m', open + 5 * minute)[0].is_final).toBe(false);
+  });
+});
+
+describe('resampleBars provenance', () => {
+  const bars = [bar(1, 0, [100, 101, 99, 100], 1), bar(2, 1, [100, 102, 100, 101], 1)];
+
+  it('should keep provenance every constituent shares', () => {
+    const [derived] = resampleBars(bars, '5m');
+
+    expect(derived).toMatchObject({ source: 'simulated', ingest_run_id: 'run-1', payload_hash: null });
+    expect(derived.fetched_at).toEqual(bars[1].fetched_at);
+  });
+
+  it('should drop provenance the constituents disagree on', () => {
+    const mixed = [bars[0], { ...bars[1], source: 'yahoo', ingest_run_id: 'run-2' }];
+
+    expect(resampleBars(mixed, '5m')[0]).toMatchObject({ source: null, ingest_run_id: null });
+  });
+});
+
+describe('getSourceIntervals', () => {
+  it('should only offer finer intervals that nest exactly', () => {
+    expect(getSourceIntervals('15m')).toEqual(['5m', '1m']);
+    expect(getSourceIntervals('90m')).toEqual(['30m', '15m', '5m', '2m', '1m']);
+    expect(getSourceIntervals('1d')[0]).toEqual('90m');
+    expect(getSourceIntervals('3mo')).toEqual(['1mo', '1d', '90m', '60m', '30m', '15m', '5m', '2m', '1m']);
+    expect(getSourceIntervals('1wk')).not.toContain('1mo');
+    expect(getSourceIntervals('1m')).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { schedulesTable, stockTicksTable } from '../db/schema';
+import { createScheduleInputSchema } from '../schema';
+import { createSchedule } from '../handlers/create_schedule';
+import { listSchedules } from '../handlers/list_schedules';
+import { updateSchedule } from '../handlers/update_schedule';
+import { deleteSchedule } from '../handlers/delete_schedule';
+import { addSymbol } from '../handlers/add_symbol';
+import { runDueSchedules } from '../jobs/scheduler';
+import { eq } from 'drizzle-orm';
+
+const create = (input: Record<string, unknown>) =>
+  createSchedule(createScheduleInputSchema.parse({ name: 'Minute bars', cron: '* * * * *', ...input }));
+
+// Make a schedule due at `at`
+const dueAt = (id: number, at: Date) => db.update(schedulesTable)
+  .set({ next_run_at: at })
+  .where(eq(schedulesTable.id, id))
+  .execute();
+
+describe('schedule procedures', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a schedule with its next run time', async () => {
+    const schedule = await create({ symbols: ['aapl'], interval: '5m' });
+
+    expect(schedule).toMatchObject({ name: 'Minute bars', session: 'all', symbols: ['AAPL'], interval: '5m', period: '1d', enabled: true, last_status: null });
+    expect(schedule.next_run_at.getTime()).toBeGreaterThan(Date.now());
+    expect(schedule.next_run_at.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+  });
+
+  it('should reject invalid cron expressions and interval/period pairs', () => {
+    expect(createScheduleInputSchema.safeParse({ name: 'Bad', cron: '* * *' }).success).toBe(false);
+    expect(createScheduleInputSchema.safeParse({ name: 'Bad', cron: '* * * * *', interval: '1m', period: '1y' }).success).toBe(false);
+  });
+
+  it('should list, update and delete schedules', async () => {
+    const first = await create({});
+    await create({ name: 'Daily bars', cron: '0 17 * * 1-5', interval: '1d', period: '5d' });
+
+    const updated = await updateSchedule({ id: first.id, cron: '0 9 * * 1-5', enabled: false });
+    expect(updated).toMatchObject({ cron: '0 9 * * 1-5', enabled: false });
+    // 09:00 New York is 13:00 or 14:00 UTC
+    expect([13, 14]).toContain(updated.next_run_at.getUTCHours());
+
+    expect((await listSchedules()).map(schedule => schedule.name)).toEqual(['Minute bars', 'Daily bars']);
+
+    await deleteSchedule({ id: first.id });
+    expect(await listSchedules()).toHaveLength(1);
+    await expect(deleteSchedule({ id: first.id })).rejects.toThrow(/does not exist/);
+  });
+
+  it('should check interval and period together on update', async () => {
+    const schedule = await create({ interval: '1d', period: '1y' });
+
+    await expect(updateSchedule({ id: schedule.id, interval: '1m' })).rejects.toThrow(/supports periods/);
+  });
+});
+
+describe('runDueSchedules', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // Monday 2024-03-04 10:00 New York
+  const regularHours = new Date('2024-03-04T15:00:00Z');
+
+  it('should fetch due schedules and advance them', async () => {
+    const schedule = await create({ symbols: ['AAPL'], interval: '5m' });
+    await dueAt(schedule.id, new Date(regularHours.getTime() - 1000));
+
+    const [ran] = await runDueSchedules(regularHours);
+
+    expect(ran).toMatchObject({ id: schedule.id, last_status: 'succeeded', last_error: null });
+    expect(ran.last_run_at).toEqual(regularHours);
+    expect(ran.next_run_at).toEqual(new Date('2024-03-04T15:01:00Z'));
+    const stored = await db.select().from(stockTicksTable).where(eq(stockTicksTable.symbol, 'AAPL')).execute();
+    expect(stored.length).toBeGreaterThan(0);
+
+    // Claimed once; the next tick in the same minute finds nothing due
+    expect(await runDueSchedules(regularHours)).toEqual([]);
+  });
+
+  it('should skip runs outside the schedule session', async () => {
+    const schedule = await create({ symbols: ['AAPL'], session: 'regular' });
+    // Saturday
+    const weekend = new Date('2024-03-09T15:00:00Z');
+    await dueAt(schedule.id, weekend);
+
+    const [ran] = await runDueSchedules(weekend);
+
+    expect(ran).toMatchObject({ last_status: 'skipped', last_error: 'Market not in regular session' });
+    expect(await db.select().from(stockTicksTable).execute()).toHaveLength(0);
+  });
+
+  it('should ignore disabled schedules and ones not yet due', async () => {
+    const disabled = await create({ enabled: false });
+    await dueAt(disabled.id, new Date(regularHours.getTime() - 1000));
+    await create({});
+
+    expect(await runDueSchedules(regularHours)).toEqual([]);
+  });
+
+  it('should fetch every active symbol when none are listed', async () => {
+    const schedule = await create({ interval: '1d', period: '5d' });
+    await dueAt(schedule.id, regularHours);
+
+    // A fresh database tracks no symbols until some are added
+    const [skipped] = await runDueSchedules(regularHours);
+    expect(skipped).toMatchObject({ last_status: 'skipped', last_error: 'No symbols to fetch' });
+
+    await addSymbol({ symbol: 'MSFT' });
+    await dueAt(schedule.id, regularHours);
+    const [ran] = await runDueSchedules(regularHours);
+
+    expect(ran.last_status).toEqual('succeeded');
+    const stored = await db.select().from(stockTicksTable).execute();
+    expect(stored.length).toBeGreaterThan(0);
+    expect(stored.every(tick => tick.symbol === 'MSFT')).toBe(true);
+  });
+});
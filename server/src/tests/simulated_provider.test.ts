@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'bun:test';
+import { createSimulatedProvider, simulatorRegimes } from '../providers/simulated';
+import { type ProviderFetchRequest, type ProviderQuoteRequest } from '../providers';
+
+// Wednesday 2024-01-03 16:00 New York (21:00 UTC)
+const rangeEnd = new Date('2024-01-03T21:00:00Z');
+
+const request: ProviderFetchRequest = {
+  symbol: 'AAPL',
+  interval: '5m',
+  period: '5d',
+  end: rangeEnd
+};
+
+describe('simulated provider', () => {
+  it('should produce identical bars for the same seed and range', async () => {
+    const first = await createSimulatedProvider({ seed: 'test' }).fetchBars(request);
+    const second = await createSimulatedProvider({ seed: 'test' }).fetchBars(request);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('should produce different bars for different seeds', async () => {
+    const first = await createSimulatedProvider({ seed: 'one' }).fetchBars(request);
+    const second = await createSimulatedProvider({ seed: 'two' }).fetchBars(request);
+
+    expect(second.map(bar => bar.close)).not.toEqual(first.map(bar => bar.close));
+  });
+
+  it('should honour per-symbol seed overrides', async () => {
+    const base = await createSimulatedProvider({ seed: 'test' }).fetchBars(request);
+    const overridden = await createSimulatedProvider({ seed: 'test', symbolSeeds: { AAPL: 'other' } }).fetchBars(request);
+
+    expect(overridden.map(bar => bar.close)).not.toEqual(base.map(bar => bar.close));
+  });
+
+  it('should agree on bars shared by overlapping ranges', async () => {
+    const provider = createSimulatedProvider({ seed: 'test' });
+    const wide = await provider.fetchBars({ ...request, period: '5d' });
+    const narrow = await provider.fetchBars({ ...request, period: '1d', end: new Date('2024-01-03T18:00:00Z') });
+
+    const wideByTime = new Map(wide.map(bar => [bar.timestamp, bar]));
+    // The last narrow bar may still be forming, so compare the completed ones
+    narrow.slice(0, -1).forEach(bar => {
+      expect(wideByTime.get(bar.timestamp)).toEqual(bar);
+    });
+  });
+
+  it('should only emit bars during extended hours on weekdays', async () => {
+    const bars = await createSimulatedProvider({ seed: 'test' }).fetchBars({ ...request, interval: '1m', period: '1mo' });
+
+    bars.forEach(bar => {
+      // EST is UTC-5 throughout the range
+      const newYork = new Date((bar.timestamp - 5 * 3600) * 1000);
+      expect(newYork.getUTCDay()).not.toEqual(0);
+      expect(newYork.getUTCDay()).not.toEqual(6);
+      expect(newYork.getUTCHours()).toBeGreaterThanOrEqual(4);
+      expect(newYork.getUTCHours()).toBeLessThan(20);
+    });
+  });
+
+  it('should follow the trading calendar for holidays and early closes', async () => {
+    const provider = createSimulatedProvider({ seed: 'test' });
+    // Independence Day 2024, then the early close on the day after Thanksgiving
+    const holiday = await provider.fetchBars({
+      ...request, interval: '1m', start: new Date('2024-07-04T04:00:00Z'), end: new Date('2024-07-05T04:00:00Z')
+    });
+    const earlyClose = await provider.fetchBars({
+      ...request, interval: '1m', start: new Date('2024-11-29T05:00:00Z'), end: new Date('2024-11-30T05:00:00Z')
+    });
+
+    expect(holiday).toEqual([]);
+    expect(earlyClose.length).toBeGreaterThan(0);
+    // Post-market ends at 17:00 New York (22:00 UTC)
+    expect(earlyClose[earlyClose.length - 1].timestamp).toEqual(Date.parse('2024-11-29T21:59:00Z') / 1000);
+  });
+
+  it('should concentrate regular-session volume at the open and close', async () => {
+    const bars = await createSimulatedProvider({ seed: 'test' }).fetchBars({ ...request, interval: '30m', period: '1d' });
+    const volumeAt = (utcTime: string) => bars.find(bar => bar.timestamp === Date.parse(`2024-01-03T${utcTime}Z`) / 1000)!.volume;
+
+    // 09:30, 12:30 and 15:30 New York
+    expect(volumeAt('14:30:00')).toBeGreaterThan(volumeAt('17:30:00'));
+    expect(volumeAt('20:30:00')).toBeGreaterThan(volumeAt('17:30:00'));
+  });
+
+  it('should round prices to the tick size and keep OHLC relationships', async () => {
+    const bars = await createSimulatedProvider({ seed: 'test', tickSize: 0.05 }).fetchBars(request);
+
+    bars.forEach(bar => {
+      [bar.open, bar.high, bar.low, bar.close].forEach(price => {
+        expect(Math.abs(price * 20 - Math.round(price * 20))).toBeLessThan(1e-6);
+      });
+      expect(bar.high).toBeGreaterThanOrEqual(Math.max(bar.open, bar.close));
+      expect(bar.low).toBeLessThanOrEqual(Math.min(bar.open, bar.close));
+      expect(bar.volume).toBeGreaterThan(0);
+    });
+  });
+
+  it('should move further in a volatile regime than a calm one', async () => {
+    const spread = async (regime: keyof typeof simulatorRegimes) => {
+      const bars = await createSimulatedProvider({ seed: 'test', regime: simulatorRegimes[regime] })
+        .fetchBars({ ...request, interval: '1d', period: '1y' });
+      const closes = bars.map(bar => Math.log(bar.close));
+      const returns = closes.slice(1).map((close, i) => close - closes[i]);
+      return Math.sqrt(returns.reduce((sum, r) => sum + r * r, 0) / returns.length);
+    };
+
+    expect(await spread('volatile')).toBeGreaterThan(await spread('calm'));
+  });
+
+  it('should align daily bars to New York trading dates', async () => {
+    const bars = await createSimulatedProvider({ seed: 'test' }).fetchBars({ ...request, interval: '1d', period: '1mo' });
+
+    bars.forEach(bar => {
+      // New York midnight in EST
+      expect(new Date(bar.timestamp * 1000).getUTCHours()).toEqual(5);
+    });
+  });
+
+  it('should quote a valid market around the bar prices', async () => {
+    const provider = createSimulatedProvider({ seed: 'test' });
+    const quoteRequest: ProviderQuoteRequest = { symbol: 'AAPL', period: '1d', end: rangeEnd };
+    const quotes = await provider.fetchQuotes!(quoteRequest);
+    const bars = await provider.fetchBars({ ...quoteRequest, interval: '1m' });
+
+    expect(quotes.length).toEqual(bars.length);
+    quotes.forEach((quote, i) => {
+      expect(quote.ask).toBeGreaterThan(quote.bid);
+      expect(quote.bid_size % 100).toEqual(0);
+      expect(quote.ask_size).toBeGreaterThan(0);
+      // Each quote is taken as its minute's bar closes
+      expect(quote.timestamp).toEqual((bars[i].timestamp + 60) * 1000);
+      expect(quote.bid).toBeLessThanOrEqual(bars[i].close + 0.01);
+      expect(quote.ask).toBeGreaterThanOrEqual(bars[i].close - 0.01);
+    });
+    expect(await provider.fetchQuotes!(quoteRequest)).toEqual(quotes);
+  });
+
+  it('should quote wider spreads outside the regular session', async () => {
+    const quotes = await createSimulatedProvider({ seed: 'test' }).fetchQuotes!({ symbol: 'AAPL', period: '1d', end: rangeEnd });
+    const spreadBps = (quote: { bid: number; ask: number }) => (quote.ask - quote.bid) / ((quote.ask + quote.bid) / 2) * 1e4;
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    // 04:00-09:30 New York is 09:00-14:30 UTC in January
+    const regularOpen = Date.parse('2024-01-03T14:30:00Z');
+    const preMarket = quotes.filter(quote => quote.timestamp <= regularOpen);
+    const regular = quotes.filter(quote => quote.timestamp > regularOpen);
+
+    expect(preMarket.length).toBeGreaterThan(0);
+    expect(average(preMarket.map(spreadBps))).toBeGreaterThan(2 * average(regular.map(spreadBps)));
+  });
+});
@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { createYahooProvider, parseYahooChartResponse, type YahooChartResponse } from '../providers/yahoo';
+import { startYahooFixtureServer, type FixtureServer } from '../providers/yahoo_fixture_server';
+import aaplFixture from '../providers/fixtures/yahoo/AAPL.json';
+import notFoundFixture from '../providers/fixtures/yahoo/not_found.json';
+
+describe('parseYahooChartResponse', () => {
+  it('should map v8 chart arrays into bars', () => {
+    const { meta, bars } = parseYahooChartResponse(aaplFixture);
+
+    expect(meta.symbol).toEqual('AAPL');
+    expect(meta.gmtoffset).toEqual(-18000);
+    expect(meta.exchangeTimezoneName).toEqual('America/New_York');
+
+    const firstBar = bars[0];
+    expect(firstBar.timestamp).toEqual(1704205800);
+    expect(firstBar.open).toEqual(187.15);
+    expect(Number.isInteger(firstBar.volume)).toBe(true);
+  });
+
+  it('should drop null-filled bars', () => {
+    const { bars } = parseYahooChartResponse(aaplFixture);
+    const timestamps = aaplFixture.chart.result[0].timestamp;
+
+    // The fixture has one bar with no trades
+    expect(bars).toHaveLength(timestamps.length - 1);
+    expect(bars.map(bar => bar.timestamp)).not.toContain(timestamps[5]);
+  });
+
+  it('should treat a null volume as zero when prices are present', () => {
+    const payload: YahooChartResponse = structuredClone(aaplFixture);
+    payload.chart.result![0].indicators.quote[0].volume![1] = null;
+
+    const { bars } = parseYahooChartResponse(payload);
+
+    expect(bars[1].volume).toEqual(0);
+  });
+
+  it('should return no bars when the range is empty', () => {
+    const payload: YahooChartResponse = structuredClone(aaplFixture);
+    const [result] = payload.chart.result!;
+    delete result.timestamp;
+    result.indicators.quote = [{}];
+
+    expect(parseYahooChartResponse(payload).bars).toEqual([]);
+  });
+
+  it('should throw on chart error objects', () => {
+    expect(() => parseYahooChartResponse(notFoundFixture)).toThrow(/Not Found/);
+  });
+
+  it('should throw on malformed payloads', () => {
+    expect(() => parseYahooChartResponse({ foo: 'bar' })).toThrow(/Malformed/);
+  });
+});
+
+describe('yahoo provider against the fixture server', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startYahooFixtureServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('should fetch and parse recorded responses', async () => {
+    const provider = createYahooProvider(server.url);
+
+    const bars = await provider.fetchBars({ symbol: 'MSFT', interval: '5m', period: '1d' });
+
+    expect(bars.length).toBeGreaterThan(0);
+    bars.forEach(bar => {
+      expect(bar.high).toBeGreaterThanOrEqual(bar.low);
+    });
+  });
+
+  it('should surface Yahoo errors for unknown symbols', async () => {
+    const provider = createYahooProvider(server.url);
+
+    await expect(provider.fetchBars({ symbol: 'ZZZZ', interval: '1m', period: '1d' }))
+      .rejects.toThrow(/No data found/);
+  });
+
+  it('should answer malformed symbol escapes with a 400', async () => {
+    const response = await fetch(`${server.url}/v8/finance/chart/%E0`);
+
+    expect(response.status).toEqual(400);
+    expect(await response.json()).toEqual({ error: 'Bad Request' });
+  });
+});
@@ -0,0 +1,133 @@
+import { type Interval, type QuarantineReason, type YahooFinanceData } from '../schema';
+import { isIntraday, maxIntervalMs } from '../intervals';
+
+// Default for how far a close-to-close move may stray from the batch's
+// typical move, in robust standard deviations, before it counts as a jump
+export const DEFAULT_JUMP_SIGMA = 15;
+// Fewer returns than this give no usable estimate of the typical move
+const MIN_JUMP_SAMPLE = 20;
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_TO_SIGMA = 1.4826;
+
+export interface BarValidationOptions {
+  jumpSigma?: number; // defaults to BAR_JUMP_SIGMA, then DEFAULT_JUMP_SIGMA
+}
+
+export interface RejectedBar {
+  bar: YahooFinanceData;
+  reasons: QuarantineReason[];
+  detail: string; // the failed checks, for reviewers
+}
+
+export interface BarValidationResult {
+  accepted: YahooFinanceData[]; // in the order given
+  rejected: RejectedBar[];
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const resolveJumpSigma = (options: BarValidationOptions): number => {
+  const fromEnv = parseFloat(process.env['BAR_JUMP_SIGMA'] ?? '');
+  return options.jumpSigma ?? (Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_JUMP_SIGMA);
+};
+
+// Check provider bars, in the order the provider sent them, before they are
+// stored:
+// - high must be at least max(open, close) and low at most min(open, close)
+// - volume must not be negative
+// - timestamps must not go backwards (repeats are left to the writer)
+// - the close-to-close log return from the previous bar must stay within
+//   jumpSigma robust deviations (median absolute deviation) of the batch's
+//   median return. A spike, a bar moving out of line and straight back, is
+//   rejected on its own; for a jump that holds, only the first bar moved is.
+//   Batches too small or too flat to estimate that are not checked for jumps.
+// A bar failing any check is rejected with every reason that applies.
+export const validateBars = (bars: YahooFinanceData[], interval: Interval, options: BarValidationOptions = {}): BarValidationResult => {
+  const failures = new Map<YahooFinanceData, { reasons: QuarantineReason[]; details: string[] }>();
+  const reject = (bar: YahooFinanceData, reason: QuarantineReason, detail: string) => {
+    const failure = failures.get(bar) ?? { reasons: [], details: [] };
+    failure.reasons.push(reason);
+    failure.details.push(detail);
+    failures.set(bar, failure);
+  };
+
+  let latest = -Infinity;
+  const ordered: YahooFinanceData[] = [];
+  for (const bar of bars) {
+    if (bar.high < Math.max(bar.open, bar.close)) {
+      reject(bar, 'high_below_body', `high ${bar.high} is below max(open ${bar.open}, close ${bar.close})`);
+    }
+    if (bar.low > Math.min(bar.open, bar.close)) {
+      reject(bar, 'low_above_body', `low ${bar.low} is above min(open ${bar.open}, close ${bar.close})`);
+    }
+    if (bar.volume < 0) {
+      reject(bar, 'negative_volume', `volume ${bar.volume} is negative`);
+    }
+    if (bar.timestamp < latest) {
+      reject(bar, 'out_of_order', `timestamp ${new Date(bar.timestamp * 1000).toISOString()} comes after ${new Date(latest * 1000).toISOString()}`);
+    } else {
+      latest = bar.timestamp;
+      ordered.push(bar);
+    }
+  }
+
+  // Returns between neighbouring bars in time order. Intraday moves across a
+  // gap (overnight, a halt) aren't comparable to bar-to-bar moves.
+  const maxStepSeconds = isIntraday(interval) ? maxIntervalMs(interval) / 1000 : Infinity;
+  const moves: { bar: YahooFinanceData; index: number; value: number }[] = [];
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1].close;
+    const current = ordered[i].close;
+    if (previous > 0 && current > 0 && ordered[i].timestamp - ordered[i - 1].timestamp <= maxStepSeconds) {
+      moves.push({ bar: ordered[i], index: i, value: Math.log(current / previous) });
+    }
+  }
+
+  if (moves.length >= MIN_JUMP_SAMPLE) {
+    const jumpSigma = resolveJumpSigma(options);
+    const center = median(moves.map(move => move.value));
+    const sigma = MAD_TO_SIGMA * median(moves.map(move => Math.abs(move.value - center)));
+    if (sigma > 0) {
+      // Signed deviation of each move, or 0 when it is within the threshold
+      const jumps = moves.map(move => {
+        const deviations = (move.value - center) / sigma;
+        return Math.abs(deviations) > jumpSigma ? deviations : 0;
+      });
+      // Whether move j directly follows move i, with no gap between them
+      const follows = (i: number, j: number) => j >= 0 && j < moves.length && moves[j].index === moves[i].index + 1;
+
+      let spikeExit = -1;
+      for (let i = 0; i < moves.length; i++) {
+        if (jumps[i] === 0 || i === spikeExit) {
+          continue;
+        }
+        // The rest of a jump already flagged at its first bar
+        if (follows(i - 1, i) && Math.sign(jumps[i - 1]) === Math.sign(jumps[i])) {
+          continue;
+        }
+        // The move back out of a spike is the spiking bar's, not the next bar's
+        if (follows(i, i + 1) && Math.sign(jumps[i + 1]) === -Math.sign(jumps[i])) {
+          spikeExit = i + 1;
+        }
+        const move = moves[i];
+        reject(move.bar, 'price_jump', `close moved ${(move.value * 100).toFixed(2)}%, ${Math.abs(jumps[i]).toFixed(1)} sigma from the batch median`);
+      }
+    }
+  }
+
+  const accepted: YahooFinanceData[] = [];
+  const rejected: RejectedBar[] = [];
+  for (const bar of bars) {
+    const failure = failures.get(bar);
+    if (failure) {
+      rejected.push({ bar, reasons: failure.reasons, detail: failure.details.join('; ') });
+    } else {
+      accepted.push(bar);
+    }
+  }
+  return { accepted, rejected };
+};